@@ -1,6 +1,30 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  experimental: {
+    serverActions: {
+      // Upload foto HP (termasuk HEIC) hingga 20MB lewat server action
+      bodySizeLimit: "21mb",
+    },
+  },
+  async headers() {
+    return [
+      {
+        // Service worker selalu diambil ulang agar update langsung terpasang
+        source: "/sw.js",
+        headers: [
+          {
+            key: "Content-Type",
+            value: "application/javascript; charset=utf-8",
+          },
+          {
+            key: "Cache-Control",
+            value: "no-cache, no-store, must-revalidate",
+          },
+        ],
+      },
+    ];
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,205 @@
+/**
+ * Service worker GKY Gerendeng's Journey
+ * - Cache app shell (aset /_next/static, ikon, halaman /offline)
+ * - Network-first untuk timeline (/); hanya halaman ini yang disimpan,
+ *   halaman lain (admin, trash, review, dsb.) tidak pernah di-cache.
+ *   Saat offline pakai timeline tersimpan atau /offline (daftar journey
+ *   yang terakhir dibuka; detail journey tampil di timeline, bukan route)
+ * - Cache berisi data user dihapus saat sesi hilang (halaman login
+ *   terbuka tanpa redirect, atau respons 401), tidak hanya saat logout
+ * - Menampilkan notifikasi Web Push
+ *
+ * Naikkan CACHE_VERSION jika strategi cache berubah.
+ * RECENT_MILESTONES_CACHE harus sama dengan src/lib/pwa/offline.ts.
+ */
+
+const CACHE_VERSION = "v2";
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const PAGES_CACHE = `pages-${CACHE_VERSION}`;
+const RECENT_MILESTONES_CACHE = "recent-milestones-v1";
+const OFFLINE_URL = "/offline";
+const MAX_CACHED_PAGES = 20;
+const CACHEABLE_PAGES = ["/"];
+const LOGIN_PATH = "/login";
+
+const PRECACHE_URLS = [
+  OFFLINE_URL,
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const keep = [SHELL_CACHE, PAGES_CACHE, RECENT_MILESTONES_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => !keep.includes(name))
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+/**
+ * Batasi jumlah halaman tersimpan (yang paling lama dihapus dulu)
+ */
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - maxEntries))
+      .map((key) => cache.delete(key)),
+  );
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Hapus halaman & journey tersimpan milik user (sesi sudah tidak ada)
+ */
+async function clearUserCaches() {
+  await Promise.all([
+    caches.delete(PAGES_CACHE),
+    caches.delete(RECENT_MILESTONES_CACHE),
+  ]);
+}
+
+/**
+ * Navigasi ke halaman selain timeline: tidak di-cache, tapi tetap jadi
+ * sinyal sesi hilang. User yang masih login diarahkan proxy keluar dari
+ * /login, jadi /login yang terbuka (200) berarti sesi sudah tidak ada.
+ */
+async function networkOnlyPage(request) {
+  try {
+    const response = await fetch(request);
+    const { pathname } = new URL(request.url);
+    if (response.status === 401 || (response.ok && pathname === LOGIN_PATH)) {
+      await clearUserCaches();
+    }
+    return response;
+  } catch {
+    return (await caches.match(OFFLINE_URL)) || Response.error();
+  }
+}
+
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    if (response.status === 401) {
+      await clearUserCaches();
+    } else if (response.ok && !response.redirected) {
+      const cache = await caches.open(PAGES_CACHE);
+      await cache.put(request, response.clone());
+      await trimCache(PAGES_CACHE, MAX_CACHED_PAGES);
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    return cached || (await caches.match(OFFLINE_URL)) || Response.error();
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Jangan cache API, auth callback, link berbagi (agar pencabutan langsung
+  // berlaku), dan request RSC/server action
+  if (
+    url.pathname.startsWith("/api/") ||
+    url.pathname.startsWith("/auth/") ||
+    url.pathname.startsWith("/s/") ||
+    request.headers.has("RSC") ||
+    request.headers.has("Next-Action")
+  ) {
+    return;
+  }
+
+  if (
+    url.pathname.startsWith("/_next/static/") ||
+    url.pathname.startsWith("/icons/")
+  ) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      CACHEABLE_PAGES.includes(url.pathname)
+        ? networkFirstPage(request)
+        : networkOnlyPage(request),
+    );
+  }
+});
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "GKY Journey", {
+      body: payload.body || "",
+      icon: "/icons/icon-192.png",
+      badge: "/icons/icon-192.png",
+      tag: payload.tag,
+      data: { url: payload.url || "/" },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const target = new URL(
+    (event.notification.data && event.notification.data.url) || "/",
+    self.location.origin,
+  ).href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const existing = windows.find((client) => client.url === target);
+        if (existing) return existing.focus();
+
+        const any = windows[0];
+        if (any && "navigate" in any) {
+          return any
+            .navigate(target)
+            .then((client) => client && client.focus());
+        }
+        return self.clients.openWindow(target);
+      }),
+  );
+});
@@ -1,5 +1,6 @@
 import { redirect } from "next/navigation";
 import { getUser, signOut } from "@/lib/actions/auth";
+import { getNotificationPreferences } from "@/lib/actions/notifications";
 import { AccountCard } from "@/components/organism/account-card";
 import { Header } from "@/components/organism/header";
 
@@ -11,13 +12,19 @@ export default async function AccountPage() {
     redirect("/login");
   }
 
+  const preferencesResult = await getNotificationPreferences();
+
   return (
     <div className="relative">
       <div className="absolute top-0 w-full">
         <Header />
         <div className="bg-background flex min-h-svh flex-col items-center justify-start md:justify-center gap-6 p-6">
           <div className="mt-[6%] md:-mt-[16%] w-full max-w-md">
-            <AccountCard user={user} signOutAction={signOut} />
+            <AccountCard
+              user={user}
+              signOutAction={signOut}
+              notificationPreferences={preferencesResult.data}
+            />
           </div>
         </div>
       </div>
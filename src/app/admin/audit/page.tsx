@@ -0,0 +1,74 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getUser } from "@/lib/actions/auth";
+import { hasPermission } from "@/lib/actions/roles";
+import { getAuditLog } from "@/lib/actions/audit";
+import { applyAuditFilters, parseAuditFilters } from "@/lib/audit-filters";
+import { AuditLogViewer } from "@/components/organism/audit-log-viewer";
+import { Header } from "@/components/organism/header";
+
+interface AdminAuditPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Halaman audit log perubahan journey & gambar
+ * DILINDUNGI: Memerlukan izin audit.view (owner)
+ */
+export default async function AdminAuditPage({
+  searchParams,
+}: AdminAuditPageProps) {
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Verifikasi user boleh melihat audit log
+  const canViewAudit = await hasPermission("audit.view");
+  if (!canViewAudit) {
+    redirect("/?error=unauthorized");
+  }
+
+  const filters = parseAuditFilters(await searchParams);
+  // Key per kombinasi filter agar daftar yang sudah dimuat di-reset
+  const viewerKey = applyAuditFilters(filters).toString();
+  const auditResult = await getAuditLog(filters);
+
+  return (
+    <div className="relative">
+      <div className="absolute top-0 w-full">
+        <Header />
+        <div className="pb-[8%] bg-background">
+          <main className="flex flex-col gap-8 min-h-svh p-4 sm:p-6 max-w-3xl mx-auto">
+            <div className="mt-3">
+              <h1 className="font-bold text-2xl sm:text-3xl text-center">
+                Audit Log
+              </h1>
+              <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+                Siapa mengubah apa dan kapan.{" "}
+                <Link
+                  href="/admin/users"
+                  className="underline underline-offset-4 hover:text-foreground"
+                >
+                  Kelola user
+                </Link>
+              </p>
+            </div>
+            {auditResult.success && auditResult.data ? (
+              <AuditLogViewer
+                key={viewerKey}
+                initialPage={auditResult.data}
+                filters={filters}
+              />
+            ) : (
+              <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                {auditResult.error}
+              </div>
+            )}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
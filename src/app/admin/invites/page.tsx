@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getUser } from "@/lib/actions/auth";
+import { hasPermission } from "@/lib/actions/roles";
+import { getInviteLinks, getSignupAllowlist } from "@/lib/actions/invites";
+import { InviteManager } from "@/components/organism/invite-manager";
+import { Header } from "@/components/organism/header";
+
+/**
+ * Halaman allowlist pendaftaran & link undangan
+ * DILINDUNGI: Memerlukan izin user.manage (owner)
+ */
+export default async function AdminInvitesPage() {
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Verifikasi user boleh mengelola user
+  const canManageUsers = await hasPermission("user.manage");
+  if (!canManageUsers) {
+    redirect("/?error=unauthorized");
+  }
+
+  const [allowlistResult, invitesResult] = await Promise.all([
+    getSignupAllowlist(),
+    getInviteLinks(),
+  ]);
+  const error = allowlistResult.error || invitesResult.error;
+
+  return (
+    <div className="relative">
+      <div className="absolute top-0 w-full">
+        <Header />
+        <div className="pb-[8%] bg-background">
+          <main className="flex flex-col gap-8 min-h-svh p-4 sm:p-6 max-w-3xl mx-auto">
+            <div className="mt-3">
+              <h1 className="font-bold text-2xl sm:text-3xl text-center">
+                Undangan
+              </h1>
+              <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+                Atur siapa saja yang boleh mendaftar.{" "}
+                <Link
+                  href="/admin/users"
+                  className="underline underline-offset-4 hover:text-foreground"
+                >
+                  Kelola user
+                </Link>
+              </p>
+            </div>
+            {error ? (
+              <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                {error}
+              </div>
+            ) : (
+              <InviteManager
+                initialAllowlist={allowlistResult.data ?? []}
+                initialInvites={invitesResult.data ?? []}
+              />
+            )}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
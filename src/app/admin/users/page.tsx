@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getUser } from "@/lib/actions/auth";
+import { hasPermission } from "@/lib/actions/roles";
+import { listUsers } from "@/lib/actions/users";
+import { UserManager } from "@/components/organism/user-manager";
+import { Header } from "@/components/organism/header";
+
+/**
+ * Halaman kelola user & role
+ * DILINDUNGI: Memerlukan izin user.manage (owner)
+ */
+export default async function AdminUsersPage() {
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Verifikasi user boleh mengelola user
+  const canManageUsers = await hasPermission("user.manage");
+  if (!canManageUsers) {
+    redirect("/?error=unauthorized");
+  }
+
+  const usersResult = await listUsers();
+
+  return (
+    <div className="relative">
+      <div className="absolute top-0 w-full">
+        <Header />
+        <div className="pb-[8%] bg-background">
+          <main className="flex flex-col gap-8 min-h-svh p-4 sm:p-6 max-w-3xl mx-auto">
+            <div className="mt-3">
+              <h1 className="font-bold text-2xl sm:text-3xl text-center">
+                Kelola User
+              </h1>
+              <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+                Daftar user, role, dan undangan.{" "}
+                <Link
+                  href="/admin/invites"
+                  className="underline underline-offset-4 hover:text-foreground"
+                >
+                  Allowlist & link undangan
+                </Link>
+                {" · "}
+                <Link
+                  href="/admin/audit"
+                  className="underline underline-offset-4 hover:text-foreground"
+                >
+                  Audit log
+                </Link>
+              </p>
+            </div>
+            {usersResult.success ? (
+              <UserManager
+                initialUsers={usersResult.data ?? []}
+                currentUserId={user.id}
+              />
+            ) : (
+              <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                {usersResult.error}
+              </div>
+            )}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorizeCronRequest } from "@/lib/auth/cron";
+import { sendWeeklyDigest } from "@/lib/mail/notify";
+
+/**
+ * Job ringkasan mingguan journey yang baru terbit
+ *
+ * Akses: CRON_SECRET atau sesi owner (izin notification.manage), sesi hanya
+ * dry run (lihat authorizeCronRequest di src/lib/auth/cron.ts)
+ * Query:
+ * - dry_run=false → benar-benar mengirim email (default: hanya laporan jumlah journey & penerima)
+ */
+export async function GET(request: Request) {
+  const auth = await authorizeCronRequest(request, "notification.manage");
+  if (!auth.ok) return auth.response;
+  const { dryRun } = auth;
+
+  try {
+    const report = await sendWeeklyDigest({ dryRun });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error(
+      "Weekly digest error:",
+      process.env.NODE_ENV === "development" ? error : "Failed",
+    );
+    return NextResponse.json(
+      { error: "Gagal mengirim ringkasan mingguan" },
+      { status: 500 },
+    );
+  }
+}
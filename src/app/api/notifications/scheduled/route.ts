@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorizeCronRequest } from "@/lib/auth/cron";
+import { announceDueScheduledMilestones } from "@/lib/notifications/published";
+
+/**
+ * Job pengumuman journey terjadwal yang publish_at-nya sudah lewat
+ *
+ * Akses: CRON_SECRET atau sesi owner (izin notification.manage), sesi hanya
+ * dry run (lihat authorizeCronRequest di src/lib/auth/cron.ts)
+ * Query:
+ * - dry_run=false → benar-benar mengirim (default: hanya laporan jumlah journey)
+ */
+export async function GET(request: Request) {
+  const auth = await authorizeCronRequest(request, "notification.manage");
+  if (!auth.ok) return auth.response;
+  const { dryRun } = auth;
+
+  try {
+    const report = await announceDueScheduledMilestones({ dryRun });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error(
+      "Scheduled publish notification error:",
+      process.env.NODE_ENV === "development" ? error : "Failed",
+    );
+    return NextResponse.json(
+      { error: "Gagal mengumumkan journey terjadwal" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authorizeCronRequest } from "@/lib/auth/cron";
+import { collectOrphanedObjects } from "@/lib/storage/gc";
+
+/**
+ * Job pembersihan objek S3 yang tidak lagi direferensikan milestone
+ *
+ * Akses: CRON_SECRET atau sesi owner (izin storage.manage), sesi hanya
+ * dry run (lihat authorizeCronRequest di src/lib/auth/cron.ts)
+ * Query:
+ * - dry_run=false → benar-benar menghapus (default: hanya laporan)
+ * - grace_hours=N → umur minimum objek sebelum dihapus (default 24)
+ */
+export async function GET(request: Request) {
+  const auth = await authorizeCronRequest(request, "storage.manage");
+  if (!auth.ok) return auth.response;
+  const { dryRun, searchParams } = auth;
+  const graceParam = Number(searchParams.get("grace_hours"));
+  const graceHours =
+    Number.isFinite(graceParam) && graceParam > 0 ? graceParam : undefined;
+
+  try {
+    const report = await collectOrphanedObjects({ dryRun, graceHours });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error(
+      "Storage GC error:",
+      process.env.NODE_ENV === "development" ? error : "Failed",
+    );
+    return NextResponse.json(
+      { error: "Gagal menjalankan pembersihan storage" },
+      { status: 500 },
+    );
+  }
+}
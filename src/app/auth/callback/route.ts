@@ -1,13 +1,17 @@
+import { cookies } from "next/headers";
 import { createClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
+import {
+  INVITE_TOKEN_COOKIE,
+  completeSignup,
+  getSignupAccess,
+  rejectSignup,
+} from "@/lib/auth/signup-access";
 
 /**
  * Handler callback OAuth untuk autentikasi Google
- * Menukar kode otorisasi dengan sesi
- *
- * Catatan: Ketika signup dinonaktifkan, Supabase langsung redirect ke /login
- * dengan error di URL hash, melewati callback ini sepenuhnya.
- * Callback ini hanya menangani pertukaran kode auth yang sukses.
+ * Menukar kode otorisasi dengan sesi, lalu memeriksa allowlist/undangan
+ * sebelum sesi dipakai. Akun baru yang tidak diundang langsung dihapus.
  */
 export async function GET(request: Request) {
   const { searchParams, origin } = new URL(request.url);
@@ -16,9 +20,23 @@ export async function GET(request: Request) {
 
   if (code) {
     const supabase = await createClient();
-    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+
+    if (!error && data.user) {
+      const cookieStore = await cookies();
+      const access = await getSignupAccess(
+        data.user.email ?? "",
+        cookieStore.get(INVITE_TOKEN_COOKIE)?.value,
+      );
+
+      if (!(await completeSignup(data.user.id, access))) {
+        await supabase.auth.signOut();
+        await rejectSignup(data.user);
+        return NextResponse.redirect(`${origin}/login?error=not_invited`);
+      }
+
+      cookieStore.delete(INVITE_TOKEN_COOKIE);
 
-    if (!error) {
       // Autentikasi berhasil - redirect ke tujuan yang dimaksud
       const forwardedHost = request.headers.get("x-forwarded-host");
       const isLocalEnv = process.env.NODE_ENV === "development";
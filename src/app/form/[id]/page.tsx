@@ -1,7 +1,14 @@
 import { redirect, notFound } from "next/navigation";
-import { isAdmin, getMilestoneById } from "@/lib/actions/milestones";
+import { getMilestoneById } from "@/lib/actions/milestones";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { can, canEditMilestone } from "@/lib/permissions";
+import { getTags } from "@/lib/actions/tags";
+import { getMilestoneRevisions } from "@/lib/actions/revisions";
+import { getShareLinks } from "@/lib/actions/shares";
 import { getUser } from "@/lib/actions/auth";
 import { MilestoneEditForm } from "@/components/organism/milestone-edit-form";
+import { MilestoneRevisions } from "@/components/organism/milestone-revisions";
+import { MilestoneShareLinks } from "@/components/organism/milestone-share-links";
 
 interface EditPageProps {
   params: Promise<{ id: string }>;
@@ -9,7 +16,7 @@ interface EditPageProps {
 
 /**
  * Halaman form untuk mengedit milestone
- * DILINDUNGI: Hanya admin yang bisa mengakses
+ * DILINDUNGI: Editor/owner, atau kontributor untuk draft miliknya
  */
 export default async function EditPage({ params }: EditPageProps) {
   const { id } = await params;
@@ -20,17 +27,35 @@ export default async function EditPage({ params }: EditPageProps) {
     redirect("/login");
   }
 
-  // Verifikasi user adalah admin
-  const adminStatus = await isAdmin();
-  if (!adminStatus) {
+  // Verifikasi user punya izin edit (detail per milestone dicek setelah data diambil)
+  const access = await getCurrentAccess();
+  if (
+    !can(access, "milestone.edit_any") &&
+    !can(access, "milestone.edit_own")
+  ) {
     redirect("/?error=unauthorized");
   }
 
-  // Ambil data milestone
-  const milestoneResult = await getMilestoneById(id);
+  // Ambil data milestone, daftar tag, riwayat versi, dan link berbagi
+  const canShare = can(access, "milestone.share");
+  const [milestoneResult, tagsResult, revisionsResult, shareLinksResult] =
+    await Promise.all([
+      getMilestoneById(id),
+      getTags(),
+      getMilestoneRevisions(id),
+      canShare ? getShareLinks(id) : null,
+    ]);
   if (!milestoneResult.success || !milestoneResult.data) {
     notFound();
   }
+  if (!canEditMilestone(access, milestoneResult.data)) {
+    redirect("/?error=unauthorized");
+  }
+  const tags = tagsResult.success ? (tagsResult.data ?? []) : [];
+  const revisions = revisionsResult.success ? (revisionsResult.data ?? []) : [];
+  const shareLinks = shareLinksResult?.success
+    ? (shareLinksResult.data ?? [])
+    : [];
 
   return (
     <div className="pb-[8%] min-h-screen bg-background">
@@ -43,7 +68,23 @@ export default async function EditPage({ params }: EditPageProps) {
             Perbarui informasi journey
           </p>
         </div>
-        <MilestoneEditForm milestone={milestoneResult.data} />
+        {/* Key per versi agar form di-reset setelah versi lama dipulihkan */}
+        <MilestoneEditForm
+          key={milestoneResult.data.updated_at}
+          milestone={milestoneResult.data}
+          tags={tags}
+          access={access}
+        />
+        <MilestoneRevisions
+          milestone={milestoneResult.data}
+          revisions={revisions}
+        />
+        {canShare && (
+          <MilestoneShareLinks
+            milestone={milestoneResult.data}
+            initialLinks={shareLinks}
+          />
+        )}
       </main>
     </div>
   );
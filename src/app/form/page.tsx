@@ -1,12 +1,14 @@
 import { redirect } from "next/navigation";
-import { isAdmin } from "@/lib/actions/milestones";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { can } from "@/lib/permissions";
+import { getTags } from "@/lib/actions/tags";
 import { getUser } from "@/lib/actions/auth";
 import { MilestoneForm } from "@/components/organism/milestone-form";
 import { Header } from "@/components/organism/header";
 
 /**
  * Halaman form untuk membuat milestone baru
- * DILINDUNGI: Hanya admin yang bisa mengakses
+ * DILINDUNGI: Memerlukan izin milestone.create (kontributor ke atas)
  */
 export default async function FormPage() {
   // Verifikasi user terautentikasi
@@ -15,12 +17,15 @@ export default async function FormPage() {
     redirect("/login");
   }
 
-  // Verifikasi user adalah admin
-  const adminStatus = await isAdmin();
-  if (!adminStatus) {
+  // Verifikasi user boleh membuat journey
+  const access = await getCurrentAccess();
+  if (!can(access, "milestone.create")) {
     redirect("/?error=unauthorized");
   }
 
+  const tagsResult = await getTags();
+  const tags = tagsResult.success ? (tagsResult.data ?? []) : [];
+
   return (
     <div className="relative">
       <div className="absolute top-0 w-full">
@@ -35,7 +40,7 @@ export default async function FormPage() {
                 Isi form di bawah untuk menambahkan journey baru
               </p>
             </div>
-            <MilestoneForm />
+            <MilestoneForm tags={tags} access={access} />
           </main>
         </div>
       </div>
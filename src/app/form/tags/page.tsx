@@ -0,0 +1,48 @@
+import { redirect } from "next/navigation";
+import { hasPermission } from "@/lib/actions/roles";
+import { getUser } from "@/lib/actions/auth";
+import { getTags } from "@/lib/actions/tags";
+import { TagManager } from "@/components/organism/tag-manager";
+import { Header } from "@/components/organism/header";
+
+/**
+ * Halaman kelola tag journey
+ * DILINDUNGI: Memerlukan izin tag.manage (editor/owner)
+ */
+export default async function TagsPage() {
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Verifikasi user boleh mengelola tag
+  const canManageTags = await hasPermission("tag.manage");
+  if (!canManageTags) {
+    redirect("/?error=unauthorized");
+  }
+
+  const tagsResult = await getTags();
+  const tags = tagsResult.success ? (tagsResult.data ?? []) : [];
+
+  return (
+    <div className="relative">
+      <div className="absolute top-0 w-full">
+        <Header />
+        <div className="pb-[8%] bg-background">
+          <main className="flex flex-col gap-8 min-h-svh p-4 sm:p-6 max-w-2xl mx-auto">
+            <div className="mt-3">
+              <h1 className="font-bold text-2xl sm:text-3xl text-center">
+                Kelola Tag
+              </h1>
+              <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+                Tambah, ubah, atau hapus kategori journey
+              </p>
+            </div>
+            <TagManager initialTags={tags} />
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import {
+  INVITE_TOKEN_COOKIE,
+  INVITE_TOKEN_MAX_AGE,
+  findValidInvite,
+} from "@/lib/auth/signup-access";
+
+/**
+ * Membuka link undangan
+ * Token yang valid disimpan di HTTP-only cookie lalu user diarahkan ke login;
+ * token dipakai (dan ditandai terpakai) saat login pertama berhasil
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+  const { origin } = new URL(request.url);
+
+  const invite = await findValidInvite(token);
+  if (!invite) {
+    return NextResponse.redirect(`${origin}/login?error=invite_invalid`);
+  }
+
+  const response = NextResponse.redirect(`${origin}/login?invite=accepted`);
+  response.cookies.set(INVITE_TOKEN_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: INVITE_TOKEN_MAX_AGE,
+    path: "/",
+  });
+  return response;
+}
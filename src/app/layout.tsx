@@ -1,9 +1,11 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/theme-provider";
 import { DockMenu } from "@/components/molecules/docks-menu";
 import { Toaster } from "@/components/shadcn/sonner";
+import { ServiceWorkerRegister } from "@/components/service-worker-register";
+import { getCurrentAccess } from "@/lib/actions/roles";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -18,13 +20,32 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "GKY Gerendeng's Journey",
   description: "Website internal untuk mencatat milestone GKY Gerendeng",
+  applicationName: "GKY Journey",
+  appleWebApp: {
+    capable: true,
+    title: "GKY Journey",
+    statusBarStyle: "default",
+  },
+  icons: {
+    apple: "/icons/apple-touch-icon.png",
+  },
 };
 
-export default function RootLayout({
+export const viewport: Viewport = {
+  themeColor: [
+    { media: "(prefers-color-scheme: light)", color: "#ffffff" },
+    { media: "(prefers-color-scheme: dark)", color: "#0a0a0a" },
+  ],
+};
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Link dock disesuaikan dengan izin user
+  const access = await getCurrentAccess();
+
   return (
     <html lang="id" suppressHydrationWarning>
       <body
@@ -39,10 +60,11 @@ export default function RootLayout({
           <div className="relative">
             {children}
             <div className="fixed bottom-8 right-0 left-0">
-              <DockMenu />
+              <DockMenu permissions={access.permissions} />
             </div>
           </div>
           <Toaster richColors position="top-center" />
+          <ServiceWorkerRegister />
         </ThemeProvider>
       </body>
     </html>
@@ -0,0 +1,39 @@
+import type { MetadataRoute } from "next";
+
+/**
+ * Web app manifest agar aplikasi bisa dipasang (PWA)
+ * Disajikan Next.js di /manifest.webmanifest
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "GKY Gerendeng's Journey",
+    short_name: "GKY Journey",
+    description: "Website internal untuk mencatat milestone GKY Gerendeng",
+    lang: "id",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#ffffff",
+    icons: [
+      {
+        src: "/icons/icon-192.png",
+        sizes: "192x192",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "/icons/icon-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "/icons/icon-maskable-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ],
+  };
+}
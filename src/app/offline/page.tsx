@@ -0,0 +1,15 @@
+import { OfflineMilestones } from "@/components/organism/offline-milestones";
+
+/**
+ * Halaman cadangan saat offline (di-precache oleh public/sw.js)
+ * Statis dan publik: tidak membaca sesi agar bisa disajikan dari cache
+ */
+export default function OfflinePage() {
+  return (
+    <div className="bg-background flex min-h-svh flex-col items-center justify-start gap-6 p-6 pb-32 md:p-10">
+      <div className="w-full max-w-md">
+        <OfflineMilestones />
+      </div>
+    </div>
+  );
+}
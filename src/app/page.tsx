@@ -1,18 +1,107 @@
-import { getMilestones, isAdmin } from "@/lib/actions/milestones";
-import { MilestoneCardGrid } from "@/components/molecules/milestone-card-grid";
+import {
+  getMilestones,
+  getMilestoneYears,
+  searchMilestones,
+} from "@/lib/actions/milestones";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { getTags } from "@/lib/actions/tags";
+import { MilestoneFeed } from "@/components/organism/milestone-feed";
+import { MilestoneFilterBar } from "@/components/organism/milestone-filter-bar";
+import { MilestoneSearch } from "@/components/molecules/milestone-search";
+import {
+  MilestoneCardGrid,
+  type MilestoneHighlights,
+} from "@/components/molecules/milestone-card-grid";
 import { ErrorNotification } from "@/components/molecules/error-notification";
 import { Suspense } from "react";
+import { cookies } from "next/headers";
 import { Header } from "@/components/organism/header";
+import {
+  applyMilestoneFilters,
+  parseMilestoneFilters,
+} from "@/lib/milestone-filters";
+import {
+  MILESTONE_VIEW_COOKIE,
+  parseMilestoneView,
+} from "@/lib/milestone-view";
+import type { AccessContext } from "@/lib/types/roles";
 
-export default async function Home() {
-  const [milestonesResult, adminStatus] = await Promise.all([
-    getMilestones(),
-    isAdmin(),
-  ]);
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Hasil pencarian full-text dengan judul & cuplikan ber-highlight
+ */
+async function SearchResults({
+  query,
+  access,
+}: {
+  query: string;
+  access: AccessContext;
+}) {
+  const result = await searchMilestones(query);
+
+  if (!result.success || !result.data) {
+    return (
+      <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+        {result.error || "Gagal mencari journey"}
+      </div>
+    );
+  }
+
+  const highlights: MilestoneHighlights = Object.fromEntries(
+    result.data.map((item) => [
+      item.id,
+      { title: item.title_highlight, snippet: item.snippet },
+    ]),
+  );
+
+  return (
+    <div className="flex flex-col gap-6">
+      <p className="text-sm text-muted-foreground">
+        {result.data.length} hasil untuk &ldquo;{query}&rdquo;
+      </p>
+      <MilestoneCardGrid
+        milestones={result.data}
+        access={access}
+        highlights={highlights}
+        emptyMessage="Tidak ada journey yang cocok."
+      />
+    </div>
+  );
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  const params = await searchParams;
+  const q = Array.isArray(params.q) ? params.q[0] : params.q;
+  const query = q?.trim() ?? "";
+  const filters = parseMilestoneFilters(params);
+  const cookieStore = await cookies();
+  const view = parseMilestoneView(
+    cookieStore.get(MILESTONE_VIEW_COOKIE)?.value,
+  );
+  // Key feed per kombinasi filter agar state infinite scroll di-reset
+  const feedKey = applyMilestoneFilters(
+    new URLSearchParams(),
+    filters,
+  ).toString();
+
+  const [milestonesResult, yearsResult, tagsResult, access] = await Promise.all(
+    [
+      query ? null : getMilestones(filters),
+      query ? null : getMilestoneYears(),
+      query ? null : getTags(),
+      getCurrentAccess(),
+    ],
+  );
 
-  const milestones = milestonesResult.success
-    ? (milestonesResult.data ?? [])
-    : [];
+  const initialPage =
+    milestonesResult?.success && milestonesResult.data
+      ? milestonesResult.data
+      : { items: [], nextCursor: null, total: 0 };
+  const years = yearsResult?.success ? (yearsResult.data ?? []) : [];
+  const tags = tagsResult?.success ? (tagsResult.data ?? []) : [];
 
   return (
     <>
@@ -22,7 +111,33 @@ export default async function Home() {
           <ErrorNotification />
         </Suspense>
         <main className="mt-6 sm:pb-0 pb-[30%] flex flex-col gap-8 p-4 sm:p-6 max-w-5xl mx-auto min-h-screen">
-          <MilestoneCardGrid milestones={milestones} isAdmin={adminStatus} />
+          <div className="flex flex-col gap-3">
+            <MilestoneSearch query={query} />
+            {!query && (
+              <MilestoneFilterBar
+                key={feedKey}
+                filters={filters}
+                years={years}
+                tags={tags}
+              />
+            )}
+          </div>
+          {query ? (
+            <SearchResults query={query} access={access} />
+          ) : milestonesResult && !milestonesResult.success ? (
+            <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+              {milestonesResult.error}
+            </div>
+          ) : (
+            <MilestoneFeed
+              key={feedKey}
+              initialPage={initialPage}
+              years={years}
+              filters={filters}
+              initialView={view}
+              access={access}
+            />
+          )}
         </main>
       </div>
     </>
@@ -0,0 +1,68 @@
+import { redirect, notFound } from "next/navigation";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { can } from "@/lib/permissions";
+import { getTags } from "@/lib/actions/tags";
+import { getUser } from "@/lib/actions/auth";
+import { getProposal } from "@/lib/actions/proposals";
+import { isProposalEditable } from "@/lib/proposal-status";
+import { MilestoneForm } from "@/components/organism/milestone-form";
+
+interface EditProposalPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Halaman perbaikan usulan journey
+ * DILINDUNGI: Pengusul, selama usulan belum ditinjau atau diminta perbaikan
+ */
+export default async function EditProposalPage({
+  params,
+}: EditProposalPageProps) {
+  const { id } = await params;
+
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const access = await getCurrentAccess();
+  if (!can(access, "proposal.submit")) {
+    redirect("/?error=unauthorized");
+  }
+
+  const [proposalResult, tagsResult] = await Promise.all([
+    getProposal(id),
+    getTags(),
+  ]);
+  if (!proposalResult.success || !proposalResult.data) {
+    notFound();
+  }
+  // Reviewer bisa membaca semua usulan, tetapi hanya pengusul yang boleh mengedit
+  const proposal = proposalResult.data;
+  if (proposal.created_by !== access.userId || !isProposalEditable(proposal)) {
+    redirect("/propose");
+  }
+  const tags = tagsResult.success ? (tagsResult.data ?? []) : [];
+
+  return (
+    <div className="pb-[8%] min-h-screen bg-background">
+      <main className="flex flex-col gap-8 p-4 sm:p-6 max-w-2xl mx-auto min-h-screen pb-24">
+        <div className="mt-3">
+          <h1 className="font-bold text-2xl sm:text-3xl text-center">
+            Perbaiki Usulan
+          </h1>
+          <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+            Usulan kembali ke antrean review setelah dikirim ulang
+          </p>
+        </div>
+        <MilestoneForm
+          tags={tags}
+          access={access}
+          mode="proposal"
+          proposal={proposal}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { redirect } from "next/navigation";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { can } from "@/lib/permissions";
+import { getTags } from "@/lib/actions/tags";
+import { getUser } from "@/lib/actions/auth";
+import { getMyProposals } from "@/lib/actions/proposals";
+import { MilestoneForm } from "@/components/organism/milestone-form";
+import { ProposalList } from "@/components/organism/proposal-list";
+import { Header } from "@/components/organism/header";
+
+/**
+ * Halaman usulan journey untuk member
+ * DILINDUNGI: Memerlukan izin proposal.submit (semua member yang login)
+ */
+export default async function ProposePage() {
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Verifikasi user boleh mengusulkan journey
+  const access = await getCurrentAccess();
+  if (!can(access, "proposal.submit")) {
+    redirect("/?error=unauthorized");
+  }
+
+  const [tagsResult, proposalsResult] = await Promise.all([
+    getTags(),
+    getMyProposals(),
+  ]);
+  const tags = tagsResult.success ? (tagsResult.data ?? []) : [];
+  const proposals = proposalsResult.success ? (proposalsResult.data ?? []) : [];
+
+  return (
+    <div className="relative">
+      <div className="absolute top-0 w-full">
+        <Header />
+        <div className="pb-[8%] bg-background">
+          <main className="flex flex-col gap-8 min-h-svh p-4 sm:p-6 max-w-2xl mx-auto">
+            <div className="mt-3">
+              <h1 className="font-bold text-2xl sm:text-3xl text-center">
+                Usulkan Journey
+              </h1>
+              <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+                Usulan akan ditinjau editor sebelum tampil di timeline
+              </p>
+            </div>
+            <MilestoneForm tags={tags} access={access} mode="proposal" />
+            <ProposalList proposals={proposals} />
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { redirect } from "next/navigation";
+import { hasPermission } from "@/lib/actions/roles";
+import { getUser } from "@/lib/actions/auth";
+import { getTags } from "@/lib/actions/tags";
+import { getProposalQueue } from "@/lib/actions/proposals";
+import { ProposalReviewQueue } from "@/components/organism/proposal-review-queue";
+import { Header } from "@/components/organism/header";
+
+/**
+ * Halaman antrean review usulan journey
+ * DILINDUNGI: Memerlukan izin proposal.review (editor/owner)
+ */
+export default async function ReviewPage() {
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Verifikasi user boleh meninjau usulan
+  const canReview = await hasPermission("proposal.review");
+  if (!canReview) {
+    redirect("/?error=unauthorized");
+  }
+
+  const [queueResult, tagsResult] = await Promise.all([
+    getProposalQueue(),
+    getTags(),
+  ]);
+  const tags = tagsResult.success ? (tagsResult.data ?? []) : [];
+
+  return (
+    <div className="relative">
+      <div className="absolute top-0 w-full">
+        <Header />
+        <div className="pb-[8%] bg-background">
+          <main className="flex flex-col gap-8 min-h-svh p-4 sm:p-6 max-w-2xl mx-auto">
+            <div className="mt-3">
+              <h1 className="font-bold text-2xl sm:text-3xl text-center">
+                Review Usulan
+              </h1>
+              <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+                Setujui, minta perbaikan, atau tolak journey usulan member
+              </p>
+            </div>
+            {queueResult.success ? (
+              <ProposalReviewQueue
+                initialProposals={queueResult.data ?? []}
+                tags={tags}
+              />
+            ) : (
+              <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                {queueResult.error}
+              </div>
+            )}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
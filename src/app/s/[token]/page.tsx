@@ -0,0 +1,77 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SharedMilestone } from "@/components/organism/shared-milestone";
+import { toPlainExcerpt } from "@/lib/markdown";
+import { getSharedMilestone } from "@/lib/shares/public";
+import { getSiteUrl } from "@/lib/site-url";
+
+interface SharePageProps {
+  params: Promise<{ token: string }>;
+}
+
+const SITE_NAME = "GKY Gerendeng's Journey";
+
+/**
+ * Metadata OpenGraph agar link tampil dengan judul, cuplikan & cover
+ * saat dibagikan di WhatsApp/media sosial
+ */
+export async function generateMetadata({
+  params,
+}: SharePageProps): Promise<Metadata> {
+  const { token } = await params;
+  const milestone = await getSharedMilestone(token);
+
+  if (!milestone) {
+    return { title: SITE_NAME, robots: { index: false, follow: false } };
+  }
+
+  const description =
+    toPlainExcerpt(milestone.description, 160) ?? `Journey ${SITE_NAME}`;
+
+  return {
+    metadataBase: new URL(getSiteUrl()),
+    title: `${milestone.title} - ${SITE_NAME}`,
+    description,
+    robots: { index: false, follow: false },
+    openGraph: {
+      type: "article",
+      siteName: SITE_NAME,
+      title: milestone.title,
+      description,
+      url: `/s/${token}`,
+      locale: "id_ID",
+      images: milestone.cover_url
+        ? [{ url: milestone.cover_url, alt: milestone.title }]
+        : undefined,
+    },
+    twitter: {
+      card: milestone.cover_url ? "summary_large_image" : "summary",
+      title: milestone.title,
+      description,
+    },
+  };
+}
+
+/**
+ * Halaman publik journey dari link berbagi
+ * PUBLIK: tidak memerlukan login; token hanya membuka satu journey
+ */
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  const milestone = await getSharedMilestone(token);
+
+  if (!milestone) {
+    notFound();
+  }
+
+  return (
+    <div className="bg-background flex min-h-svh flex-col items-center gap-4 p-4 pb-32 sm:p-6">
+      <main className="w-full max-w-2xl space-y-4">
+        <SharedMilestone milestone={milestone} />
+        <p className="text-center text-xs text-muted-foreground">
+          Dibagikan dari {SITE_NAME}
+        </p>
+      </main>
+    </div>
+  );
+}
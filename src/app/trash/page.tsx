@@ -0,0 +1,53 @@
+import { redirect } from "next/navigation";
+import { hasPermission } from "@/lib/actions/roles";
+import { getUser } from "@/lib/actions/auth";
+import { getDeletedMilestones } from "@/lib/actions/milestones";
+import { TrashManager } from "@/components/organism/trash-manager";
+import { Header } from "@/components/organism/header";
+
+/**
+ * Halaman tempat sampah journey
+ * DILINDUNGI: Memerlukan izin milestone.delete (editor/owner)
+ */
+export default async function TrashPage() {
+  // Verifikasi user terautentikasi
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Verifikasi user boleh menghapus journey
+  const canDelete = await hasPermission("milestone.delete");
+  if (!canDelete) {
+    redirect("/?error=unauthorized");
+  }
+
+  const trashResult = await getDeletedMilestones();
+
+  return (
+    <div className="relative">
+      <div className="absolute top-0 w-full">
+        <Header />
+        <div className="pb-[8%] bg-background">
+          <main className="flex flex-col gap-8 min-h-svh p-4 sm:p-6 max-w-2xl mx-auto">
+            <div className="mt-3">
+              <h1 className="font-bold text-2xl sm:text-3xl text-center">
+                Sampah
+              </h1>
+              <p className="text-center text-sm sm:text-base text-muted-foreground mt-2">
+                Pulihkan journey yang terhapus atau hapus secara permanen
+              </p>
+            </div>
+            {trashResult.success ? (
+              <TrashManager initialMilestones={trashResult.data ?? []} />
+            ) : (
+              <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                {trashResult.error}
+              </div>
+            )}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
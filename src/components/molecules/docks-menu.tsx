@@ -2,15 +2,35 @@
 
 import React from "react";
 import { Dock, DockIcon } from "@/components/magicui/dock";
-import { HomeIcon, User, Pencil, GitPullRequestArrow } from "lucide-react";
+import {
+  HomeIcon,
+  User,
+  Users,
+  Pencil,
+  Trash2,
+  GitPullRequestArrow,
+  Lightbulb,
+  ClipboardCheck,
+} from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/shadcn/tooltip";
 import Link from "next/link";
+import type { Permission } from "@/lib/types/roles";
 
-const data = [
+/**
+ * Item dock, permission diisi jika link hanya untuk role tertentu
+ * hiddenWith menyembunyikan link jika user sudah punya izin tersebut
+ */
+const data: {
+  href: string;
+  icon: typeof HomeIcon;
+  label: string;
+  permission?: Permission;
+  hiddenWith?: Permission;
+}[] = [
   {
     href: "/",
     icon: HomeIcon,
@@ -20,6 +40,32 @@ const data = [
     href: "/form",
     icon: Pencil,
     label: "Form",
+    permission: "milestone.create",
+  },
+  {
+    href: "/propose",
+    icon: Lightbulb,
+    label: "Usulkan",
+    permission: "proposal.submit",
+    hiddenWith: "milestone.create",
+  },
+  {
+    href: "/review",
+    icon: ClipboardCheck,
+    label: "Review",
+    permission: "proposal.review",
+  },
+  {
+    href: "/trash",
+    icon: Trash2,
+    label: "Sampah",
+    permission: "milestone.delete",
+  },
+  {
+    href: "/admin/users",
+    icon: Users,
+    label: "Users",
+    permission: "user.manage",
   },
   {
     href: "/account",
@@ -35,11 +81,17 @@ const data = [
 
 export type IconProps = React.HTMLAttributes<SVGElement>;
 
-export function DockMenu() {
+export function DockMenu({ permissions = [] }: { permissions?: Permission[] }) {
+  const items = data.filter(
+    (item) =>
+      (!item.permission || permissions.includes(item.permission)) &&
+      (!item.hiddenWith || !permissions.includes(item.hiddenWith)),
+  );
+
   return (
     <div className="relative">
       <Dock direction="middle">
-        {data.map((item, index) => (
+        {items.map((item, index) => (
           <DockIcon key={index}>
             <Tooltip>
               <Link href={item.href}>
@@ -21,7 +21,7 @@ export function ErrorNotification() {
       toast.error("Akses Ditolak", {
         id: "unauthorized-error",
         description:
-          "Anda bukan admin. Hanya admin yang dapat menambah atau mengedit journey.",
+          "Role Anda tidak memiliki izin untuk halaman tersebut. Hubungi owner jika memerlukan akses.",
         duration: 5000,
       });
 
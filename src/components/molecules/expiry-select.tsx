@@ -0,0 +1,62 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+
+import { Button } from "@/components/shadcn/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/shadcn/dropdown-menu";
+
+export interface ExpiryOption {
+  value: string;
+  label: string;
+}
+
+interface ExpirySelectProps {
+  value: string;
+  options: ExpiryOption[];
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Dropdown pilih masa berlaku (allowlist, link undangan, link berbagi)
+ */
+export function ExpirySelect({
+  value,
+  options,
+  onChange,
+  disabled,
+}: ExpirySelectProps) {
+  const selected = options.find((option) => option.value === value);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className="min-w-24 justify-between"
+        >
+          {selected?.label}
+          <ChevronDown className="size-3.5 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={value} onValueChange={onChange}>
+          {options.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Upload, X, Star, ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import { Input } from "@/components/shadcn/input";
+import { uploadImageDirect } from "@/lib/uploads/direct-upload";
+import type { ImageDestination } from "@/lib/actions/storage";
+import type {
+  ImageVariantKeys,
+  MilestoneImage,
+  MilestoneImageInput,
+} from "@/lib/types/milestones";
+
+/**
+ * Satu item gallery di form
+ * Item baru membawa file, item lama membawa S3 key dari database
+ */
+export interface GalleryItem {
+  id: string;
+  file?: File;
+  image_key?: string;
+  variants?: ImageVariantKeys;
+  previewUrl: string;
+  caption: string;
+  is_cover: boolean;
+}
+
+interface GalleryUploadProps {
+  items: GalleryItem[];
+  onChange: (items: GalleryItem[]) => void;
+  progress?: Record<string, number>; // Progress upload per item id (0-100)
+  disabled?: boolean;
+  error?: string;
+  className?: string;
+}
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const ALLOWED_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+];
+const ALLOWED_EXTENSIONS = ["heic", "heif"]; // Browser kadang tidak mengisi MIME HEIC
+const MAX_GALLERY_IMAGES = 50;
+
+/**
+ * Membuat item gallery dari gambar yang sudah tersimpan
+ */
+export function toGalleryItems(images: MilestoneImage[] = []): GalleryItem[] {
+  return images.map((image) => ({
+    id: image.id,
+    image_key: image.image_key,
+    variants: image.variants ?? undefined,
+    previewUrl: image.variant_urls?.thumbnail || image.image_url || "",
+    caption: image.caption || "",
+    is_cover: image.is_cover,
+  }));
+}
+
+/**
+ * Upload semua item baru langsung ke bucket lalu bangun input gallery untuk server action
+ * Urutan hasil mengikuti urutan item
+ */
+export async function uploadGalleryItems(
+  items: GalleryItem[],
+  onProgress?: (itemId: string, percent: number) => void,
+  destination?: ImageDestination,
+): Promise<{ images?: MilestoneImageInput[]; error?: string }> {
+  const images: MilestoneImageInput[] = [];
+
+  for (const item of items) {
+    let imageKey = item.image_key;
+    let uploadedVariants: ImageVariantKeys | undefined;
+
+    if (item.file) {
+      const uploadResult = await uploadImageDirect(
+        item.file,
+        (percent) => onProgress?.(item.id, percent),
+        destination,
+      );
+      if (!uploadResult.success || !uploadResult.key) {
+        return {
+          error: `${item.file.name}: ${uploadResult.error || "Gagal mengupload gambar"}`,
+        };
+      }
+      imageKey = uploadResult.key;
+      uploadedVariants = uploadResult.variants;
+    }
+
+    if (!imageKey) continue;
+
+    images.push({
+      image_key: imageKey,
+      variants: uploadedVariants ?? item.variants,
+      caption: item.caption.trim() || undefined,
+      is_cover: item.is_cover,
+    });
+  }
+
+  return { images };
+}
+
+/**
+ * Bar progress upload di bagian bawah thumbnail
+ */
+function UploadProgressBar({ percent }: { percent: number }) {
+  return (
+    <div className="absolute inset-x-0 bottom-0 bg-background/80 px-2 py-1">
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full bg-primary transition-[width]"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="mt-0.5 text-[10px] text-muted-foreground">
+        {percent < 100 ? `Mengupload ${percent}%` : "Memproses..."}
+      </div>
+    </div>
+  );
+}
+
+export function GalleryUpload({
+  items,
+  onChange,
+  progress,
+  disabled,
+  error,
+  className,
+}: GalleryUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const validateFile = (file: File): string | null => {
+    const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+    if (
+      !ALLOWED_TYPES.includes(file.type) &&
+      !ALLOWED_EXTENSIONS.includes(ext)
+    ) {
+      return `${file.name}: tipe file tidak didukung. Gunakan JPEG, PNG, WebP, atau HEIC.`;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return `${file.name}: ukuran file terlalu besar (${(file.size / 1024 / 1024).toFixed(1)}MB). Maksimal 20MB.`;
+    }
+    return null;
+  };
+
+  /**
+   * Tambahkan file ke gallery, file yang tidak valid dilewati
+   */
+  const handleFiles = (files: FileList | File[]) => {
+    const accepted: GalleryItem[] = [];
+    let firstError: string | null = null;
+
+    for (const file of Array.from(files)) {
+      if (items.length + accepted.length >= MAX_GALLERY_IMAGES) {
+        firstError ??= `Maksimal ${MAX_GALLERY_IMAGES} gambar per journey.`;
+        break;
+      }
+      const fileError = validateFile(file);
+      if (fileError) {
+        firstError ??= fileError;
+        continue;
+      }
+      accepted.push({
+        id: `new-${crypto.randomUUID()}`,
+        file,
+        previewUrl: URL.createObjectURL(file),
+        caption: "",
+        is_cover: items.length === 0 && accepted.length === 0,
+      });
+    }
+
+    setLocalError(firstError);
+    if (accepted.length > 0) onChange([...items, ...accepted]);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (disabled) return;
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handleRemove = (itemId: string) => {
+    const removed = items.find((item) => item.id === itemId);
+    if (removed?.file) URL.revokeObjectURL(removed.previewUrl);
+
+    const remaining = items.filter((item) => item.id !== itemId);
+    // Pindahkan cover ke gambar pertama jika cover dihapus
+    if (removed?.is_cover && remaining.length > 0) {
+      remaining[0] = { ...remaining[0], is_cover: true };
+    }
+    onChange(remaining);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleSetCover = (itemId: string) => {
+    onChange(items.map((item) => ({ ...item, is_cover: item.id === itemId })));
+  };
+
+  const handleCaption = (itemId: string, caption: string) => {
+    onChange(
+      items.map((item) => (item.id === itemId ? { ...item, caption } : item)),
+    );
+  };
+
+  const displayError = error || localError;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept="image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
+        onChange={(e) => e.target.files && handleFiles(e.target.files)}
+        disabled={disabled}
+        className="hidden"
+      />
+
+      {items.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {items.map((item, index) => (
+            <div
+              key={item.id}
+              className={cn(
+                "rounded-lg border overflow-hidden",
+                item.is_cover && "ring-2 ring-primary",
+              )}
+            >
+              <div className="relative">
+                <img
+                  src={item.previewUrl}
+                  alt={item.caption || `Gambar ${index + 1}`}
+                  className="w-full aspect-video object-cover"
+                />
+                {item.is_cover && (
+                  <div className="absolute top-1 left-1 bg-primary text-primary-foreground rounded px-1.5 py-0.5 text-[10px] font-medium">
+                    Cover
+                  </div>
+                )}
+                {!disabled && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="icon"
+                    className="absolute top-1 right-1 size-7"
+                    onClick={() => handleRemove(item.id)}
+                  >
+                    <X className="size-3.5" />
+                  </Button>
+                )}
+                {item.file && progress?.[item.id] !== undefined && (
+                  <UploadProgressBar percent={progress[item.id]} />
+                )}
+              </div>
+              <div className="p-2 space-y-2">
+                <Input
+                  type="text"
+                  placeholder="Caption (opsional)"
+                  value={item.caption}
+                  onChange={(e) => handleCaption(item.id, e.target.value)}
+                  disabled={disabled}
+                  maxLength={300}
+                  className="h-8 text-xs"
+                />
+                <div className="flex items-center justify-between gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={disabled || index === 0}
+                  >
+                    <ChevronLeft className="size-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={item.is_cover ? "default" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => handleSetCover(item.id)}
+                    disabled={disabled || item.is_cover}
+                  >
+                    <Star className="size-3" />
+                    Cover
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={disabled || index === items.length - 1}
+                  >
+                    <ChevronRight className="size-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        onClick={() => !disabled && inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
+          dragActive
+            ? "border-primary bg-primary/5"
+            : "border-muted-foreground/25 hover:border-primary/50",
+          disabled && "opacity-50 cursor-not-allowed",
+          displayError && "border-destructive",
+        )}
+      >
+        <div className="flex flex-col items-center gap-2">
+          <div className="rounded-full bg-muted p-3">
+            <Upload className="size-6 text-muted-foreground" />
+          </div>
+          <div className="text-sm font-medium">
+            Klik atau drag gambar ke sini
+          </div>
+          <div className="text-xs text-muted-foreground">
+            JPEG, PNG, WebP, HEIC (max 20MB per gambar, bisa pilih banyak)
+          </div>
+        </div>
+      </div>
+
+      {displayError && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          <p>{displayError}</p>
+        </div>
+      )}
+    </div>
+  );
+}
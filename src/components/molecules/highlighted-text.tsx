@@ -0,0 +1,27 @@
+import { splitHighlights } from "@/lib/search";
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+/**
+ * Render teks hasil pencarian dengan kata yang cocok di-highlight
+ */
+export function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import type { MilestoneImage } from "@/lib/types/milestones";
+
+interface ImageCarouselProps {
+  images: MilestoneImage[];
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Carousel gallery yang bisa di-swipe (scroll-snap) dengan navigasi tombol
+ */
+export function ImageCarousel({ images, alt, className }: ImageCarouselProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const slides = images
+    .map((image) => ({
+      ...image,
+      src: image.variant_urls?.full ?? image.image_url,
+    }))
+    .filter((image) => image.src);
+
+  if (slides.length === 0) {
+    return (
+      <Image
+        src="/images/sample.jpg"
+        alt={alt}
+        width={300}
+        height={300}
+        loading="eager"
+        className={cn("w-full h-auto object-cover rounded-lg", className)}
+      />
+    );
+  }
+
+  /**
+   * Sinkronkan indeks aktif dengan posisi scroll (swipe)
+   */
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track) return;
+    setActiveIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const scrollTo = (index: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    track.scrollTo({ left: index * track.clientWidth, behavior: "smooth" });
+  };
+
+  const activeCaption = slides[activeIndex]?.caption;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative">
+        <div
+          ref={trackRef}
+          onScroll={handleScroll}
+          className="flex overflow-x-auto snap-x snap-mandatory rounded-lg [scrollbar-width:none] [&::-webkit-scrollbar]:hidden"
+        >
+          {slides.map((image, index) => (
+            <div key={image.id} className="w-full shrink-0 snap-center">
+              <Image
+                src={image.src!}
+                alt={image.caption || `${alt} (${index + 1})`}
+                width={600}
+                height={400}
+                loading={index === 0 ? "eager" : "lazy"}
+                className="w-full aspect-video object-cover"
+              />
+            </div>
+          ))}
+        </div>
+
+        {slides.length > 1 && (
+          <>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="absolute left-2 top-1/2 -translate-y-1/2 size-8 rounded-full bg-background/60 border-none"
+              onClick={() => scrollTo(Math.max(activeIndex - 1, 0))}
+              disabled={activeIndex === 0}
+            >
+              <ChevronLeft className="size-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="absolute right-2 top-1/2 -translate-y-1/2 size-8 rounded-full bg-background/60 border-none"
+              onClick={() =>
+                scrollTo(Math.min(activeIndex + 1, slides.length - 1))
+              }
+              disabled={activeIndex === slides.length - 1}
+            >
+              <ChevronRight className="size-4" />
+            </Button>
+            <div className="absolute bottom-2 right-2 bg-background/70 rounded px-2 py-0.5 text-xs">
+              {activeIndex + 1}/{slides.length}
+            </div>
+          </>
+        )}
+      </div>
+
+      {activeCaption && (
+        <p className="text-xs text-muted-foreground text-center">
+          {activeCaption}
+        </p>
+      )}
+
+      {slides.length > 1 && (
+        <div className="flex justify-center gap-1.5">
+          {slides.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              aria-label={`Gambar ${index + 1}`}
+              onClick={() => scrollTo(index)}
+              className={cn(
+                "size-1.5 rounded-full transition-colors cursor-pointer",
+                index === activeIndex ? "bg-primary" : "bg-muted-foreground/30",
+              )}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useRef, useState } from "react";
-import { Upload, X, ImageIcon, ExternalLink } from "lucide-react";
+import { Upload, X, ImageIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/shadcn/button";
 
@@ -10,19 +10,28 @@ interface ImageUploadProps {
   existingUrl?: string;
   onChange: (file: File | null) => void;
   onRemoveExisting?: () => void;
+  progress?: number; // Progress upload langsung ke bucket (0-100)
   disabled?: boolean;
   error?: string;
   className?: string;
 }
 
-const MAX_FILE_SIZE = 1000 * 1024; // 1MB
-const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const ALLOWED_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+];
+const ALLOWED_EXTENSIONS = ["heic", "heif"]; // Browser kadang tidak mengisi MIME HEIC
 
 export function ImageUpload({
   value,
   existingUrl,
   onChange,
   onRemoveExisting,
+  progress,
   disabled,
   error,
   className,
@@ -34,11 +43,15 @@ export function ImageUpload({
   const previewUrl = value ? URL.createObjectURL(value) : existingUrl;
 
   const validateFile = (file: File): string | null => {
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return "Tipe file tidak didukung. Gunakan JPEG, PNG, atau WebP.";
+    const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+    if (
+      !ALLOWED_TYPES.includes(file.type) &&
+      !ALLOWED_EXTENSIONS.includes(ext)
+    ) {
+      return "Tipe file tidak didukung. Gunakan JPEG, PNG, WebP, atau HEIC.";
     }
     if (file.size > MAX_FILE_SIZE) {
-      return `Ukuran file terlalu besar (${(file.size / 1024).toFixed(0)}KB). Maksimal 1MB.`;
+      return `Ukuran file terlalu besar (${(file.size / 1024 / 1024).toFixed(1)}MB). Maksimal 20MB.`;
     }
     return null;
   };
@@ -80,7 +93,7 @@ export function ImageUpload({
       <input
         ref={inputRef}
         type="file"
-        accept="image/jpeg,image/png,image/webp"
+        accept="image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
         onChange={handleChange}
         disabled={disabled}
         className="hidden"
@@ -104,11 +117,26 @@ export function ImageUpload({
               <X className="size-4" />
             </Button>
           )}
-          {value && (
+          {value && progress === undefined && (
             <div className="absolute bottom-2 left-2 bg-background/80 rounded px-2 py-1 text-xs">
               {value.name} ({(value.size / 1024).toFixed(0)}KB)
             </div>
           )}
+          {value && progress !== undefined && (
+            <div className="absolute inset-x-0 bottom-0 bg-background/80 px-3 py-2">
+              <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-[width]"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {progress < 100
+                  ? `Mengupload ${value.name} ${progress}%`
+                  : "Memproses gambar..."}
+              </div>
+            </div>
+          )}
         </div>
       ) : (
         <div
@@ -136,7 +164,7 @@ export function ImageUpload({
               Klik atau drag gambar ke sini
             </div>
             <div className="text-xs text-muted-foreground">
-              JPEG, PNG, WebP (max 1MB)
+              JPEG, PNG, WebP, HEIC (max 20MB)
             </div>
           </div>
         </div>
@@ -145,17 +173,6 @@ export function ImageUpload({
       {displayError && (
         <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
           <p>{displayError}</p>
-          {displayError.includes("1MB") && (
-            <a
-              href="https://compressjpeg.com/"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center gap-1 mt-1 underline hover:no-underline"
-            >
-              Compress gambar di sini
-              <ExternalLink className="size-3" />
-            </a>
-          )}
         </div>
       )}
     </div>
@@ -0,0 +1,155 @@
+"use client";
+
+import Image from "next/image";
+import ReactMarkdown, { type Components } from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+import {
+  MARKDOWN_SANITIZE_SCHEMA,
+  getEmbedUrl,
+  remarkEmbeds,
+  type EmbedProvider,
+} from "@/lib/markdown-render";
+
+interface MarkdownContentProps {
+  content: string;
+  imageUrls?: Record<string, string>; // S3 key gambar inline -> URL yang bisa ditampilkan
+  className?: string;
+  lite?: boolean; // Markdown ringan untuk komentar (tanpa judul, gambar, tabel, embed)
+}
+
+/**
+ * Elemen yang dirender pada mode lite, selebihnya hanya diambil teksnya
+ */
+const LITE_ELEMENTS = [
+  "p",
+  "br",
+  "strong",
+  "em",
+  "del",
+  "code",
+  "a",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+];
+
+const EMBED_TITLES: Record<EmbedProvider, string> = {
+  youtube: "Video YouTube",
+  instagram: "Post Instagram",
+};
+
+/**
+ * Iframe embed dari shortcode yang sudah divalidasi remarkEmbeds
+ */
+function MarkdownEmbed({
+  provider,
+  id,
+}: {
+  provider: EmbedProvider;
+  id: string;
+}) {
+  return (
+    <iframe
+      src={getEmbedUrl({ provider, id })}
+      title={EMBED_TITLES[provider]}
+      loading="lazy"
+      allow="encrypted-media; picture-in-picture; fullscreen"
+      sandbox="allow-scripts allow-same-origin allow-popups allow-presentation"
+      referrerPolicy="strict-origin-when-cross-origin"
+      className={cn(
+        "not-prose my-4 w-full rounded-md border-0",
+        provider === "youtube"
+          ? "aspect-video"
+          : "mx-auto h-[560px] max-w-md bg-background",
+      )}
+    />
+  );
+}
+
+/**
+ * Render deskripsi Markdown dengan styling prose
+ * Dipakai di dialog detail dan tab pratinjau editor agar tampilannya sama
+ * - GFM (tabel, task list, coret, autolink)
+ * - Shortcode {{youtube URL}} / {{instagram URL}} menjadi embed
+ * - Semua output lewat allowlist rehype-sanitize; HTML mentah tidak dirender
+ * - Link eksternal dibuka di tab baru dengan rel aman
+ * - Gambar hanya dari S3 key yang sudah di-resolve (imageUrls), gambar
+ *   dari URL luar tidak ditampilkan
+ * - lite: hanya teks bertanda (tebal, miring, coret, kode, link, daftar,
+ *   kutipan) untuk komentar
+ */
+export function MarkdownContent({
+  content,
+  imageUrls,
+  className,
+  lite,
+}: MarkdownContentProps) {
+  const components: Components = {
+    a: ({ href, children }) => {
+      const isExternal = !!href && /^https?:\/\//i.test(href);
+      return (
+        <a
+          href={href}
+          {...(isExternal && {
+            target: "_blank",
+            rel: "noopener noreferrer nofollow",
+          })}
+        >
+          {children}
+        </a>
+      );
+    },
+    img: ({ src, alt }) => {
+      const url = typeof src === "string" ? imageUrls?.[src] : undefined;
+      if (!url) return null;
+      return (
+        <Image
+          src={url}
+          alt={alt ?? ""}
+          width={0}
+          height={0}
+          sizes="100vw"
+          unoptimized
+          className="h-auto w-full rounded-md"
+        />
+      );
+    },
+    div: ({ node, children, ...props }) => {
+      const provider = node?.properties?.dataEmbedProvider;
+      const id = node?.properties?.dataEmbedId;
+      if (
+        (provider === "youtube" || provider === "instagram") &&
+        typeof id === "string"
+      ) {
+        return <MarkdownEmbed provider={provider} id={id} />;
+      }
+      return <div {...props}>{children}</div>;
+    },
+    table: ({ children }) => (
+      <div className="overflow-x-auto">
+        <table>{children}</table>
+      </div>
+    ),
+  };
+
+  return (
+    <div
+      className={cn("prose prose-sm dark:prose-invert max-w-none", className)}
+    >
+      <ReactMarkdown
+        remarkPlugins={lite ? [remarkGfm] : [remarkGfm, remarkEmbeds]}
+        rehypePlugins={[[rehypeSanitize, MARKDOWN_SANITIZE_SCHEMA]]}
+        components={components}
+        {...(lite && {
+          allowedElements: LITE_ELEMENTS,
+          unwrapDisallowed: true,
+        })}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
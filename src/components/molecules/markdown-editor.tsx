@@ -0,0 +1,302 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Bold,
+  Eye,
+  Heading2,
+  ImagePlus,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  Loader2,
+  Pencil,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import { Textarea } from "@/components/shadcn/textarea";
+import { MarkdownContent } from "@/components/molecules/markdown-content";
+import { uploadImageDirect } from "@/lib/uploads/direct-upload";
+import type { ImageDestination } from "@/lib/actions/storage";
+import {
+  applyMarkdownFormat,
+  insertMarkdownImage,
+  type MarkdownEdit,
+  type MarkdownFormat,
+} from "@/lib/markdown";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  imageUrls?: Record<string, string>; // Presigned URL gambar inline yang sudah tersimpan
+  uploadDestination?: ImageDestination; // proposal untuk form usulan (prefix karantina)
+  placeholder?: string;
+  maxLength?: number;
+  disabled?: boolean;
+  invalid?: boolean;
+  className?: string;
+}
+
+const TOOLBAR: { format: MarkdownFormat; label: string; icon: typeof Bold }[] =
+  [
+    { format: "bold", label: "Tebal", icon: Bold },
+    { format: "italic", label: "Miring", icon: Italic },
+    { format: "heading", label: "Judul", icon: Heading2 },
+    { format: "bulletList", label: "Daftar", icon: List },
+    { format: "orderedList", label: "Daftar bernomor", icon: ListOrdered },
+    { format: "link", label: "Link", icon: Link },
+  ];
+
+/**
+ * Teks alt gambar dari nama file (tanpa ekstensi)
+ */
+function getImageAlt(file: File): string {
+  return file.name.replace(/\.[^.]+$/, "") || "Gambar";
+}
+
+/**
+ * Editor Markdown deskripsi milestone
+ * - Toolbar format (tebal, miring, judul, daftar, link, gambar)
+ * - Tab pratinjau dengan styling yang sama seperti dialog detail
+ * - Paste/drop gambar langsung di-upload ke bucket lalu disisipkan sebagai
+ *   ![alt](milestones/...) — presigned URL di-resolve saat milestone di-fetch
+ */
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  imageUrls,
+  uploadDestination,
+  placeholder,
+  maxLength,
+  disabled,
+  invalid,
+  className,
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<"write" | "preview">("write");
+  const [isUploading, setIsUploading] = useState(false);
+  // Object URL lokal untuk gambar yang di-upload di sesi ini (pratinjau)
+  const [uploadedUrls, setUploadedUrls] = useState<Record<string, string>>({});
+
+  /**
+   * Terapkan perubahan lalu kembalikan seleksi di textarea
+   */
+  const applyEdit = (edit: MarkdownEdit) => {
+    if (maxLength && edit.value.length > maxLength) {
+      toast.error(`Deskripsi maksimal ${maxLength} karakter`);
+      return;
+    }
+    onChange(edit.value);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(
+        edit.selectionStart,
+        edit.selectionEnd,
+      );
+    });
+  };
+
+  const handleFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    applyEdit(
+      applyMarkdownFormat(
+        value,
+        textarea.selectionStart,
+        textarea.selectionEnd,
+        format,
+      ),
+    );
+  };
+
+  /**
+   * Upload gambar satu per satu lalu sisipkan di posisi kursor
+   * Textarea read-only selama upload agar teks tidak berubah di tengah jalan
+   */
+  const uploadImages = async (files: File[], position: number) => {
+    setIsUploading(true);
+
+    let edit: MarkdownEdit = {
+      value,
+      selectionStart: position,
+      selectionEnd: position,
+    };
+    const urls: Record<string, string> = {};
+
+    for (const file of files) {
+      const result = await uploadImageDirect(
+        file,
+        undefined,
+        uploadDestination,
+      );
+      if (!result.success || !result.key) {
+        toast.error(
+          `${file.name}: ${result.error || "Gagal mengupload gambar"}`,
+        );
+        continue;
+      }
+      urls[result.key] = URL.createObjectURL(file);
+      edit = insertMarkdownImage(
+        edit.value,
+        edit.selectionEnd,
+        getImageAlt(file),
+        result.key,
+      );
+    }
+
+    setUploadedUrls((prev) => ({ ...prev, ...urls }));
+    setIsUploading(false);
+    if (edit.value !== value) applyEdit(edit);
+  };
+
+  const getImageFiles = (files: FileList | null | undefined): File[] =>
+    Array.from(files ?? []).filter((file) => file.type.startsWith("image/"));
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = getImageFiles(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    void uploadImages(files, e.currentTarget.selectionStart);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const files = getImageFiles(e.dataTransfer.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    void uploadImages(files, e.currentTarget.selectionStart);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = getImageFiles(e.target.files);
+    e.target.value = "";
+    if (files.length === 0) return;
+    void uploadImages(
+      files,
+      textareaRef.current?.selectionStart ?? value.length,
+    );
+  };
+
+  const isBusy = disabled || isUploading;
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border",
+        invalid && "border-destructive",
+        className,
+      )}
+    >
+      {/* Toolbar & tab */}
+      <div className="flex flex-wrap items-center justify-between gap-1 border-b p-1">
+        <div className="flex flex-wrap items-center gap-0.5">
+          {TOOLBAR.map((item) => (
+            <Button
+              key={item.format}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              title={item.label}
+              aria-label={item.label}
+              onClick={() => handleFormat(item.format)}
+              disabled={isBusy || mode === "preview"}
+            >
+              <item.icon className="size-4" />
+            </Button>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            title="Sisipkan gambar"
+            aria-label="Sisipkan gambar"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy || mode === "preview"}
+          >
+            {isUploading ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <ImagePlus className="size-4" />
+            )}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={handleFileSelect}
+          />
+        </div>
+        <div className="flex gap-0.5" role="tablist">
+          <Button
+            type="button"
+            role="tab"
+            aria-selected={mode === "write"}
+            variant={mode === "write" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setMode("write")}
+          >
+            <Pencil className="size-3.5" />
+            Tulis
+          </Button>
+          <Button
+            type="button"
+            role="tab"
+            aria-selected={mode === "preview"}
+            variant={mode === "preview" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setMode("preview")}
+          >
+            <Eye className="size-3.5" />
+            Pratinjau
+          </Button>
+        </div>
+      </div>
+
+      {mode === "write" ? (
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onPaste={handlePaste}
+          onDrop={handleDrop}
+          readOnly={isUploading}
+          disabled={disabled}
+          maxLength={maxLength}
+          rows={8}
+          aria-invalid={invalid || undefined}
+          className="min-h-40 rounded-none border-0 shadow-none focus-visible:ring-0"
+        />
+      ) : (
+        <div className="min-h-40 px-3 py-2">
+          {value.trim() ? (
+            <MarkdownContent
+              content={value}
+              imageUrls={{ ...imageUrls, ...uploadedUrls }}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Belum ada isi untuk dipratinjau.
+            </p>
+          )}
+        </div>
+      )}
+
+      {isUploading && (
+        <p className="border-t px-3 py-1.5 text-xs text-muted-foreground">
+          Mengupload gambar...
+        </p>
+      )}
+    </div>
+  );
+}
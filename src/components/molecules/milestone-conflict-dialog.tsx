@@ -0,0 +1,303 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { format, formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+import { GitMerge, Loader2 } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/shadcn/dialog";
+import { ScrollArea } from "@/components/shadcn/scroll-area";
+import { TagChip } from "@/components/molecules/tag-chip";
+import {
+  toGalleryItems,
+  type GalleryItem,
+} from "@/components/molecules/gallery-upload";
+import type { Milestone } from "@/lib/types/milestones";
+import type { Tag } from "@/lib/types/tags";
+
+/**
+ * Isi form edit milestone yang bisa digabungkan saat konflik
+ */
+export interface MilestoneFormValues {
+  title: string;
+  description: string;
+  eventDate: Date | undefined;
+  tagIds: string[];
+  galleryItems: GalleryItem[];
+}
+
+type ConflictField = keyof MilestoneFormValues;
+type ConflictChoice = "mine" | "theirs";
+
+interface MilestoneConflictDialogProps {
+  base: MilestoneFormValues; // Versi saat form dibuka
+  mine: MilestoneFormValues; // Isi form saat ini
+  latest: Milestone; // Versi terbaru di server
+  tags: Tag[];
+  onMerge: (values: MilestoneFormValues) => void;
+  onUseLatest: () => void;
+  onCancel: () => void;
+  isPending?: boolean;
+}
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: "Judul",
+  description: "Deskripsi",
+  eventDate: "Tanggal",
+  tagIds: "Tag",
+  galleryItems: "Gallery",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as ConflictField[];
+
+/**
+ * Nilai form dari data milestone
+ */
+export function toMilestoneFormValues(
+  milestone: Milestone,
+): MilestoneFormValues {
+  return {
+    title: milestone.title,
+    description: milestone.description || "",
+    eventDate: new Date(milestone.event_date),
+    tagIds: (milestone.tags ?? []).map((tag) => tag.id),
+    galleryItems: toGalleryItems(milestone.images),
+  };
+}
+
+/**
+ * Representasi string satu field untuk perbandingan
+ * Gambar baru (belum punya key) selalu dianggap berbeda
+ */
+function getSignature(values: MilestoneFormValues, field: ConflictField) {
+  switch (field) {
+    case "title":
+    case "description":
+      return values[field].trim();
+    case "eventDate":
+      return values.eventDate ? format(values.eventDate, "yyyy-MM-dd") : "";
+    case "tagIds":
+      return [...values.tagIds].sort().join(",");
+    case "galleryItems":
+      return JSON.stringify(
+        values.galleryItems.map((item) => [
+          item.image_key ?? item.id,
+          item.caption.trim(),
+          item.is_cover,
+        ]),
+      );
+  }
+}
+
+/**
+ * Tampilan nilai satu field di kolom perbandingan
+ */
+function FieldValue({
+  values,
+  field,
+  tags,
+}: {
+  values: MilestoneFormValues;
+  field: ConflictField;
+  tags: Tag[];
+}) {
+  const empty = <span className="text-muted-foreground">—</span>;
+
+  switch (field) {
+    case "title":
+      return (
+        <span className="font-medium">{values.title.trim() || empty}</span>
+      );
+    case "description":
+      return values.description.trim() ? (
+        <span className="line-clamp-6 whitespace-pre-wrap">
+          {values.description.trim()}
+        </span>
+      ) : (
+        empty
+      );
+    case "eventDate":
+      return values.eventDate ? (
+        <span>{format(values.eventDate, "d MMMM yyyy", { locale: id })}</span>
+      ) : (
+        empty
+      );
+    case "tagIds": {
+      const selected = tags.filter((tag) => values.tagIds.includes(tag.id));
+      return selected.length > 0 ? (
+        <span className="flex flex-wrap gap-1">
+          {selected.map((tag) => (
+            <TagChip key={tag.id} tag={tag} />
+          ))}
+        </span>
+      ) : (
+        empty
+      );
+    }
+    case "galleryItems":
+      return values.galleryItems.length > 0 ? (
+        <span className="space-y-1.5">
+          <span className="grid grid-cols-3 gap-1">
+            {values.galleryItems
+              .slice(0, 6)
+              .map((item, index) =>
+                item.previewUrl ? (
+                  <Image
+                    key={item.id}
+                    src={item.previewUrl}
+                    alt={item.caption || `Gambar ${index + 1}`}
+                    width={120}
+                    height={68}
+                    unoptimized
+                    className={cn(
+                      "aspect-video w-full rounded object-cover",
+                      item.is_cover && "ring-2 ring-primary",
+                    )}
+                  />
+                ) : null,
+              )}
+          </span>
+          <span className="block text-xs text-muted-foreground">
+            {values.galleryItems.length} gambar
+          </span>
+        </span>
+      ) : (
+        empty
+      );
+  }
+}
+
+/**
+ * Dialog penggabungan saat updateMilestone menolak versi basi
+ * Per field, user memilih perubahannya sendiri atau versi terbaru di server.
+ * Field yang tidak diubah user otomatis memakai versi terbaru.
+ */
+export function MilestoneConflictDialog({
+  base,
+  mine,
+  latest,
+  tags,
+  onMerge,
+  onUseLatest,
+  onCancel,
+  isPending,
+}: MilestoneConflictDialogProps) {
+  const theirs = toMilestoneFormValues(latest);
+  const conflictingFields = FIELDS.filter(
+    (field) => getSignature(mine, field) !== getSignature(theirs, field),
+  );
+
+  const [choices, setChoices] = useState<Record<ConflictField, ConflictChoice>>(
+    () =>
+      Object.fromEntries(
+        FIELDS.map((field) => [
+          field,
+          getSignature(mine, field) === getSignature(base, field)
+            ? "theirs"
+            : "mine",
+        ]),
+      ) as Record<ConflictField, ConflictChoice>,
+  );
+
+  const handleMerge = () => {
+    const pick = <K extends ConflictField>(field: K) =>
+      choices[field] === "mine" ? mine[field] : theirs[field];
+
+    onMerge({
+      title: pick("title"),
+      description: pick("description"),
+      eventDate: pick("eventDate"),
+      tagIds: pick("tagIds"),
+      galleryItems: pick("galleryItems"),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isPending && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="size-5" />
+            Journey Sudah Diubah
+          </DialogTitle>
+          <DialogDescription>
+            Versi terbaru disimpan{" "}
+            {formatDistanceToNow(new Date(latest.updated_at), {
+              addSuffix: true,
+              locale: id,
+            })}
+            . Pilih isi yang dipakai untuk setiap field yang berbeda.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflictingFields.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            Isi form Anda sama dengan versi terbaru.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-4 pr-3">
+              <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+                <span>Perubahan Anda</span>
+                <span>Versi terbaru</span>
+              </div>
+              {conflictingFields.map((field) => (
+                <div key={field} className="space-y-1.5">
+                  <p className="text-sm font-medium">{FIELD_LABELS[field]}</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["mine", "theirs"] as const).map((side) => (
+                      <button
+                        key={side}
+                        type="button"
+                        aria-pressed={choices[field] === side}
+                        disabled={isPending}
+                        onClick={() =>
+                          setChoices((prev) => ({ ...prev, [field]: side }))
+                        }
+                        className={cn(
+                          "rounded-md border p-2 text-left text-sm transition-colors cursor-pointer disabled:cursor-not-allowed",
+                          choices[field] === side
+                            ? "border-primary bg-primary/5 ring-1 ring-primary"
+                            : "hover:bg-muted/50",
+                        )}
+                      >
+                        <FieldValue
+                          values={side === "mine" ? mine : theirs}
+                          field={field}
+                          tags={tags}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isPending}>
+            Batal
+          </Button>
+          <Button variant="outline" onClick={onUseLatest} disabled={isPending}>
+            Pakai versi terbaru
+          </Button>
+          <Button onClick={handleMerge} disabled={isPending}>
+            {isPending && <Loader2 className="size-4 animate-spin" />}
+            Gabungkan & Simpan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
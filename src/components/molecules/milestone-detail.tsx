@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect } from "react";
+import {
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/shadcn/dialog";
+import { ScrollArea } from "@/components/shadcn/scroll-area";
+import { ImageCarousel } from "@/components/molecules/image-carousel";
+import { MarkdownContent } from "@/components/molecules/markdown-content";
+import { TagChip } from "@/components/molecules/tag-chip";
+import { MilestoneComments } from "@/components/organism/milestone-comments";
+import { ANONYMOUS_ACCESS } from "@/lib/permissions";
+import { rememberMilestone } from "@/lib/pwa/offline";
+import type { Milestone } from "@/lib/types/milestones";
+import type { AccessContext } from "@/lib/types/roles";
+
+/**
+ * Format date to Indonesian locale
+ */
+export function formatMilestoneDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+/**
+ * Isi dialog detail milestone (gallery, tag, deskripsi Markdown, komentar)
+ * Dipakai bersama oleh tampilan grid dan timeline
+ * Journey yang dibuka disimpan untuk dibaca offline (halaman /offline)
+ */
+export function MilestoneDetailContent({
+  milestone,
+  access = ANONYMOUS_ACCESS,
+}: {
+  milestone: Milestone;
+  access?: AccessContext;
+}) {
+  useEffect(() => {
+    void rememberMilestone(milestone);
+  }, [milestone]);
+
+  return (
+    <DialogContent className="p-3.5 md:p-4">
+      <ScrollArea className="h-[440px] sm:h-[500px]">
+        <DialogHeader>
+          <div className="w-full">
+            <ImageCarousel
+              images={milestone.images ?? []}
+              alt={milestone.title}
+            />
+          </div>
+          <DialogTitle className="mt-3">{milestone.title}</DialogTitle>
+          <DialogDescription>
+            {formatMilestoneDate(milestone.event_date)}
+          </DialogDescription>
+          {milestone.tags && milestone.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {milestone.tags.map((tag) => (
+                <TagChip key={tag.id} tag={tag} />
+              ))}
+            </div>
+          )}
+          {milestone.description && (
+            <MarkdownContent
+              content={milestone.description}
+              imageUrls={milestone.description_image_urls}
+              className="text-muted-foreground"
+            />
+          )}
+        </DialogHeader>
+        <MilestoneComments
+          milestoneId={milestone.id}
+          access={access}
+          className="mt-4"
+        />
+      </ScrollArea>
+    </DialogContent>
+  );
+}
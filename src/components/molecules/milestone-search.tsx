@@ -0,0 +1,76 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Search, X } from "lucide-react";
+import { Button } from "@/components/shadcn/button";
+import { Input } from "@/components/shadcn/input";
+
+interface MilestoneSearchProps {
+  query?: string;
+}
+
+/**
+ * Kotak pencarian journey
+ * Kata kunci disimpan di parameter ?q= agar hasil pencarian bisa dibagikan
+ */
+export function MilestoneSearch({ query = "" }: MilestoneSearchProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Navigasi ke URL dengan kata kunci baru, parameter lain dipertahankan
+   */
+  const navigate = (value: string) => {
+    const params = new URLSearchParams(window.location.search);
+    if (value) {
+      params.set("q", value);
+    } else {
+      params.delete("q");
+    }
+    const search = params.toString();
+    startTransition(() => {
+      router.push(search ? `/?${search}` : "/");
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    navigate(String(formData.get("q") ?? "").trim());
+  };
+
+  return (
+    <form role="search" onSubmit={handleSubmit} className="relative w-full">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+      <Input
+        key={query}
+        type="search"
+        name="q"
+        defaultValue={query}
+        placeholder="Cari journey..."
+        maxLength={100}
+        aria-label="Cari journey"
+        className="pl-9 pr-10 [&::-webkit-search-cancel-button]:hidden"
+      />
+      <div className="absolute right-1 top-1/2 -translate-y-1/2">
+        {isPending ? (
+          <Loader2 className="m-2 size-4 animate-spin text-muted-foreground" />
+        ) : (
+          query && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label="Hapus pencarian"
+              onClick={() => navigate("")}
+            >
+              <X className="size-4" />
+            </Button>
+          )
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { Pencil } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Dialog, DialogTrigger } from "@/components/shadcn/dialog";
+import { Button } from "@/components/shadcn/button";
+import {
+  MilestoneDetailContent,
+  formatMilestoneDate,
+} from "@/components/molecules/milestone-detail";
+import { TagChip } from "@/components/molecules/tag-chip";
+import { StatusBadge } from "@/components/molecules/status-badge";
+import { getTagFilterHref } from "@/lib/milestone-filters";
+import { ANONYMOUS_ACCESS, canEditMilestone } from "@/lib/permissions";
+import type { Milestone } from "@/lib/types/milestones";
+import type { AccessContext } from "@/lib/types/roles";
+
+interface MilestoneTimelineProps {
+  milestones: Milestone[];
+  access?: AccessContext;
+  emptyMessage?: string;
+}
+
+type MonthGroup = {
+  key: string; // YYYY-MM
+  label: string;
+  items: { milestone: Milestone; index: number }[]; // index berjalan untuk selang-seling
+};
+
+type YearGroup = {
+  year: string;
+  months: MonthGroup[];
+};
+
+/**
+ * Kelompokkan milestone per tahun lalu per bulan
+ * Urutan grup mengikuti kemunculan pertama di input (sudah terurut dari server)
+ */
+function groupByYearMonth(milestones: Milestone[]): YearGroup[] {
+  const years = new Map<string, Map<string, MonthGroup>>();
+
+  milestones.forEach((milestone, index) => {
+    const [year, month] = milestone.event_date.split("-");
+    const monthKey = `${year}-${month}`;
+
+    if (!years.has(year)) years.set(year, new Map());
+    const months = years.get(year)!;
+
+    if (!months.has(monthKey)) {
+      months.set(monthKey, {
+        key: monthKey,
+        label: new Date(Number(year), Number(month) - 1, 1).toLocaleDateString(
+          "id-ID",
+          { month: "long" },
+        ),
+        items: [],
+      });
+    }
+    months.get(monthKey)!.items.push({ milestone, index });
+  });
+
+  return Array.from(years, ([year, months]) => ({
+    year,
+    months: Array.from(months.values()),
+  }));
+}
+
+/**
+ * Timeline vertikal journey: rail tahun yang sticky, garis penghubung,
+ * dan kartu yang berselang-seling kiri/kanan (layar md ke atas)
+ */
+export function MilestoneTimeline({
+  milestones,
+  access = ANONYMOUS_ACCESS,
+  emptyMessage = "Belum ada journey.",
+}: MilestoneTimelineProps) {
+  const router = useRouter();
+
+  if (milestones.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <p>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  const handleEdit = (e: React.MouseEvent, milestoneId: string) => {
+    e.stopPropagation();
+    router.push(`/form/${milestoneId}`);
+  };
+
+  const handleTagClick = (e: React.MouseEvent, slug: string) => {
+    e.stopPropagation();
+    router.push(getTagFilterHref(window.location.search, slug));
+  };
+
+  return (
+    <div className="flex flex-col gap-10">
+      {groupByYearMonth(milestones).map((yearGroup) => (
+        <section
+          key={yearGroup.year}
+          className="grid grid-cols-[3.5rem_1fr] sm:grid-cols-[5rem_1fr] gap-3 sm:gap-6"
+        >
+          {/* Rail tahun */}
+          <div>
+            <h2 className="sticky top-4 text-lg sm:text-2xl font-bold text-primary">
+              {yearGroup.year}
+            </h2>
+          </div>
+
+          <div className="relative">
+            {/* Garis penghubung */}
+            <div className="absolute inset-y-0 left-3 md:left-1/2 w-px -translate-x-1/2 bg-border" />
+
+            {yearGroup.months.map((monthGroup) => (
+              <div key={monthGroup.key} className="relative pb-6">
+                <div className="relative mb-4 pl-8 md:pl-0 md:text-center">
+                  <span className="relative z-10 inline-block rounded-full border bg-background px-3 py-0.5 text-xs font-medium capitalize text-muted-foreground">
+                    {monthGroup.label}
+                  </span>
+                </div>
+
+                <ol className="flex flex-col gap-6">
+                  {monthGroup.items.map(({ milestone: item, index }) => {
+                    const isLeft = index % 2 === 0;
+                    const canEdit = canEditMilestone(access, item);
+
+                    return (
+                      <li
+                        key={item.id}
+                        className="relative md:grid md:grid-cols-2 md:gap-10"
+                      >
+                        {/* Titik di garis */}
+                        <span className="absolute left-3 md:left-1/2 top-5 z-10 size-3 -translate-x-1/2 rounded-full border-2 border-background bg-primary" />
+
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <div
+                              className={cn(
+                                "ml-8 md:ml-0 cursor-pointer group rounded-lg border bg-card overflow-hidden transition hover:shadow-md",
+                                isLeft ? "md:col-start-1" : "md:col-start-2",
+                              )}
+                            >
+                              {(item.thumbnail_url || item.image_url) && (
+                                <Image
+                                  src={(item.thumbnail_url || item.image_url)!}
+                                  alt={item.title}
+                                  width={480}
+                                  height={270}
+                                  className="w-full aspect-video object-cover"
+                                />
+                              )}
+                              <div
+                                className={cn(
+                                  "space-y-1.5 p-3",
+                                  isLeft && "md:text-right",
+                                )}
+                              >
+                                <p className="text-xs text-muted-foreground">
+                                  {formatMilestoneDate(item.event_date)}
+                                </p>
+                                <StatusBadge milestone={item} />
+                                <h3 className="font-bold leading-snug">
+                                  {item.title}
+                                </h3>
+                                {item.description && (
+                                  <p className="text-sm text-muted-foreground line-clamp-2">
+                                    {item.description}
+                                  </p>
+                                )}
+                                {((item.tags && item.tags.length > 0) ||
+                                  canEdit) && (
+                                  <div
+                                    className={cn(
+                                      "flex flex-wrap items-center gap-1",
+                                      isLeft && "md:justify-end",
+                                    )}
+                                  >
+                                    {item.tags?.map((tag) => (
+                                      <TagChip
+                                        key={tag.id}
+                                        tag={tag}
+                                        onClick={(e) =>
+                                          handleTagClick(e, tag.slug)
+                                        }
+                                      />
+                                    ))}
+                                    {canEdit && (
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="size-7"
+                                        aria-label="Edit journey"
+                                        onClick={(e) => handleEdit(e, item.id)}
+                                      >
+                                        <Pencil className="size-3.5" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          </DialogTrigger>
+                          <MilestoneDetailContent
+                            milestone={item}
+                            access={access}
+                          />
+                        </Dialog>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import {
+  CircleCheck,
+  CircleX,
+  Clock,
+  MessageSquareWarning,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PROPOSAL_STATUS_LABELS } from "@/lib/proposal-status";
+import type { ProposalStatus } from "@/lib/types/proposals";
+
+const STATUS_STYLES: Record<
+  ProposalStatus,
+  { icon: typeof Clock; className: string }
+> = {
+  pending: { icon: Clock, className: "text-muted-foreground" },
+  changes_requested: {
+    icon: MessageSquareWarning,
+    className:
+      "border-amber-500/40 text-amber-700 dark:text-amber-400 bg-amber-500/10",
+  },
+  approved: {
+    icon: CircleCheck,
+    className:
+      "border-emerald-500/40 text-emerald-700 dark:text-emerald-400 bg-emerald-500/10",
+  },
+  rejected: {
+    icon: CircleX,
+    className: "border-destructive/40 text-destructive bg-destructive/10",
+  },
+};
+
+/**
+ * Penanda status usulan journey
+ */
+export function ProposalStatusBadge({
+  status,
+  className,
+}: {
+  status: ProposalStatus;
+  className?: string;
+}) {
+  const { icon: Icon, className: statusClassName } = STATUS_STYLES[status];
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium whitespace-nowrap",
+        statusClassName,
+        className,
+      )}
+    >
+      <Icon className="size-3" />
+      {PROPOSAL_STATUS_LABELS[status]}
+    </span>
+  );
+}
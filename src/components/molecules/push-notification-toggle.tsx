@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Switch } from "@/components/shadcn/switch";
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/lib/pwa/push";
+
+/**
+ * Saklar notifikasi push untuk perangkat/browser yang sedang dipakai
+ * Tidak tampil jika browser tidak mendukung push atau VAPID belum dikonfigurasi
+ */
+export function PushNotificationToggle() {
+  const [supported, setSupported] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const subscription = await getPushSubscription().catch(() => null);
+      if (cancelled) return;
+      setSupported(isPushSupported());
+      setEnabled(!!subscription);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!supported) return null;
+
+  const handleChange = async (checked: boolean) => {
+    setIsBusy(true);
+    const result = checked
+      ? await subscribeToPush()
+      : await unsubscribeFromPush();
+    setIsBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Gagal mengubah notifikasi push");
+      return;
+    }
+    setEnabled(checked);
+    toast.success(
+      checked
+        ? "Notifikasi push aktif di perangkat ini"
+        : "Notifikasi push dimatikan",
+    );
+  };
+
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div className="space-y-0.5">
+        <p id="notification-push" className="text-sm">
+          Notifikasi push
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Pemberitahuan di perangkat ini saat ada journey baru.
+        </p>
+      </div>
+      <Switch
+        checked={enabled}
+        onCheckedChange={handleChange}
+        disabled={isBusy}
+        aria-labelledby="notification-push"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/shadcn/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/shadcn/dropdown-menu";
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from "@/lib/permissions";
+import type { Role } from "@/lib/types/roles";
+
+interface RoleSelectProps {
+  value: Role | null; // null = user belum punya akses
+  onChange: (role: Role) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Dropdown pilih role beserta keterangan izinnya
+ * Tanpa value, tombol menampilkan "Tanpa akses" dan memilih role berarti
+ * memberi akses
+ */
+export function RoleSelect({ value, onChange, disabled }: RoleSelectProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className="min-w-28 justify-between"
+        >
+          {value ? (
+            ROLE_LABELS[value]
+          ) : (
+            <span className="text-muted-foreground">Tanpa akses</span>
+          )}
+          <ChevronDown className="size-3.5 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Role</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={value ?? ""}
+          onValueChange={(role) => onChange(role as Role)}
+        >
+          {ROLES.map((role) => (
+            <DropdownMenuRadioItem key={role} value={role}>
+              <div className="flex flex-col">
+                <span>{ROLE_LABELS[role]}</span>
+                <span className="text-xs text-muted-foreground">
+                  {ROLE_DESCRIPTIONS[role]}
+                </span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
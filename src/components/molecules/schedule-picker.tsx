@@ -0,0 +1,64 @@
+"use client";
+
+import { CalendarClock, Globe } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import { Input } from "@/components/shadcn/input";
+import { getDefaultSchedule } from "@/lib/milestone-status";
+
+interface SchedulePickerProps {
+  value: string | null; // Format datetime-local (yyyy-MM-ddTHH:mm), null = terbit sekarang
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Pilih kapan journey terbit: sekarang atau terjadwal
+ * Hanya ditampilkan untuk user dengan izin milestone.publish
+ */
+export function SchedulePicker({
+  value,
+  onChange,
+  disabled,
+  className,
+}: SchedulePickerProps) {
+  const isScheduled = value !== null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          type="button"
+          variant={isScheduled ? "outline" : "default"}
+          aria-pressed={!isScheduled}
+          onClick={() => onChange(null)}
+          disabled={disabled}
+        >
+          <Globe className="size-4" />
+          Terbit sekarang
+        </Button>
+        <Button
+          type="button"
+          variant={isScheduled ? "default" : "outline"}
+          aria-pressed={isScheduled}
+          onClick={() => onChange(value ?? getDefaultSchedule())}
+          disabled={disabled}
+        >
+          <CalendarClock className="size-4" />
+          Jadwalkan
+        </Button>
+      </div>
+      {isScheduled && (
+        <Input
+          type="datetime-local"
+          aria-label="Waktu terbit"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
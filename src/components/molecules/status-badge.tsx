@@ -0,0 +1,41 @@
+import { Archive, CalendarClock, FilePen } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  MILESTONE_STATUS_LABELS,
+  getEffectiveStatus,
+} from "@/lib/milestone-status";
+import type { Milestone, MilestoneStatus } from "@/lib/types/milestones";
+
+const STATUS_ICONS: Partial<Record<MilestoneStatus, typeof FilePen>> = {
+  draft: FilePen,
+  scheduled: CalendarClock,
+  archived: Archive,
+};
+
+/**
+ * Penanda journey yang belum (atau tidak lagi) terlihat oleh semua member
+ * Tidak menampilkan apa pun untuk journey yang sudah terbit
+ */
+export function StatusBadge({
+  milestone,
+  className,
+}: {
+  milestone: Pick<Milestone, "status" | "publish_at">;
+  className?: string;
+}) {
+  const status = getEffectiveStatus(milestone);
+  const Icon = STATUS_ICONS[status];
+  if (!Icon) return null;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full border border-dashed bg-background/80 px-2 py-0.5 text-xs font-medium text-muted-foreground",
+        className,
+      )}
+    >
+      <Icon className="size-3" />
+      {MILESTONE_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,57 @@
+import { cn } from "@/lib/utils";
+import type { Tag } from "@/lib/types/tags";
+
+interface TagChipProps {
+  tag: Pick<Tag, "name" | "color">;
+  selected?: boolean;
+  onClick?: (e: React.MouseEvent<HTMLButtonElement>) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Chip tag berwarna
+ * Menjadi tombol jika onClick diisi; selected mengisi chip dengan warna tag
+ */
+export function TagChip({
+  tag,
+  selected = false,
+  onClick,
+  disabled,
+  className,
+}: TagChipProps) {
+  const style = selected
+    ? { backgroundColor: tag.color, borderColor: tag.color, color: "#fff" }
+    : {
+        backgroundColor: `${tag.color}1a`,
+        borderColor: `${tag.color}4d`,
+        color: tag.color,
+      };
+  const classes = cn(
+    "inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium whitespace-nowrap",
+    onClick && "cursor-pointer transition-opacity hover:opacity-80",
+    disabled && "pointer-events-none opacity-50",
+    className,
+  );
+
+  if (!onClick) {
+    return (
+      <span className={classes} style={style}>
+        {tag.name}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={selected}
+      className={classes}
+      style={style}
+    >
+      {tag.name}
+    </button>
+  );
+}
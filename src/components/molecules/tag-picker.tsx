@@ -0,0 +1,76 @@
+"use client";
+
+import Link from "next/link";
+import { TagChip } from "@/components/molecules/tag-chip";
+import type { Tag } from "@/lib/types/tags";
+
+interface TagPickerProps {
+  tags: Tag[];
+  value: string[]; // ID tag terpilih
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+  max?: number;
+  canManage?: boolean; // Tampilkan link "Kelola tag" (izin tag.manage)
+}
+
+/**
+ * Pilih tag milestone dengan mengklik chip
+ */
+export function TagPicker({
+  tags,
+  value,
+  onChange,
+  disabled,
+  max = 10,
+  canManage = false,
+}: TagPickerProps) {
+  if (tags.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Belum ada tag.{" "}
+        {canManage && (
+          <Link
+            href="/form/tags"
+            className="underline underline-offset-4 hover:text-foreground"
+          >
+            Kelola tag
+          </Link>
+        )}
+      </p>
+    );
+  }
+
+  const toggle = (tagId: string) => {
+    if (value.includes(tagId)) {
+      onChange(value.filter((id) => id !== tagId));
+    } else if (value.length < max) {
+      onChange([...value, tagId]);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map((tag) => {
+        const selected = value.includes(tag.id);
+        return (
+          <TagChip
+            key={tag.id}
+            tag={tag}
+            selected={selected}
+            onClick={() => toggle(tag.id)}
+            disabled={disabled || (!selected && value.length >= max)}
+            className="px-3 py-1"
+          />
+        );
+      })}
+      {canManage && (
+        <Link
+          href="/form/tags"
+          className="text-xs text-muted-foreground underline underline-offset-4 hover:text-foreground"
+        >
+          Kelola tag
+        </Link>
+      )}
+    </div>
+  );
+}
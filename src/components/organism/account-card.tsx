@@ -1,8 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useTransition } from "react";
 import { User } from "@supabase/supabase-js";
-import { LogOut, Mail, User as UserIcon, Loader2 } from "lucide-react";
+import { Bell, LogOut, Mail, User as UserIcon, Loader2 } from "lucide-react";
+import { toast } from "sonner";
 
 import {
   Card,
@@ -14,6 +15,7 @@ import {
 } from "@/components/shadcn/card";
 import { Button } from "@/components/shadcn/button";
 import { Separator } from "@/components/shadcn/separator";
+import { Switch } from "@/components/shadcn/switch";
 import {
   Dialog,
   DialogContent,
@@ -23,15 +25,34 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/shadcn/dialog";
+import { PushNotificationToggle } from "@/components/molecules/push-notification-toggle";
+import { updateNotificationPreferences } from "@/lib/actions/notifications";
+import {
+  NOTIFICATION_TOPICS,
+  NOTIFICATION_TOPIC_LABELS,
+} from "@/lib/notification-preferences";
+import { clearOfflineData } from "@/lib/pwa/offline";
+import { unsubscribeFromPush } from "@/lib/pwa/push";
+import type {
+  NotificationPreferences,
+  NotificationTopic,
+} from "@/lib/types/notifications";
 
 interface AccountCardProps {
   user: User;
   signOutAction: () => Promise<never>;
+  notificationPreferences?: NotificationPreferences; // Kosong jika gagal dimuat
 }
 
-export function AccountCard({ user, signOutAction }: AccountCardProps) {
+export function AccountCard({
+  user,
+  signOutAction,
+  notificationPreferences,
+}: AccountCardProps) {
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [preferences, setPreferences] = useState(notificationPreferences);
+  const [isSaving, startTransition] = useTransition();
 
   const displayName =
     user.user_metadata?.full_name ||
@@ -44,9 +65,31 @@ export function AccountCard({ user, signOutAction }: AccountCardProps) {
 
   const handleSignOut = async () => {
     setIsLoggingOut(true);
+    // Perangkat ini berhenti menerima push & cache halaman akun ini dihapus
+    await Promise.allSettled([unsubscribeFromPush(), clearOfflineData()]);
     await signOutAction();
   };
 
+  /**
+   * Ubah satu preferensi notifikasi (langsung tersimpan)
+   */
+  const handleTogglePreference = (topic: NotificationTopic) => {
+    if (!preferences) return;
+    const previous = preferences;
+    const enabled = !previous[topic];
+    setPreferences({ ...previous, [topic]: enabled });
+
+    startTransition(async () => {
+      const result = await updateNotificationPreferences({ [topic]: enabled });
+      if (!result.success || !result.data) {
+        setPreferences(previous);
+        toast.error(result.error || "Gagal menyimpan pengaturan notifikasi");
+        return;
+      }
+      setPreferences(result.data);
+    });
+  };
+
   return (
     <Card>
       <CardHeader className="text-center">
@@ -100,6 +143,46 @@ export function AccountCard({ user, signOutAction }: AccountCardProps) {
             </div>
           )}
         </div>
+
+        {preferences && (
+          <>
+            <Separator />
+
+            <div className="space-y-3">
+              <h3 className="flex items-center gap-2 text-sm font-medium">
+                <Bell className="size-4" />
+                Notifikasi
+              </h3>
+              {NOTIFICATION_TOPICS.map((topic) => {
+                const enabled = preferences[topic];
+                const { label, description } = NOTIFICATION_TOPIC_LABELS[topic];
+
+                return (
+                  <div
+                    key={topic}
+                    className="flex items-start justify-between gap-4"
+                  >
+                    <div className="space-y-0.5">
+                      <p id={`notification-${topic}`} className="text-sm">
+                        {label}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {description}
+                      </p>
+                    </div>
+                    <Switch
+                      checked={enabled}
+                      onCheckedChange={() => handleTogglePreference(topic)}
+                      disabled={isSaving}
+                      aria-labelledby={`notification-${topic}`}
+                    />
+                  </div>
+                );
+              })}
+              <PushNotificationToggle />
+            </div>
+          </>
+        )}
       </CardContent>
 
       <CardFooter>
@@ -0,0 +1,362 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { format, formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+import {
+  ChevronDown,
+  FileClock,
+  ImageIcon,
+  Loader2,
+  Pencil,
+  Plus,
+  RotateCcw,
+  Trash2,
+  X,
+} from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/shadcn/dropdown-menu";
+import { getAuditLog } from "@/lib/actions/audit";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  applyAuditFilters,
+} from "@/lib/audit-filters";
+import type {
+  AuditAction,
+  AuditEntry,
+  AuditLogFilters,
+  AuditLogPage,
+  AuditSnapshot,
+} from "@/lib/types/audit";
+
+interface AuditLogViewerProps {
+  initialPage: AuditLogPage;
+  filters: AuditLogFilters;
+  className?: string;
+}
+
+const ACTION_ICONS: Record<AuditAction, typeof Plus> = {
+  "milestone.create": Plus,
+  "milestone.update": Pencil,
+  "milestone.delete": Trash2,
+  "milestone.restore": RotateCcw,
+  "milestone.purge": Trash2,
+  "image.upload": ImageIcon,
+  "image.delete": Trash2,
+};
+
+/**
+ * Label field snapshot milestone/gambar
+ */
+const FIELD_LABELS: Record<string, string> = {
+  title: "Judul",
+  description: "Deskripsi",
+  event_date: "Tanggal",
+  status: "Status",
+  publish_at: "Jadwal terbit",
+  image_url: "Cover",
+  images: "Gallery",
+  tag_ids: "Tag",
+  key: "File",
+  variants: "Varian",
+};
+
+const MAX_VALUE_LENGTH = 300;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  const text =
+    typeof value === "string" ? value : JSON.stringify(value, null, 1);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Tabel perubahan sebelum/sesudah satu entri
+ */
+function AuditDiff({
+  before,
+  after,
+}: {
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}) {
+  const fields = [
+    ...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]),
+  ];
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="overflow-x-auto rounded-md border text-xs">
+      <table className="w-full">
+        <thead className="bg-muted/50 text-left text-muted-foreground">
+          <tr>
+            <th className="p-2 font-medium">Field</th>
+            {before && <th className="p-2 font-medium">Sebelum</th>}
+            {after && <th className="p-2 font-medium">Sesudah</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {fields.map((field) => (
+            <tr key={field} className="align-top">
+              <td className="p-2 font-medium whitespace-nowrap">
+                {FIELD_LABELS[field] ?? field}
+              </td>
+              {before && (
+                <td className="p-2 break-all whitespace-pre-wrap text-destructive/90">
+                  {formatValue(before[field])}
+                </td>
+              )}
+              {after && (
+                <td className="p-2 break-all whitespace-pre-wrap text-green-700 dark:text-green-400">
+                  {formatValue(after[field])}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Penjelajah audit log dengan filter journey, user, dan aksi
+ * Filter disimpan di URL search params, halaman berikutnya dimuat via cursor
+ */
+export function AuditLogViewer({
+  initialPage,
+  filters,
+  className,
+}: AuditLogViewerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [entries, setEntries] = useState<AuditEntry[]>(initialPage.items);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Navigasi ke URL dengan filter baru
+   */
+  const updateFilters = (changes: Partial<AuditLogFilters>) => {
+    const search = applyAuditFilters({ ...filters, ...changes }).toString();
+    startTransition(() => {
+      router.push(search ? `/admin/audit?${search}` : "/admin/audit");
+    });
+  };
+
+  const loadMore = () => {
+    if (!nextCursor || isPending) return;
+
+    startTransition(async () => {
+      const result = await getAuditLog({ ...filters, cursor: nextCursor });
+      if (!result.success || !result.data) {
+        setError(result.error || "Gagal memuat audit log berikutnya");
+        return;
+      }
+      const page = result.data;
+      setError(null);
+      setEntries((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    });
+  };
+
+  // Label chip filter diambil dari entri yang sedang tampil
+  const milestoneLabel = entries.find(
+    (entry) => entry.milestone_id === filters.milestoneId,
+  )?.milestone_title;
+  const actorLabel = entries.find(
+    (entry) => entry.actor_id === filters.actorId,
+  )?.actor_email;
+
+  return (
+    <div className={cn("flex w-full flex-col gap-4", className)}>
+      {/* Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isPending}>
+              <FileClock className="size-4" />
+              {filters.action
+                ? AUDIT_ACTION_LABELS[filters.action]
+                : "Semua aksi"}
+              <ChevronDown className="size-3.5 opacity-60" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuRadioGroup
+              value={filters.action ?? "all"}
+              onValueChange={(value) =>
+                updateFilters({
+                  action: value === "all" ? undefined : (value as AuditAction),
+                })
+              }
+            >
+              <DropdownMenuRadioItem value="all">
+                Semua aksi
+              </DropdownMenuRadioItem>
+              <DropdownMenuSeparator />
+              {AUDIT_ACTIONS.map((action) => (
+                <DropdownMenuRadioItem key={action} value={action}>
+                  {AUDIT_ACTION_LABELS[action]}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {filters.milestoneId && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => updateFilters({ milestoneId: undefined })}
+            disabled={isPending}
+          >
+            Journey: {milestoneLabel ?? filters.milestoneId.slice(0, 8)}
+            <X className="size-3.5" />
+          </Button>
+        )}
+        {filters.actorId && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => updateFilters({ actorId: undefined })}
+            disabled={isPending}
+          >
+            User: {actorLabel ?? filters.actorId.slice(0, 8)}
+            <X className="size-3.5" />
+          </Button>
+        )}
+        {isPending && (
+          <Loader2 className="size-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {/* Daftar entri */}
+      {entries.length === 0 ? (
+        <p className="py-12 text-center text-sm text-muted-foreground">
+          Belum ada catatan untuk filter ini.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {entries.map((entry) => {
+            const Icon = ACTION_ICONS[entry.action] ?? Pencil;
+            const hasDiff = entry.before || entry.after;
+
+            return (
+              <li key={entry.id} className="space-y-2 p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="flex flex-wrap items-center gap-x-1.5 text-sm">
+                      <Icon
+                        className={cn(
+                          "size-3.5 shrink-0",
+                          (entry.action.endsWith(".delete") ||
+                            entry.action === "milestone.purge") &&
+                            "text-destructive",
+                        )}
+                      />
+                      <span className="font-medium">
+                        {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                      </span>
+                      {entry.milestone_id && (
+                        <button
+                          type="button"
+                          className="truncate text-left underline-offset-4 hover:underline"
+                          onClick={() =>
+                            updateFilters({
+                              milestoneId: entry.milestone_id ?? undefined,
+                            })
+                          }
+                        >
+                          &ldquo;{entry.milestone_title ?? "Tanpa judul"}
+                          &rdquo;
+                        </button>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      oleh{" "}
+                      {entry.actor_id ? (
+                        <button
+                          type="button"
+                          className="underline-offset-4 hover:text-foreground hover:underline"
+                          onClick={() =>
+                            updateFilters({
+                              actorId: entry.actor_id ?? undefined,
+                            })
+                          }
+                        >
+                          {entry.actor_email ?? entry.actor_id.slice(0, 8)}
+                        </button>
+                      ) : (
+                        "user terhapus"
+                      )}
+                      {entry.ip && ` · ${entry.ip}`}
+                    </p>
+                  </div>
+                  <time
+                    dateTime={entry.created_at}
+                    title={format(
+                      new Date(entry.created_at),
+                      "d MMM yyyy HH:mm:ss",
+                      { locale: id },
+                    )}
+                    className="shrink-0 text-xs text-muted-foreground"
+                  >
+                    {formatDistanceToNow(new Date(entry.created_at), {
+                      addSuffix: true,
+                      locale: id,
+                    })}
+                  </time>
+                </div>
+
+                {hasDiff && (
+                  <details className="group text-xs">
+                    <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+                      Lihat perubahan
+                    </summary>
+                    <div className="mt-2 space-y-2">
+                      <AuditDiff before={entry.before} after={entry.after} />
+                      {entry.user_agent && (
+                        <p className="break-all text-muted-foreground">
+                          {entry.user_agent}
+                        </p>
+                      )}
+                    </div>
+                  </details>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && <p className="text-center text-sm text-destructive">{error}</p>}
+      {nextCursor && (
+        <div className="flex justify-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadMore}
+            disabled={isPending}
+          >
+            {isPending && <Loader2 className="size-4 animate-spin" />}
+            Muat lebih banyak
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  AtSign,
+  Copy,
+  Globe,
+  Link2,
+  Loader2,
+  Plus,
+  ShieldCheck,
+  Trash2,
+} from "lucide-react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import { Input } from "@/components/shadcn/input";
+import { ExpirySelect } from "@/components/molecules/expiry-select";
+import { RoleSelect } from "@/components/molecules/role-select";
+import {
+  addAllowlistEntry,
+  createInviteLink,
+  removeAllowlistEntry,
+  revokeInviteLink,
+} from "@/lib/actions/invites";
+import { ROLE_LABELS } from "@/lib/permissions";
+import type {
+  AllowlistEntry,
+  AllowlistKind,
+  InviteLink,
+} from "@/lib/types/invites";
+import type { Role } from "@/lib/types/roles";
+
+interface InviteManagerProps {
+  initialAllowlist: AllowlistEntry[];
+  initialInvites: InviteLink[];
+  className?: string;
+}
+
+const ALLOWLIST_EXPIRY_OPTIONS = [
+  { value: "permanent", label: "Permanen" },
+  { value: "30", label: "30 hari" },
+  { value: "90", label: "90 hari" },
+];
+
+const INVITE_EXPIRY_OPTIONS = [
+  { value: "1", label: "1 hari" },
+  { value: "7", label: "7 hari" },
+  { value: "30", label: "30 hari" },
+];
+
+function formatDate(value: string): string {
+  return format(new Date(value), "d MMM yyyy HH:mm", { locale: id });
+}
+
+/**
+ * Status link undangan untuk ditampilkan
+ */
+function getInviteStatus(invite: InviteLink): {
+  label: string;
+  active: boolean;
+} {
+  if (invite.used_at) {
+    return { label: `Terpakai ${formatDate(invite.used_at)}`, active: false };
+  }
+  if (new Date(invite.expires_at) <= new Date()) {
+    return { label: "Kedaluwarsa", active: false };
+  }
+  return {
+    label: `Berlaku sampai ${formatDate(invite.expires_at)}`,
+    active: true,
+  };
+}
+
+/**
+ * Kelola allowlist pendaftaran dan link undangan
+ * Hanya untuk owner (izin user.manage)
+ */
+export function InviteManager({
+  initialAllowlist,
+  initialInvites,
+  className,
+}: InviteManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [allowlist, setAllowlist] =
+    useState<AllowlistEntry[]>(initialAllowlist);
+  const [invites, setInvites] = useState<InviteLink[]>(initialInvites);
+
+  // Form allowlist
+  const [kind, setKind] = useState<AllowlistKind>("email");
+  const [value, setValue] = useState("");
+  const [allowlistRole, setAllowlistRole] = useState<Role>("viewer");
+  const [allowlistExpiry, setAllowlistExpiry] = useState("permanent");
+
+  // Form link undangan
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("contributor");
+  const [inviteExpiry, setInviteExpiry] = useState("7");
+
+  const copyInviteUrl = async (invite: InviteLink) => {
+    if (!invite.url) return;
+    try {
+      await navigator.clipboard.writeText(invite.url);
+      toast.success("Link undangan disalin");
+    } catch {
+      toast.error("Gagal menyalin link");
+    }
+  };
+
+  const handleAddAllowlist = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+
+    startTransition(async () => {
+      const result = await addAllowlistEntry({
+        kind,
+        value: value.trim(),
+        role: allowlistRole,
+        expires_in_days:
+          allowlistExpiry === "permanent" ? undefined : Number(allowlistExpiry),
+      });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal menambahkan allowlist");
+        return;
+      }
+      setAllowlist((prev) => [...prev, result.data!]);
+      setValue("");
+      toast.success("Allowlist ditambahkan");
+      router.refresh();
+    });
+  };
+
+  const handleRemoveAllowlist = (entryId: string) => {
+    startTransition(async () => {
+      const result = await removeAllowlistEntry(entryId);
+      if (!result.success) {
+        toast.error(result.error || "Gagal menghapus allowlist");
+        return;
+      }
+      setAllowlist((prev) => prev.filter((entry) => entry.id !== entryId));
+      toast.success("Allowlist dihapus");
+      router.refresh();
+    });
+  };
+
+  const handleCreateInvite = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    startTransition(async () => {
+      const result = await createInviteLink({
+        role: inviteRole,
+        email: inviteEmail.trim() || undefined,
+        expires_in_days: Number(inviteExpiry),
+      });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal membuat link undangan");
+        return;
+      }
+      setInvites((prev) => [result.data!, ...prev]);
+      setInviteEmail("");
+      await copyInviteUrl(result.data);
+      router.refresh();
+    });
+  };
+
+  const handleRevokeInvite = (inviteId: string) => {
+    startTransition(async () => {
+      const result = await revokeInviteLink(inviteId);
+      if (!result.success) {
+        toast.error(result.error || "Gagal mencabut link undangan");
+        return;
+      }
+      setInvites((prev) => prev.filter((invite) => invite.id !== inviteId));
+      toast.success("Link undangan dicabut");
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className={cn("flex w-full flex-col gap-6", className)}>
+      {/* Allowlist */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="size-5" />
+            Allowlist Pendaftaran
+          </CardTitle>
+          <CardDescription>
+            Email atau domain yang boleh mendaftar via Google maupun Email OTP
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleAddAllowlist} className="space-y-3">
+            <div className="flex gap-2">
+              <div className="flex shrink-0 rounded-md border p-0.5">
+                {(["email", "domain"] as const).map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={kind === option ? "default" : "ghost"}
+                    aria-pressed={kind === option}
+                    onClick={() => setKind(option)}
+                    disabled={isPending}
+                    className="h-7"
+                  >
+                    {option === "email" ? (
+                      <AtSign className="size-3.5" />
+                    ) : (
+                      <Globe className="size-3.5" />
+                    )}
+                    {option === "email" ? "Email" : "Domain"}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                placeholder={
+                  kind === "email" ? "nama@contoh.com" : "gkygerendeng.org"
+                }
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                disabled={isPending}
+              />
+            </div>
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <RoleSelect
+                value={allowlistRole}
+                onChange={setAllowlistRole}
+                disabled={isPending}
+              />
+              <ExpirySelect
+                value={allowlistExpiry}
+                options={ALLOWLIST_EXPIRY_OPTIONS}
+                onChange={setAllowlistExpiry}
+                disabled={isPending}
+              />
+              <Button
+                type="submit"
+                size="sm"
+                disabled={isPending || !value.trim()}
+              >
+                {isPending ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : (
+                  <Plus className="size-4" />
+                )}
+                Tambah
+              </Button>
+            </div>
+          </form>
+
+          {allowlist.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Allowlist kosong. Hanya user terdaftar dan pemegang link undangan
+              yang bisa login.
+            </p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {allowlist.map((entry) => {
+                const expired =
+                  !!entry.expires_at &&
+                  new Date(entry.expires_at) <= new Date();
+
+                return (
+                  <li
+                    key={entry.id}
+                    className={cn(
+                      "flex items-center justify-between gap-3 p-3",
+                      expired && "opacity-60",
+                    )}
+                  >
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="flex items-center gap-1.5 truncate font-medium">
+                        {entry.kind === "email" ? (
+                          <AtSign className="size-3.5 shrink-0" />
+                        ) : (
+                          <Globe className="size-3.5 shrink-0" />
+                        )}
+                        {entry.kind === "domain"
+                          ? `*@${entry.value}`
+                          : entry.value}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {ROLE_LABELS[entry.role]} ·{" "}
+                        {entry.expires_at
+                          ? expired
+                            ? "Kedaluwarsa"
+                            : `Sampai ${formatDate(entry.expires_at)}`
+                          : "Permanen"}
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="size-8 shrink-0 text-destructive hover:text-destructive"
+                      aria-label="Hapus dari allowlist"
+                      onClick={() => handleRemoveAllowlist(entry.id)}
+                      disabled={isPending}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Link undangan */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="size-5" />
+            Link Undangan
+          </CardTitle>
+          <CardDescription>
+            Link sekali pakai yang kedaluwarsa, bisa dibatasi untuk satu email
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleCreateInvite} className="space-y-3">
+            <Input
+              type="email"
+              placeholder="Batasi untuk email tertentu (opsional)"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              disabled={isPending}
+            />
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <RoleSelect
+                value={inviteRole}
+                onChange={setInviteRole}
+                disabled={isPending}
+              />
+              <ExpirySelect
+                value={inviteExpiry}
+                options={INVITE_EXPIRY_OPTIONS}
+                onChange={setInviteExpiry}
+                disabled={isPending}
+              />
+              <Button type="submit" size="sm" disabled={isPending}>
+                {isPending ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : (
+                  <Link2 className="size-4" />
+                )}
+                Buat link
+              </Button>
+            </div>
+          </form>
+
+          {invites.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Belum ada link undangan.
+            </p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {invites.map((invite) => {
+                const status = getInviteStatus(invite);
+
+                return (
+                  <li
+                    key={invite.id}
+                    className={cn(
+                      "flex items-center justify-between gap-3 p-3",
+                      !status.active && "opacity-60",
+                    )}
+                  >
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="truncate font-medium">
+                        {ROLE_LABELS[invite.role]}
+                        <span className="font-normal text-muted-foreground">
+                          {" "}
+                          · {invite.email ?? "Siapa saja"}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {status.label}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      {status.active && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="size-8"
+                          aria-label="Salin link undangan"
+                          onClick={() => copyInviteUrl(invite)}
+                        >
+                          <Copy className="size-4" />
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8 text-destructive hover:text-destructive"
+                        aria-label="Cabut link undangan"
+                        onClick={() => handleRevokeInvite(invite.id)}
+                        disabled={isPending}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -23,6 +23,10 @@ const ERROR_MESSAGES: Record<string, string> = {
   signup_disabled:
     "Pendaftaran tidak dibuka. Silakan hubungi administrator jika Anda memerlukan akses.",
   auth_callback_error: "Terjadi kesalahan saat login. Silakan coba lagi.",
+  not_invited:
+    "Email belum diundang. Silakan hubungi administrator jika Anda memerlukan akses.",
+  invite_invalid:
+    "Link undangan tidak valid, sudah dipakai, atau sudah kedaluwarsa.",
 };
 
 export function LoginForm({
@@ -37,6 +41,7 @@ export function LoginForm({
   const [isPendingGoogle, startGoogleTransition] = useTransition();
 
   const isLoading = isPendingOTP || isPendingGoogle;
+  const inviteAccepted = searchParams.get("invite") === "accepted";
 
   // Periksa error di URL params atau hash (dari callback OAuth)
   // Supabase OAuth mengembalikan error di URL hash fragment (setelah #)
@@ -128,6 +133,14 @@ export function LoginForm({
             <h1 className="text-xl font-bold">GKY Gerendeng Journey</h1>
           </div>
 
+          {/* Undangan diterima */}
+          {inviteAccepted && !error && (
+            <div className="rounded-md bg-green-500/10 p-3 text-center text-sm text-green-600 dark:text-green-400">
+              Undangan diterima. Silakan login dengan Google atau email untuk
+              melanjutkan.
+            </div>
+          )}
+
           {/* Pesan Error */}
           {error && (
             <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
@@ -0,0 +1,442 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+import { Loader2, MessageSquare, Pencil, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import { Textarea } from "@/components/shadcn/textarea";
+import { MarkdownContent } from "@/components/molecules/markdown-content";
+import { createClient } from "@/lib/supabase/client";
+import {
+  createComment,
+  deleteComment,
+  getMilestoneComments,
+  getMilestoneReactions,
+  toggleReaction,
+  updateComment,
+} from "@/lib/actions/comments";
+import {
+  MAX_COMMENT_LENGTH,
+  REACTION_EMOJIS,
+  isCommentEdited,
+} from "@/lib/comments";
+import { can } from "@/lib/permissions";
+import type { MilestoneComment, ReactionSummary } from "@/lib/types/comments";
+import type { AccessContext } from "@/lib/types/roles";
+
+interface MilestoneCommentsProps {
+  milestoneId: string;
+  access: AccessContext;
+  className?: string;
+}
+
+function formatCommentTime(value: string): string {
+  return formatDistanceToNow(new Date(value), { addSuffix: true, locale: id });
+}
+
+/**
+ * Kirim dengan Ctrl/Cmd + Enter
+ */
+function isSubmitShortcut(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+  return e.key === "Enter" && (e.ctrlKey || e.metaKey);
+}
+
+/**
+ * Tombol reaksi emoji, jumlah diambil dari ringkasan reaksi
+ */
+function ReactionBar({
+  reactions,
+  onToggle,
+  disabled,
+}: {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {REACTION_EMOJIS.map((emoji) => {
+        const summary = reactions.find((item) => item.emoji === emoji);
+        return (
+          <button
+            key={emoji}
+            type="button"
+            aria-pressed={!!summary?.reacted}
+            aria-label={`Reaksi ${emoji}`}
+            disabled={disabled}
+            onClick={() => onToggle(emoji)}
+            className={cn(
+              "flex h-7 items-center gap-1 rounded-full border px-2 text-sm transition-colors cursor-pointer disabled:cursor-not-allowed disabled:opacity-60",
+              summary?.reacted
+                ? "border-primary bg-primary/10"
+                : "hover:bg-muted/50",
+            )}
+          >
+            <span>{emoji}</span>
+            {summary && (
+              <span className="text-xs tabular-nums text-muted-foreground">
+                {summary.count}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Komentar & reaksi di dialog detail milestone
+ * - Member yang login bisa berkomentar (Markdown ringan) dan memberi reaksi
+ * - Edit/hapus komentar sendiri; comment.moderate boleh menghapus komentar siapa pun
+ * - Perubahan dari user lain masuk real-time lewat Supabase Realtime selama
+ *   dialog terbuka (data tetap diambil ulang lewat server action)
+ */
+export function MilestoneComments({
+  milestoneId,
+  access,
+  className,
+}: MilestoneCommentsProps) {
+  const [comments, setComments] = useState<MilestoneComment[]>([]);
+  const [reactions, setReactions] = useState<ReactionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const isSignedIn = !!access.userId;
+  const canModerate = can(access, "comment.moderate");
+
+  // Muat awal + langganan perubahan real-time untuk milestone ini
+  useEffect(() => {
+    let active = true;
+
+    const loadComments = async () => {
+      const result = await getMilestoneComments(milestoneId);
+      if (!active) return;
+      if (result.success && result.data) setComments(result.data);
+      setIsLoading(false);
+    };
+
+    const loadReactions = async () => {
+      const result = await getMilestoneReactions(milestoneId);
+      if (active && result.success && result.data) setReactions(result.data);
+    };
+
+    void loadComments();
+    void loadReactions();
+
+    const supabase = createClient();
+    const filter = `milestone_id=eq.${milestoneId}`;
+
+    // Event DELETE tidak bisa difilter per kolom, jadi dicocokkan manual
+    const channel = supabase
+      .channel(`milestone-comments:${milestoneId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "milestone_comments",
+          filter,
+        },
+        () => void loadComments(),
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "milestone_comments",
+          filter,
+        },
+        () => void loadComments(),
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "milestone_comments" },
+        (payload) => {
+          const deletedId = (payload.old as { id?: string }).id;
+          setComments((prev) =>
+            prev.filter((comment) => comment.id !== deletedId),
+          );
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "milestone_reactions",
+          filter,
+        },
+        () => void loadReactions(),
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "milestone_reactions" },
+        (payload) => {
+          const old = payload.old as { milestone_id?: string };
+          if (old.milestone_id === milestoneId) void loadReactions();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      active = false;
+      void supabase.removeChannel(channel);
+    };
+  }, [milestoneId]);
+
+  /**
+   * Kirim komentar baru
+   */
+  const handleSubmit = () => {
+    if (!draft.trim()) return;
+
+    startTransition(async () => {
+      const result = await createComment({
+        milestone_id: milestoneId,
+        body: draft,
+      });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal mengirim komentar");
+        return;
+      }
+      const comment = result.data;
+      setComments((prev) =>
+        prev.some((item) => item.id === comment.id) ? prev : [...prev, comment],
+      );
+      setDraft("");
+    });
+  };
+
+  const startEdit = (comment: MilestoneComment) => {
+    setEditingId(comment.id);
+    setEditBody(comment.body);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditBody("");
+  };
+
+  /**
+   * Simpan perubahan komentar yang sedang diedit
+   */
+  const handleSaveEdit = () => {
+    if (!editingId || !editBody.trim()) return;
+
+    startTransition(async () => {
+      const result = await updateComment({ id: editingId, body: editBody });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal mengedit komentar");
+        return;
+      }
+      const updated = result.data;
+      setComments((prev) =>
+        prev.map((item) => (item.id === updated.id ? updated : item)),
+      );
+      cancelEdit();
+    });
+  };
+
+  const handleDelete = (comment: MilestoneComment) => {
+    const isOwn = comment.created_by === access.userId;
+    if (
+      !confirm(
+        isOwn
+          ? "Hapus komentar ini?"
+          : `Hapus komentar dari ${comment.created_by_email ?? "user ini"}?`,
+      )
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await deleteComment(comment.id);
+      if (!result.success) {
+        toast.error(result.error || "Gagal menghapus komentar");
+        return;
+      }
+      setComments((prev) => prev.filter((item) => item.id !== comment.id));
+      toast.success("Komentar dihapus");
+    });
+  };
+
+  const handleToggleReaction = (emoji: string) => {
+    startTransition(async () => {
+      const result = await toggleReaction({ milestone_id: milestoneId, emoji });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal menyimpan reaksi");
+        return;
+      }
+      setReactions(result.data);
+    });
+  };
+
+  return (
+    <div className={cn("space-y-4 border-t pt-4", className)}>
+      <ReactionBar
+        reactions={reactions}
+        onToggle={handleToggleReaction}
+        disabled={!isSignedIn || isPending}
+      />
+
+      <div className="space-y-3">
+        <h3 className="flex items-center gap-2 text-sm font-medium">
+          <MessageSquare className="size-4" />
+          Komentar
+          {comments.length > 0 && (
+            <span className="text-muted-foreground">({comments.length})</span>
+          )}
+        </h3>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="size-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Belum ada komentar.</p>
+        ) : (
+          <ul className="space-y-3">
+            {comments.map((comment) => {
+              const isOwn =
+                !!access.userId && comment.created_by === access.userId;
+              const isEditing = editingId === comment.id;
+
+              return (
+                <li key={comment.id} className="group space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="min-w-0 truncate text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">
+                        {comment.created_by_email ?? "user terhapus"}
+                      </span>
+                      {" · "}
+                      {formatCommentTime(comment.created_at)}
+                      {isCommentEdited(comment) && " · diedit"}
+                    </p>
+                    {!isEditing && (isOwn || canModerate) && (
+                      <div className="flex shrink-0 gap-0.5">
+                        {isOwn && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-6"
+                            aria-label="Edit komentar"
+                            onClick={() => startEdit(comment)}
+                            disabled={isPending}
+                          >
+                            <Pencil className="size-3" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="size-6 text-destructive hover:text-destructive"
+                          aria-label="Hapus komentar"
+                          onClick={() => handleDelete(comment)}
+                          disabled={isPending}
+                        >
+                          <Trash2 className="size-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={editBody}
+                        onChange={(e) => setEditBody(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (isSubmitShortcut(e)) handleSaveEdit();
+                          if (e.key === "Escape") {
+                            e.stopPropagation();
+                            cancelEdit();
+                          }
+                        }}
+                        maxLength={MAX_COMMENT_LENGTH}
+                        disabled={isPending}
+                        aria-label="Edit komentar"
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={cancelEdit}
+                          disabled={isPending}
+                        >
+                          Batal
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={handleSaveEdit}
+                          disabled={isPending || !editBody.trim()}
+                        >
+                          {isPending && (
+                            <Loader2 className="size-3.5 animate-spin" />
+                          )}
+                          Simpan
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <MarkdownContent
+                      content={comment.body}
+                      lite
+                      className="break-words"
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {isSignedIn ? (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Tulis komentar... (Markdown: **tebal**, _miring_, [link](https://...))"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (isSubmitShortcut(e)) handleSubmit();
+              }}
+              maxLength={MAX_COMMENT_LENGTH}
+              disabled={isPending}
+              aria-label="Tulis komentar"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">
+                Ctrl + Enter untuk mengirim
+              </span>
+              <Button
+                size="sm"
+                onClick={handleSubmit}
+                disabled={isPending || !draft.trim()}
+              >
+                {isPending ? (
+                  <Loader2 className="size-3.5 animate-spin" />
+                ) : (
+                  <Send className="size-3.5" />
+                )}
+                Kirim
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Login untuk berkomentar dan memberi reaksi.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,17 @@
 "use client";
 
-import { useState, useTransition, useRef } from "react";
+import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import {
+  Archive,
   Loader2,
   CalendarIcon,
+  FilePen,
   FileText,
+  Globe,
+  Tags,
   Trash2,
   Upload,
-  X,
-  ExternalLink,
 } from "lucide-react";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
@@ -32,7 +34,6 @@ import {
   FieldError,
 } from "@/components/shadcn/field";
 import { Input } from "@/components/shadcn/input";
-import { Textarea } from "@/components/shadcn/textarea";
 import { Calendar } from "@/components/shadcn/calendar";
 import {
   Popover,
@@ -48,30 +49,92 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/shadcn/dialog";
-import { updateMilestone, deleteMilestone } from "@/lib/actions/milestones";
 import {
-  uploadMilestoneImage,
-  deleteMilestoneImage,
-} from "@/lib/actions/storage";
-import type { Milestone } from "@/lib/types/milestones";
+  GalleryUpload,
+  toGalleryItems,
+  uploadGalleryItems,
+  type GalleryItem,
+} from "@/components/molecules/gallery-upload";
+import { TagPicker } from "@/components/molecules/tag-picker";
+import { MarkdownEditor } from "@/components/molecules/markdown-editor";
+import { SchedulePicker } from "@/components/molecules/schedule-picker";
+import {
+  MilestoneConflictDialog,
+  toMilestoneFormValues,
+  type MilestoneFormValues,
+} from "@/components/molecules/milestone-conflict-dialog";
+import {
+  updateMilestone,
+  deleteMilestone,
+  restoreMilestone,
+} from "@/lib/actions/milestones";
+import { ANONYMOUS_ACCESS, can } from "@/lib/permissions";
+import { MAX_DESCRIPTION_LENGTH } from "@/lib/markdown";
+import { getEffectiveStatus, toDateTimeLocal } from "@/lib/milestone-status";
+import type {
+  Milestone,
+  MilestoneImageInput,
+  MilestoneStatus,
+} from "@/lib/types/milestones";
+import type { AccessContext } from "@/lib/types/roles";
+import type { Tag } from "@/lib/types/tags";
 
 interface MilestoneEditFormProps {
   milestone: Milestone;
+  tags?: Tag[];
+  access?: AccessContext;
   className?: string;
 }
 
-const MAX_FILE_SIZE = 1000 * 1024; // 1MB
-const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+/**
+ * Item gallery yang baru di-upload diganti dengan key hasil upload,
+ * agar tidak di-upload ulang saat menyimpan setelah konflik
+ */
+function markGalleryUploaded(
+  items: GalleryItem[],
+  images: MilestoneImageInput[],
+): GalleryItem[] {
+  return items.map((item, index) =>
+    item.file && images[index]
+      ? {
+          ...item,
+          file: undefined,
+          image_key: images[index].image_key,
+          variants: images[index].variants,
+        }
+      : item,
+  );
+}
+
+/**
+ * Nilai awal pilihan jadwal: waktu terbit jika journey masih terjadwal
+ */
+function getInitialSchedule(milestone: Milestone): string | null {
+  return getEffectiveStatus(milestone) === "scheduled" && milestone.publish_at
+    ? toDateTimeLocal(milestone.publish_at)
+    : null;
+}
 
 export function MilestoneEditForm({
   milestone,
+  tags = [],
+  access = ANONYMOUS_ACCESS,
   className,
 }: MilestoneEditFormProps) {
+  const canPublish = can(access, "milestone.publish");
+  const canDelete = can(access, "milestone.delete");
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [isDeleting, startDeleteTransition] = useTransition();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Versi milestone yang menjadi dasar form (berganti setelah penggabungan konflik)
+  const [base, setBase] = useState<Milestone>(milestone);
+  const [conflict, setConflict] = useState<{
+    latest: Milestone;
+    mine: MilestoneFormValues;
+    status?: MilestoneStatus;
+  } | null>(null);
 
   // Form state dengan initial values dari milestone
   const [title, setTitle] = useState(milestone.title);
@@ -79,43 +142,75 @@ export function MilestoneEditForm({
   const [eventDate, setEventDate] = useState<Date | undefined>(
     new Date(milestone.event_date),
   );
-  const [existingImageUrl, setExistingImageUrl] = useState(
-    milestone.image_url || "",
+  const [galleryItems, setGalleryItems] = useState<GalleryItem[]>(() =>
+    toGalleryItems(milestone.images),
+  );
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>(
+    {},
+  );
+  const [tagIds, setTagIds] = useState<string[]>(() =>
+    (milestone.tags ?? []).map((tag) => tag.id),
   );
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [removeExistingImage, setRemoveExistingImage] = useState(false);
-  const [dragActive, setDragActive] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState<string | null>(() =>
+    getInitialSchedule(milestone),
+  );
+  const effectiveStatus = getEffectiveStatus(base);
 
   // Feedback state
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
-  // Preview URL
-  const previewUrl = imageFile
-    ? URL.createObjectURL(imageFile)
-    : removeExistingImage
-      ? null
-      : existingImageUrl;
+  /**
+   * Isi form saat ini
+   */
+  const getFormValues = (): MilestoneFormValues => ({
+    title,
+    description,
+    eventDate,
+    tagIds,
+    galleryItems,
+  });
+
+  /**
+   * Mengisi form dengan nilai tertentu
+   */
+  const setFormValues = (values: MilestoneFormValues) => {
+    setTitle(values.title);
+    setDescription(values.description);
+    setEventDate(values.eventDate);
+    setTagIds(values.tagIds);
+    setGalleryItems(values.galleryItems);
+  };
 
   /**
    * Validasi form sebelum submit
    */
-  const validateForm = (): boolean => {
+  const validateForm = (
+    values: MilestoneFormValues,
+    status?: MilestoneStatus,
+  ): boolean => {
     const errors: Record<string, string> = {};
 
-    if (!title.trim()) {
+    if (!values.title.trim()) {
       errors.title = "Judul wajib diisi";
-    } else if (title.length > 200) {
+    } else if (values.title.length > 200) {
       errors.title = "Judul maksimal 200 karakter";
     }
 
-    if (!eventDate) {
+    if (!values.eventDate) {
       errors.eventDate = "Tanggal wajib diisi";
     }
 
-    if (description.length > 2000) {
-      errors.description = "Deskripsi maksimal 2000 karakter";
+    if (values.description.length > MAX_DESCRIPTION_LENGTH) {
+      errors.description = `Deskripsi maksimal ${MAX_DESCRIPTION_LENGTH} karakter`;
+    }
+
+    if (
+      status === "scheduled" &&
+      (!scheduleAt || new Date(scheduleAt).getTime() <= Date.now())
+    ) {
+      errors.publishAt = "Jadwal publikasi harus di masa mendatang";
     }
 
     setFieldErrors(errors);
@@ -123,125 +218,195 @@ export function MilestoneEditForm({
   };
 
   /**
-   * Validasi file gambar
+   * Simpan perubahan dengan status tertentu
+   * Tanpa status (kontributor), status journey tidak diubah.
+   * expectedUpdatedAt dikirim agar server menolak jika ada yang menyimpan lebih dulu.
    */
-  const validateFile = (file: File): string | null => {
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return "Tipe file tidak didukung. Gunakan JPEG, PNG, atau WebP.";
-    }
-    if (file.size > MAX_FILE_SIZE) {
-      return `Ukuran file terlalu besar (${(file.size / 1024).toFixed(0)}KB). Maksimal 1MB.`;
+  const saveMilestone = (
+    status?: MilestoneStatus,
+    values: MilestoneFormValues = getFormValues(),
+    expectedUpdatedAt: string = base.updated_at,
+  ) => {
+    setError(null);
+    setSuccess(null);
+
+    if (!validateForm(values, status)) {
+      return;
     }
-    return null;
+
+    startTransition(async () => {
+      // Upload gambar baru di gallery
+      setUploadProgress({});
+      const upload = await uploadGalleryItems(
+        values.galleryItems,
+        (itemId, percent) =>
+          setUploadProgress((prev) => ({ ...prev, [itemId]: percent })),
+      );
+      if (upload.error) {
+        setError(upload.error);
+        return;
+      }
+
+      const result = await updateMilestone({
+        id: milestone.id,
+        title: values.title.trim(),
+        description: values.description.trim() || undefined,
+        event_date: values.eventDate
+          ? format(values.eventDate, "yyyy-MM-dd")
+          : undefined,
+        images: upload.images ?? [],
+        tag_ids: values.tagIds,
+        status,
+        publish_at:
+          status === "scheduled" && scheduleAt
+            ? new Date(scheduleAt).toISOString()
+            : undefined,
+        expected_updated_at: expectedUpdatedAt,
+      });
+
+      // Ada yang menyimpan lebih dulu: tampilkan dialog penggabungan
+      if (result.conflict) {
+        const uploadedItems = markGalleryUploaded(
+          values.galleryItems,
+          upload.images ?? [],
+        );
+        setGalleryItems(uploadedItems);
+        setConflict({
+          latest: result.conflict,
+          mine: { ...values, galleryItems: uploadedItems },
+          status,
+        });
+        return;
+      }
+
+      if (result.success) {
+        // Gambar yang dikeluarkan dari gallery tidak dihapus dari storage
+        // karena masih dipakai riwayat versi (lihat job GC storage)
+        setSuccess(
+          status === "scheduled"
+            ? "Journey berhasil dijadwalkan!"
+            : status === "archived"
+              ? "Journey diarsipkan!"
+              : status === "draft" && effectiveStatus !== "draft"
+                ? "Journey dikembalikan ke draft!"
+                : "Milestone berhasil diperbarui!",
+        );
+
+        // Redirect ke home setelah 1.5 detik
+        setTimeout(() => {
+          router.push("/");
+          router.refresh();
+        }, 1500);
+      } else {
+        setError(result.error || "Gagal memperbarui milestone");
+      }
+    });
   };
 
   /**
-   * Handle file selection
+   * Submit form: publikasikan/jadwalkan untuk editor+, kontributor tetap draft
    */
-  const handleFileSelect = (file: File) => {
-    const error = validateFile(file);
-    if (error) {
-      setFieldErrors((prev) => ({ ...prev, image: error }));
-      return;
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!canPublish) {
+      saveMilestone();
+    } else {
+      saveMilestone(scheduleAt ? "scheduled" : "published");
     }
-    setFieldErrors((prev) => ({ ...prev, image: "" }));
-    setImageFile(file);
-    setRemoveExistingImage(false);
   };
 
   /**
-   * Handle file input change
+   * Simpan hasil penggabungan di atas versi terbaru
    */
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFileSelect(file);
+  const handleMerge = (values: MilestoneFormValues) => {
+    if (!conflict) return;
+    const { latest, status } = conflict;
+
+    setFormValues(values);
+    setBase(latest);
+    setConflict(null);
+    saveMilestone(status, values, latest.updated_at);
   };
 
   /**
-   * Handle drag and drop
+   * Buang perubahan dan muat ulang form dengan versi terbaru
+   * (form di-remount karena key updated_at di halaman berubah)
    */
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    setDragActive(false);
-    const file = e.dataTransfer.files[0];
-    if (file) handleFileSelect(file);
+  const handleUseLatest = () => {
+    setConflict(null);
+    toast.info("Form dimuat ulang dengan versi terbaru");
+    router.refresh();
   };
 
   /**
-   * Handle form submission
+   * Tutup dialog konflik tanpa menyimpan
    */
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setError(null);
-    setSuccess(null);
-
-    if (!validateForm()) {
-      return;
-    }
+  const handleCancelConflict = () => {
+    setConflict(null);
+    setError(
+      "Journey sudah diubah oleh user lain. Simpan lagi untuk membandingkan perubahan.",
+    );
+  };
 
+  /**
+   * Arsipkan journey (hanya status, isi form tidak ikut disimpan)
+   * Jika ada yang menyimpan lebih dulu, dialog penggabungan tampil seperti
+   * saat menyimpan; hasil penggabungan disimpan dengan status arsip
+   */
+  const handleArchive = () => {
     startTransition(async () => {
-      let imageUrl: string | undefined = existingImageUrl || undefined;
-
-      // Upload gambar baru jika ada
-      if (imageFile) {
-        const formData = new FormData();
-        formData.append("image", imageFile);
-
-        const uploadResult = await uploadMilestoneImage(formData);
-        if (!uploadResult.success) {
-          setError(uploadResult.error || "Gagal mengupload gambar");
-          return;
-        }
-        imageUrl = uploadResult.url;
-
-        // Hapus gambar lama jika ada
-        if (existingImageUrl) {
-          await deleteMilestoneImage(existingImageUrl);
-        }
-      } else if (removeExistingImage && existingImageUrl) {
-        // Hapus gambar lama tanpa mengganti
-        await deleteMilestoneImage(existingImageUrl);
-        imageUrl = undefined;
-      }
-
       const result = await updateMilestone({
         id: milestone.id,
-        title: title.trim(),
-        description: description.trim() || undefined,
-        event_date: eventDate ? format(eventDate, "yyyy-MM-dd") : undefined,
-        image_url: imageUrl || "",
+        status: "archived",
+        expected_updated_at: base.updated_at,
       });
 
-      if (result.success) {
-        setSuccess("Milestone berhasil diperbarui!");
+      if (result.conflict) {
+        setConflict({
+          latest: result.conflict,
+          mine: getFormValues(),
+          status: "archived",
+        });
+        return;
+      }
 
-        // Redirect ke home setelah 1.5 detik
-        setTimeout(() => {
-          router.push("/");
-          router.refresh();
-        }, 1500);
+      if (result.success) {
+        toast.success("Journey diarsipkan");
+        router.refresh();
       } else {
-        setError(result.error || "Gagal memperbarui milestone");
+        toast.error(result.error || "Gagal mengarsipkan journey");
       }
     });
   };
 
   /**
-   * Handle delete milestone
+   * Batalkan penghapusan dari toast
+   */
+  const handleUndoDelete = async () => {
+    const result = await restoreMilestone(milestone.id);
+    if (result.success) {
+      toast.success("Journey berhasil dipulihkan");
+      router.refresh();
+    } else {
+      toast.error(result.error || "Gagal memulihkan journey");
+    }
+  };
+
+  /**
+   * Handle delete milestone (pindah ke tempat sampah)
+   * Gambar tetap di storage sampai journey dihapus permanen dari /trash
    */
   const handleDelete = () => {
     startDeleteTransition(async () => {
-      // Hapus gambar dari storage jika ada
-      if (existingImageUrl) {
-        await deleteMilestoneImage(existingImageUrl);
-      }
-
       const result = await deleteMilestone(milestone.id);
 
       if (result.success) {
         setDeleteDialogOpen(false);
-        toast.success("Milestone berhasil dihapus!");
-        window.location.href = "/";
+        toast.success("Journey dipindahkan ke sampah", {
+          action: { label: "Undo", onClick: handleUndoDelete },
+        });
+        router.push("/");
+        router.refresh();
       } else {
         toast.error(result.error || "Gagal menghapus milestone");
         setDeleteDialogOpen(false);
@@ -253,16 +418,11 @@ export function MilestoneEditForm({
    * Reset form ke nilai awal
    */
   const handleReset = () => {
-    setTitle(milestone.title);
-    setDescription(milestone.description || "");
-    setEventDate(new Date(milestone.event_date));
-    setExistingImageUrl(milestone.image_url || "");
-    setImageFile(null);
-    setRemoveExistingImage(false);
+    setFormValues(toMilestoneFormValues(base));
+    setScheduleAt(getInitialSchedule(base));
     setError(null);
     setSuccess(null);
     setFieldErrors({});
-    if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
   const isPendingAny = isPending || isDeleting;
@@ -279,46 +439,73 @@ export function MilestoneEditForm({
             <CardDescription>Perbarui informasi journey</CardDescription>
           </div>
 
-          {/* Tombol Delete */}
-          <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="destructive" size="icon" disabled={isPendingAny}>
-                <Trash2 className="size-4" />
+          <div className="flex gap-2">
+            {/* Tombol Arsip */}
+            {canPublish && milestone.status !== "archived" && (
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                title="Arsipkan"
+                aria-label="Arsipkan"
+                onClick={handleArchive}
+                disabled={isPendingAny}
+              >
+                <Archive className="size-4" />
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Hapus Journey?</DialogTitle>
-                <DialogDescription>
-                  Tindakan ini tidak dapat dibatalkan. Journey &quot;
-                  {milestone.title}&quot; akan dihapus secara permanen.
-                </DialogDescription>
-              </DialogHeader>
-              <DialogFooter>
-                <Button
-                  variant="outline"
-                  onClick={() => setDeleteDialogOpen(false)}
-                  disabled={isDeleting}
-                >
-                  Batal
-                </Button>
-                <Button
-                  variant="destructive"
-                  onClick={handleDelete}
-                  disabled={isDeleting}
-                >
-                  {isDeleting ? (
-                    <>
-                      <Loader2 className="mr-2 size-4 animate-spin" />
-                      Menghapus...
-                    </>
-                  ) : (
-                    "Hapus"
-                  )}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+            )}
+
+            {/* Tombol Delete */}
+            {canDelete && (
+              <Dialog
+                open={deleteDialogOpen}
+                onOpenChange={setDeleteDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    disabled={isPendingAny}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Hapus Journey?</DialogTitle>
+                    <DialogDescription>
+                      Journey &quot;{milestone.title}&quot; akan dipindahkan ke
+                      tempat sampah dan masih bisa dipulihkan dari halaman
+                      Sampah.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DialogFooter>
+                    <Button
+                      variant="outline"
+                      onClick={() => setDeleteDialogOpen(false)}
+                      disabled={isDeleting}
+                    >
+                      Batal
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={handleDelete}
+                      disabled={isDeleting}
+                    >
+                      {isDeleting ? (
+                        <>
+                          <Loader2 className="mr-2 size-4 animate-spin" />
+                          Menghapus...
+                        </>
+                      ) : (
+                        "Hapus"
+                      )}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -331,6 +518,14 @@ export function MilestoneEditForm({
               </div>
             )}
 
+            {/* Info Arsip */}
+            {milestone.status === "archived" && (
+              <div className="rounded-md bg-muted p-3 text-center text-sm text-muted-foreground">
+                Journey ini diarsipkan dan hanya terlihat oleh editor.
+                Publikasikan untuk menampilkannya kembali.
+              </div>
+            )}
+
             {/* Pesan Sukses */}
             {success && (
               <div className="rounded-md bg-green-500/10 p-3 text-center text-sm text-green-600 dark:text-green-400">
@@ -417,20 +612,20 @@ export function MilestoneEditForm({
             {/* Deskripsi */}
             <Field>
               <FieldLabel htmlFor="description">Deskripsi</FieldLabel>
-              <Textarea
+              <MarkdownEditor
                 id="description"
-                placeholder="Deskripsi detail tentang journey ini..."
+                placeholder="Deskripsi detail tentang journey ini (mendukung Markdown)..."
                 value={description}
-                onChange={(e) => {
-                  setDescription(e.target.value);
+                onChange={(value) => {
+                  setDescription(value);
                   if (fieldErrors.description) {
                     setFieldErrors((prev) => ({ ...prev, description: "" }));
                   }
                 }}
+                imageUrls={milestone.description_image_urls}
                 disabled={isPendingAny}
-                rows={4}
-                maxLength={2000}
-                className={fieldErrors.description ? "border-destructive" : ""}
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                invalid={!!fieldErrors.description}
               />
               {fieldErrors.description && (
                 <FieldError className="text-destructive">
@@ -438,125 +633,111 @@ export function MilestoneEditForm({
                 </FieldError>
               )}
               <FieldDescription>
-                {description.length}/2000 karakter (opsional)
+                {description.length}/{MAX_DESCRIPTION_LENGTH} karakter
+                (opsional). Tempel atau seret gambar untuk menyisipkannya; tulis{" "}
+                <code>{"{{youtube URL}}"}</code> atau{" "}
+                <code>{"{{instagram URL}}"}</code> di baris sendiri untuk embed.
               </FieldDescription>
             </Field>
 
-            {/* Upload Gambar */}
+            {/* Gallery Gambar */}
             <Field>
               <FieldLabel>
                 <span className="flex items-center gap-2">
                   <Upload className="size-4" />
-                  Gambar
+                  Gallery
                 </span>
               </FieldLabel>
 
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/jpeg,image/png,image/webp"
-                onChange={handleFileChange}
+              <GalleryUpload
+                items={galleryItems}
+                onChange={setGalleryItems}
+                progress={uploadProgress}
                 disabled={isPendingAny}
-                className="hidden"
               />
 
-              {previewUrl ? (
-                <div className="relative rounded-lg border overflow-hidden">
-                  <img
-                    src={previewUrl}
-                    alt="Preview"
-                    className="w-full h-48 object-cover"
-                  />
-                  {!isPendingAny && (
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="icon"
-                      className="absolute top-2 right-2 size-8"
-                      onClick={() => {
-                        if (imageFile) {
-                          setImageFile(null);
-                          if (fileInputRef.current)
-                            fileInputRef.current.value = "";
-                        } else {
-                          setRemoveExistingImage(true);
-                        }
-                      }}
-                    >
-                      <X className="size-4" />
-                    </Button>
-                  )}
-                  {imageFile && (
-                    <div className="absolute bottom-2 left-2 bg-background/80 rounded px-2 py-1 text-xs">
-                      {imageFile.name} ({(imageFile.size / 1024).toFixed(0)}KB)
-                    </div>
-                  )}
-                </div>
-              ) : (
-                <div
-                  onClick={() => !isPendingAny && fileInputRef.current?.click()}
-                  onDragOver={(e) => {
-                    e.preventDefault();
-                    if (!isPendingAny) setDragActive(true);
-                  }}
-                  onDragLeave={() => setDragActive(false)}
-                  onDrop={handleDrop}
-                  className={cn(
-                    "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
-                    dragActive
-                      ? "border-primary bg-primary/5"
-                      : "border-muted-foreground/25 hover:border-primary/50",
-                    isPendingAny && "opacity-50 cursor-not-allowed",
-                    fieldErrors.image && "border-destructive",
-                  )}
-                >
-                  <div className="flex flex-col items-center gap-2">
-                    <div className="rounded-full bg-muted p-3">
-                      <Upload className="size-6 text-muted-foreground" />
-                    </div>
-                    <div className="text-sm font-medium">
-                      Klik atau drag gambar ke sini
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      JPEG, PNG, WebP (max 1MB)
-                    </div>
-                  </div>
-                </div>
-              )}
+              <FieldDescription>
+                Upload gambar untuk journey, atur urutan dan pilih cover
+                (opsional)
+              </FieldDescription>
+            </Field>
 
-              {fieldErrors.image && (
-                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
-                  <p>{fieldErrors.image}</p>
-                  {fieldErrors.image.includes("1MB") && (
-                    <a
-                      href="https://compressjpeg.com/"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center gap-1 mt-1 underline hover:no-underline"
-                    >
-                      Compress gambar di sini
-                      <ExternalLink className="size-3" />
-                    </a>
-                  )}
-                </div>
-              )}
+            {/* Tag */}
+            <Field>
+              <FieldLabel>
+                <span className="flex items-center gap-2">
+                  <Tags className="size-4" />
+                  Tag
+                </span>
+              </FieldLabel>
+              <TagPicker
+                tags={tags}
+                value={tagIds}
+                onChange={setTagIds}
+                disabled={isPending}
+                canManage={can(access, "tag.manage")}
+              />
+              <FieldDescription>
+                Kategori journey, misalnya Ibadah atau Pemuda (opsional)
+              </FieldDescription>
+            </Field>
 
+            {/* Publikasi */}
+            <Field>
+              <FieldLabel>
+                <span className="flex items-center gap-2">
+                  <Globe className="size-4" />
+                  Publikasi
+                </span>
+              </FieldLabel>
+              {canPublish ? (
+                <SchedulePicker
+                  value={scheduleAt}
+                  onChange={(value) => {
+                    setScheduleAt(value);
+                    if (fieldErrors.publishAt) {
+                      setFieldErrors((prev) => ({ ...prev, publishAt: "" }));
+                    }
+                  }}
+                  disabled={isPending}
+                />
+              ) : null}
+              {fieldErrors.publishAt && (
+                <FieldError className="text-destructive">
+                  {fieldErrors.publishAt}
+                </FieldError>
+              )}
               <FieldDescription>
-                Upload gambar untuk journey (opsional)
+                {canPublish
+                  ? "Draft hanya terlihat oleh pembuatnya dan editor; journey terjadwal terbit otomatis pada waktunya"
+                  : "Journey ini masih draft dan perlu dipublikasikan oleh editor"}
               </FieldDescription>
             </Field>
 
             {/* Tombol Aksi */}
-            <div className="flex gap-3 pt-4">
+            <div className="flex flex-wrap gap-3 pt-4">
               <Button
                 type="button"
-                variant="outline"
+                variant="ghost"
                 onClick={handleReset}
                 disabled={isPendingAny}
-                className="flex-1"
               >
                 Reset
               </Button>
+              {canPublish && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => saveMilestone("draft")}
+                  disabled={isPendingAny || !title || !eventDate}
+                  className="flex-1"
+                >
+                  <FilePen className="size-4" />
+                  {effectiveStatus === "draft"
+                    ? "Simpan Draft"
+                    : "Jadikan Draft"}
+                </Button>
+              )}
               <Button
                 type="submit"
                 disabled={isPendingAny || !title || !eventDate}
@@ -567,8 +748,14 @@ export function MilestoneEditForm({
                     <Loader2 className="mr-2 size-4 animate-spin" />
                     Menyimpan...
                   </>
-                ) : (
+                ) : !canPublish ? (
+                  "Simpan Draft"
+                ) : scheduleAt ? (
+                  "Jadwalkan"
+                ) : effectiveStatus === "published" ? (
                   "Simpan Perubahan"
+                ) : (
+                  "Publikasikan"
                 )}
               </Button>
             </div>
@@ -586,6 +773,20 @@ export function MilestoneEditForm({
           </FieldGroup>
         </form>
       </CardContent>
+
+      {conflict && (
+        <MilestoneConflictDialog
+          key={conflict.latest.updated_at}
+          base={toMilestoneFormValues(base)}
+          mine={conflict.mine}
+          latest={conflict.latest}
+          tags={tags}
+          onMerge={handleMerge}
+          onUseLatest={handleUseLatest}
+          onCancel={handleCancelConflict}
+          isPending={isPending}
+        />
+      )}
     </Card>
   );
 }
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import {
+  CalendarDays,
+  ChevronDown,
+  GitCommitVertical,
+  LayoutGrid,
+  Loader2,
+} from "lucide-react";
+import { Button } from "@/components/shadcn/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/shadcn/dropdown-menu";
+import { MilestoneCardGrid } from "@/components/molecules/milestone-card-grid";
+import { MilestoneTimeline } from "@/components/molecules/milestone-timeline";
+import { getMilestones } from "@/lib/actions/milestones";
+import { hasActiveFilters } from "@/lib/milestone-filters";
+import { ANONYMOUS_ACCESS } from "@/lib/permissions";
+import {
+  MILESTONE_VIEW_COOKIE,
+  MILESTONE_VIEW_MAX_AGE,
+  type MilestoneView,
+} from "@/lib/milestone-view";
+import type {
+  Milestone,
+  MilestoneFilters,
+  MilestonePage,
+  MilestoneYear,
+} from "@/lib/types/milestones";
+import type { AccessContext } from "@/lib/types/roles";
+
+interface MilestoneFeedProps {
+  initialPage: MilestonePage;
+  years: MilestoneYear[];
+  filters?: MilestoneFilters;
+  initialView?: MilestoneView;
+  access?: AccessContext;
+}
+
+/**
+ * Feed milestone dengan infinite scroll dan lompat ke tahun
+ * Halaman berikutnya dimuat saat sentinel di bawah grid terlihat
+ * Filter berasal dari URL; beri key berbeda per filter agar state di-reset
+ */
+export function MilestoneFeed({
+  initialPage,
+  years,
+  filters = {},
+  initialView = "grid",
+  access = ANONYMOUS_ACCESS,
+}: MilestoneFeedProps) {
+  const [items, setItems] = useState<Milestone[]>(initialPage.items);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [activeYear, setActiveYear] = useState<number | null>(null);
+  const [view, setView] = useState<MilestoneView>(initialView);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, startTransition] = useTransition();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const total = initialPage.total ?? items.length;
+
+  const emptyMessage = hasActiveFilters(filters)
+    ? "Tidak ada journey yang cocok dengan filter."
+    : undefined;
+
+  // Lompat ke tahun hanya masuk akal untuk urutan tanggal tanpa filter tahun
+  const canJumpToYear =
+    years.length > 0 &&
+    !filters.year &&
+    (!filters.sort || filters.sort === "newest" || filters.sort === "oldest");
+
+  /**
+   * Muat halaman berikutnya dan tambahkan ke daftar
+   */
+  const loadMore = () => {
+    if (!nextCursor || isLoading) return;
+
+    startTransition(async () => {
+      const result = await getMilestones({ ...filters, cursor: nextCursor });
+      if (!result.success || !result.data) {
+        setError(result.error || "Gagal memuat journey berikutnya");
+        return;
+      }
+      const page = result.data;
+      setError(null);
+      setItems((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    });
+  };
+
+  /**
+   * Ganti daftar dengan halaman yang dimulai dari akhir tahun terpilih
+   */
+  const jumpToYear = (year: number | null) => {
+    startTransition(async () => {
+      const result = await getMilestones(
+        year ? { ...filters, startYear: year } : filters,
+      );
+      if (!result.success || !result.data) {
+        setError(result.error || "Gagal memuat journey");
+        return;
+      }
+      const page = result.data;
+      setError(null);
+      setActiveYear(year);
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    });
+  };
+
+  /**
+   * Ganti tampilan grid/timeline dan simpan pilihan di cookie
+   */
+  const changeView = (nextView: MilestoneView) => {
+    setView(nextView);
+    document.cookie = `${MILESTONE_VIEW_COOKIE}=${nextView}; path=/; max-age=${MILESTONE_VIEW_MAX_AGE}; samesite=lax`;
+  };
+
+  // Infinite scroll: muat halaman berikutnya saat sentinel terlihat
+  const loadMoreRef = useRef(loadMore);
+  useEffect(() => {
+    loadMoreRef.current = loadMore;
+  });
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMoreRef.current();
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Ringkasan & lompat ke tahun */}
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {total} journey
+          {activeYear && ` · mulai ${activeYear}`}
+        </p>
+
+        <div className="flex items-center gap-2">
+          {/* Toggle grid / timeline */}
+          <div className="flex rounded-md border p-0.5">
+            <Button
+              variant={view === "grid" ? "secondary" : "ghost"}
+              size="icon"
+              className="size-7"
+              aria-label="Tampilan grid"
+              aria-pressed={view === "grid"}
+              onClick={() => changeView("grid")}
+            >
+              <LayoutGrid className="size-4" />
+            </Button>
+            <Button
+              variant={view === "timeline" ? "secondary" : "ghost"}
+              size="icon"
+              className="size-7"
+              aria-label="Tampilan timeline"
+              aria-pressed={view === "timeline"}
+              onClick={() => changeView("timeline")}
+            >
+              <GitCommitVertical className="size-4" />
+            </Button>
+          </div>
+
+          {canJumpToYear && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isLoading}>
+                  <CalendarDays className="size-4" />
+                  {activeYear ?? "Lompat ke tahun"}
+                  <ChevronDown className="size-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="max-h-72">
+                <DropdownMenuLabel>Lompat ke tahun</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => jumpToYear(null)}>
+                  Terbaru
+                </DropdownMenuItem>
+                {years.map(({ year, count }) => (
+                  <DropdownMenuItem
+                    key={year}
+                    onSelect={() => jumpToYear(year)}
+                    className="justify-between gap-6"
+                  >
+                    <span>{year}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {count}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </div>
+
+      {view === "timeline" ? (
+        <MilestoneTimeline
+          milestones={items}
+          access={access}
+          emptyMessage={emptyMessage}
+        />
+      ) : (
+        <MilestoneCardGrid
+          milestones={items}
+          access={access}
+          emptyMessage={emptyMessage}
+        />
+      )}
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {/* Sentinel infinite scroll */}
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {isLoading && (
+          <Loader2 className="size-5 animate-spin text-muted-foreground" />
+        )}
+        {!isLoading && nextCursor && (
+          <Button variant="ghost" size="sm" onClick={loadMore}>
+            Muat lebih banyak
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
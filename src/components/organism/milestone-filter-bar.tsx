@@ -0,0 +1,340 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { id } from "date-fns/locale";
+import type { DateRange } from "react-day-picker";
+import {
+  ArrowUpDown,
+  CalendarIcon,
+  ChevronDown,
+  ImageIcon,
+  Loader2,
+  Tag as TagIcon,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/shadcn/button";
+import { Calendar } from "@/components/shadcn/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/shadcn/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/shadcn/dropdown-menu";
+import {
+  DEFAULT_MILESTONE_SORT,
+  MILESTONE_SORTS,
+  MILESTONE_SORT_LABELS,
+  applyMilestoneFilters,
+  hasActiveFilters,
+} from "@/lib/milestone-filters";
+import type {
+  MilestoneFilters,
+  MilestoneSort,
+  MilestoneYear,
+} from "@/lib/types/milestones";
+import type { Tag } from "@/lib/types/tags";
+
+interface MilestoneFilterBarProps {
+  filters: MilestoneFilters;
+  years: MilestoneYear[];
+  tags?: Tag[];
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+function formatMonth(month: number): string {
+  return format(new Date(2000, month - 1, 1), "MMMM", { locale: id });
+}
+
+/**
+ * Label tombol rentang tanggal
+ */
+function formatRange(from?: string, to?: string): string {
+  const formatDay = (value: string) =>
+    format(parseISO(value), "d MMM yyyy", { locale: id });
+  if (from && to) return `${formatDay(from)} – ${formatDay(to)}`;
+  if (from) return `Sejak ${formatDay(from)}`;
+  if (to) return `Sampai ${formatDay(to)}`;
+  return "Rentang tanggal";
+}
+
+/**
+ * Kontrol filter & urutan journey di home page
+ * State disimpan di URL search params, filter diterapkan server-side oleh getMilestones
+ */
+export function MilestoneFilterBar({
+  filters,
+  years,
+  tags = [],
+}: MilestoneFilterBarProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [rangeOpen, setRangeOpen] = useState(false);
+  const [range, setRange] = useState<DateRange | undefined>(
+    filters.from || filters.to
+      ? {
+          from: filters.from ? parseISO(filters.from) : undefined,
+          to: filters.to ? parseISO(filters.to) : undefined,
+        }
+      : undefined,
+  );
+
+  /**
+   * Navigasi ke URL dengan filter baru
+   */
+  const updateFilters = (changes: Partial<MilestoneFilters>) => {
+    const next = { ...filters, ...changes };
+    if (!next.year) next.month = undefined;
+
+    const params = applyMilestoneFilters(
+      new URLSearchParams(window.location.search),
+      next,
+    );
+    const search = params.toString();
+    startTransition(() => {
+      router.push(search ? `/?${search}` : "/");
+    });
+  };
+
+  const applyRange = () => {
+    setRangeOpen(false);
+    updateFilters({
+      from: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+      to: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+    });
+  };
+
+  const clearRange = () => {
+    setRange(undefined);
+    setRangeOpen(false);
+    updateFilters({ from: undefined, to: undefined });
+  };
+
+  const resetFilters = () => {
+    setRange(undefined);
+    updateFilters({
+      from: undefined,
+      to: undefined,
+      year: undefined,
+      month: undefined,
+      hasImage: undefined,
+      tag: undefined,
+    });
+  };
+
+  const sort = filters.sort ?? DEFAULT_MILESTONE_SORT;
+  const activeTag = tags.find((tag) => tag.slug === filters.tag);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {/* Urutan */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isPending}>
+            <ArrowUpDown className="size-4" />
+            {MILESTONE_SORT_LABELS[sort]}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Urutkan</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup
+            value={sort}
+            onValueChange={(value) =>
+              updateFilters({ sort: value as MilestoneSort })
+            }
+          >
+            {MILESTONE_SORTS.map((option) => (
+              <DropdownMenuRadioItem key={option} value={option}>
+                {MILESTONE_SORT_LABELS[option]}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Tahun */}
+      {years.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant={filters.year ? "default" : "outline"}
+              size="sm"
+              disabled={isPending}
+            >
+              {filters.year ?? "Tahun"}
+              <ChevronDown className="size-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-72">
+            <DropdownMenuRadioGroup
+              value={filters.year ? String(filters.year) : "all"}
+              onValueChange={(value) =>
+                updateFilters({
+                  year: value === "all" ? undefined : Number(value),
+                })
+              }
+            >
+              <DropdownMenuRadioItem value="all">
+                Semua tahun
+              </DropdownMenuRadioItem>
+              {years.map(({ year }) => (
+                <DropdownMenuRadioItem key={year} value={String(year)}>
+                  {year}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {/* Bulan (butuh tahun) */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={filters.month ? "default" : "outline"}
+            size="sm"
+            disabled={isPending || !filters.year}
+          >
+            {filters.month ? formatMonth(filters.month) : "Bulan"}
+            <ChevronDown className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-72">
+          <DropdownMenuRadioGroup
+            value={filters.month ? String(filters.month) : "all"}
+            onValueChange={(value) =>
+              updateFilters({
+                month: value === "all" ? undefined : Number(value),
+              })
+            }
+          >
+            <DropdownMenuRadioItem value="all">
+              Semua bulan
+            </DropdownMenuRadioItem>
+            {MONTHS.map((month) => (
+              <DropdownMenuRadioItem key={month} value={String(month)}>
+                {formatMonth(month)}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Rentang tanggal */}
+      <Popover open={rangeOpen} onOpenChange={setRangeOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={filters.from || filters.to ? "default" : "outline"}
+            size="sm"
+            disabled={isPending}
+          >
+            <CalendarIcon className="size-4" />
+            {formatRange(filters.from, filters.to)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            captionLayout="dropdown"
+            startMonth={new Date(new Date().getFullYear() - 100, 0)}
+            endMonth={new Date(new Date().getFullYear() + 50, 11)}
+          />
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button variant="ghost" size="sm" onClick={clearRange}>
+              Hapus
+            </Button>
+            <Button size="sm" onClick={applyRange} disabled={!range?.from}>
+              Terapkan
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {/* Tag */}
+      {tags.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant={filters.tag ? "default" : "outline"}
+              size="sm"
+              disabled={isPending}
+            >
+              {activeTag ? (
+                <span
+                  className="size-2 rounded-full"
+                  style={{ backgroundColor: activeTag.color }}
+                />
+              ) : (
+                <TagIcon className="size-4" />
+              )}
+              {activeTag?.name ?? "Tag"}
+              <ChevronDown className="size-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-72">
+            <DropdownMenuRadioGroup
+              value={filters.tag ?? "all"}
+              onValueChange={(value) =>
+                updateFilters({ tag: value === "all" ? undefined : value })
+              }
+            >
+              <DropdownMenuRadioItem value="all">
+                Semua tag
+              </DropdownMenuRadioItem>
+              {tags.map((tag) => (
+                <DropdownMenuRadioItem key={tag.id} value={tag.slug}>
+                  <span
+                    className="size-2 rounded-full"
+                    style={{ backgroundColor: tag.color }}
+                  />
+                  {tag.name}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {/* Dengan gambar */}
+      <Button
+        variant={filters.hasImage ? "default" : "outline"}
+        size="sm"
+        disabled={isPending}
+        aria-pressed={!!filters.hasImage}
+        onClick={() => updateFilters({ hasImage: !filters.hasImage })}
+      >
+        <ImageIcon className="size-4" />
+        Dengan gambar
+      </Button>
+
+      {hasActiveFilters(filters) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isPending}
+          onClick={resetFilters}
+        >
+          <X className="size-4" />
+          Reset
+        </Button>
+      )}
+
+      {isPending && (
+        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 "use client";
 
-import { useState, useTransition, useRef } from "react";
+import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import {
   Loader2,
   CalendarIcon,
+  FilePen,
   FileText,
+  Globe,
+  Lightbulb,
+  Tags,
   Upload,
-  X,
-  ExternalLink,
 } from "lucide-react";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
@@ -30,47 +32,99 @@ import {
   FieldError,
 } from "@/components/shadcn/field";
 import { Input } from "@/components/shadcn/input";
-import { Textarea } from "@/components/shadcn/textarea";
 import { Calendar } from "@/components/shadcn/calendar";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/shadcn/popover";
+import {
+  GalleryUpload,
+  uploadGalleryItems,
+  type GalleryItem,
+} from "@/components/molecules/gallery-upload";
+import { TagPicker } from "@/components/molecules/tag-picker";
+import { MarkdownEditor } from "@/components/molecules/markdown-editor";
+import { SchedulePicker } from "@/components/molecules/schedule-picker";
 import { createMilestone } from "@/lib/actions/milestones";
-import { uploadMilestoneImage } from "@/lib/actions/storage";
+import { submitProposal, updateProposal } from "@/lib/actions/proposals";
+import { ANONYMOUS_ACCESS, can } from "@/lib/permissions";
+import { MAX_DESCRIPTION_LENGTH } from "@/lib/markdown";
+import type { MilestoneStatus } from "@/lib/types/milestones";
+import type { MilestoneProposal } from "@/lib/types/proposals";
+import type { AccessContext } from "@/lib/types/roles";
+import type { Tag } from "@/lib/types/tags";
+
+const SUCCESS_MESSAGES: Record<MilestoneStatus, string> = {
+  draft: "Journey berhasil disimpan sebagai draft!",
+  scheduled: "Journey berhasil dijadwalkan!",
+  published: "Journey berhasil ditambahkan!",
+  archived: "Journey berhasil diarsipkan!",
+};
 
 interface MilestoneFormProps {
+  tags?: Tag[];
+  access?: AccessContext;
+  mode?: "milestone" | "proposal"; // proposal: dikirim ke antrean review
+  proposal?: MilestoneProposal; // Usulan yang diperbaiki (mode proposal)
   className?: string;
 }
 
-const MAX_FILE_SIZE = 1000 * 1024; // 1MB
-const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+/**
+ * Item gallery dari gambar usulan yang sudah tersimpan
+ */
+function toProposalGalleryItems(proposal?: MilestoneProposal): GalleryItem[] {
+  return (proposal?.images ?? []).map((image) => ({
+    id: image.image_key,
+    image_key: image.image_key,
+    variants: image.variants,
+    previewUrl: proposal?.image_urls?.[image.image_key] ?? "",
+    caption: image.caption ?? "",
+    is_cover: !!image.is_cover,
+  }));
+}
 
-export function MilestoneForm({ className }: MilestoneFormProps) {
+/**
+ * Form tambah journey
+ * Mode proposal memakai field yang sama untuk member yang mengusulkan journey:
+ * gambar di-upload ke prefix karantina, hasilnya masuk antrean /review
+ */
+export function MilestoneForm({
+  tags = [],
+  access = ANONYMOUS_ACCESS,
+  mode = "milestone",
+  proposal,
+  className,
+}: MilestoneFormProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isProposal = mode === "proposal";
+  const canPublish = !isProposal && can(access, "milestone.publish");
 
   // Form state
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [eventDate, setEventDate] = useState<Date | undefined>(undefined);
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [dragActive, setDragActive] = useState(false);
+  const [title, setTitle] = useState(proposal?.title ?? "");
+  const [description, setDescription] = useState(proposal?.description ?? "");
+  const [eventDate, setEventDate] = useState<Date | undefined>(
+    proposal ? new Date(proposal.event_date) : undefined,
+  );
+  const [galleryItems, setGalleryItems] = useState<GalleryItem[]>(() =>
+    toProposalGalleryItems(proposal),
+  );
+  const [tagIds, setTagIds] = useState<string[]>(proposal?.tag_ids ?? []);
+  const [scheduleAt, setScheduleAt] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>(
+    {},
+  );
 
   // Feedback state
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
-  // Preview URL
-  const previewUrl = imageFile ? URL.createObjectURL(imageFile) : null;
-
   /**
    * Validasi form sebelum submit
    */
-  const validateForm = (): boolean => {
+  const validateForm = (status: MilestoneStatus): boolean => {
     const errors: Record<string, string> = {};
 
     if (!title.trim()) {
@@ -83,8 +137,15 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
       errors.eventDate = "Tanggal wajib diisi";
     }
 
-    if (description.length > 2000) {
-      errors.description = "Deskripsi maksimal 2000 karakter";
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      errors.description = `Deskripsi maksimal ${MAX_DESCRIPTION_LENGTH} karakter`;
+    }
+
+    if (
+      status === "scheduled" &&
+      (!scheduleAt || new Date(scheduleAt).getTime() <= Date.now())
+    ) {
+      errors.publishAt = "Jadwal publikasi harus di masa mendatang";
     }
 
     setFieldErrors(errors);
@@ -92,91 +153,103 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
   };
 
   /**
-   * Validasi file gambar
+   * Kirim (atau kirim ulang) usulan ke antrean review
    */
-  const validateFile = (file: File): string | null => {
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return "Tipe file tidak didukung. Gunakan JPEG, PNG, atau WebP.";
-    }
-    if (file.size > MAX_FILE_SIZE) {
-      return `Ukuran file terlalu besar (${(file.size / 1024).toFixed(0)}KB). Maksimal 1MB.`;
-    }
-    return null;
-  };
+  const saveProposal = () => {
+    setError(null);
+    setSuccess(null);
 
-  /**
-   * Handle file selection
-   */
-  const handleFileSelect = (file: File) => {
-    const error = validateFile(file);
-    if (error) {
-      setFieldErrors((prev) => ({ ...prev, image: error }));
+    if (!validateForm("draft")) {
       return;
     }
-    setFieldErrors((prev) => ({ ...prev, image: "" }));
-    setImageFile(file);
-  };
 
-  /**
-   * Handle file input change
-   */
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFileSelect(file);
-  };
+    startTransition(async () => {
+      setUploadProgress({});
+      const upload = await uploadGalleryItems(
+        galleryItems,
+        (itemId, percent) =>
+          setUploadProgress((prev) => ({ ...prev, [itemId]: percent })),
+        "proposal",
+      );
+      if (upload.error) {
+        setError(upload.error);
+        return;
+      }
 
-  /**
-   * Handle drag and drop
-   */
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    setDragActive(false);
-    const file = e.dataTransfer.files[0];
-    if (file) handleFileSelect(file);
+      const input = {
+        title: title.trim(),
+        description: description.trim() || undefined,
+        event_date: eventDate ? format(eventDate, "yyyy-MM-dd") : "",
+        images: upload.images,
+        tag_ids: tagIds,
+      };
+      const result = proposal
+        ? await updateProposal({ id: proposal.id, ...input })
+        : await submitProposal(input);
+
+      if (result.success) {
+        setSuccess(
+          proposal
+            ? "Usulan berhasil dikirim ulang untuk ditinjau!"
+            : "Usulan terkirim! Editor akan meninjaunya terlebih dahulu.",
+        );
+        setFieldErrors({});
+
+        setTimeout(() => {
+          router.push("/propose");
+          router.refresh();
+        }, 1500);
+      } else {
+        setError(result.error || "Gagal mengirim usulan");
+      }
+    });
   };
 
   /**
-   * Handle form submission
+   * Simpan journey dengan status tertentu
+   * Tombol "Simpan Draft" dan submit form (publikasi/jadwal) memakai fungsi yang sama
    */
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
+  const saveMilestone = (status: MilestoneStatus) => {
     setError(null);
     setSuccess(null);
 
-    if (!validateForm()) {
+    if (!validateForm(status)) {
       return;
     }
 
     startTransition(async () => {
-      let imageUrl: string | undefined;
-
-      // Upload gambar jika ada
-      if (imageFile) {
-        const formData = new FormData();
-        formData.append("image", imageFile);
-
-        const uploadResult = await uploadMilestoneImage(formData);
-        if (!uploadResult.success) {
-          setError(uploadResult.error || "Gagal mengupload gambar");
-          return;
-        }
-        imageUrl = uploadResult.url;
+      // Upload gambar gallery jika ada
+      setUploadProgress({});
+      const upload = await uploadGalleryItems(galleryItems, (itemId, percent) =>
+        setUploadProgress((prev) => ({ ...prev, [itemId]: percent })),
+      );
+      if (upload.error) {
+        setError(upload.error);
+        return;
       }
 
       const result = await createMilestone({
         title: title.trim(),
         description: description.trim() || undefined,
         event_date: eventDate ? format(eventDate, "yyyy-MM-dd") : "",
-        image_url: imageUrl,
+        images: upload.images,
+        tag_ids: tagIds,
+        status,
+        publish_at:
+          status === "scheduled" && scheduleAt
+            ? new Date(scheduleAt).toISOString()
+            : undefined,
       });
 
       if (result.success) {
-        setSuccess("Journey berhasil ditambahkan!");
+        setSuccess(SUCCESS_MESSAGES[status]);
         // Reset form
         setTitle("");
         setDescription("");
         setEventDate(undefined);
-        setImageFile(null);
+        setGalleryItems([]);
+        setTagIds([]);
+        setScheduleAt(null);
         setFieldErrors({});
 
         // Redirect ke home setelah 1.5 detik
@@ -190,6 +263,20 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
     });
   };
 
+  /**
+   * Submit form: publikasikan/jadwalkan untuk editor+, draft untuk kontributor
+   */
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isProposal) {
+      saveProposal();
+    } else if (!canPublish) {
+      saveMilestone("draft");
+    } else {
+      saveMilestone(scheduleAt ? "scheduled" : "published");
+    }
+  };
+
   /**
    * Reset form
    */
@@ -197,22 +284,29 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
     setTitle("");
     setDescription("");
     setEventDate(undefined);
-    setImageFile(null);
+    setGalleryItems([]);
+    setTagIds([]);
+    setScheduleAt(null);
     setError(null);
     setSuccess(null);
     setFieldErrors({});
-    if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
   return (
     <Card className={cn("w-full", className)}>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
-          <FileText className="size-5" />
-          Form Journey
+          {isProposal ? (
+            <Lightbulb className="size-5" />
+          ) : (
+            <FileText className="size-5" />
+          )}
+          {isProposal ? "Usulkan Journey" : "Form Journey"}
         </CardTitle>
         <CardDescription>
-          Isi detail journey yang ingin ditambahkan
+          {isProposal
+            ? "Bagikan foto dan cerita kegiatan; editor akan meninjau sebelum journey diterbitkan"
+            : "Isi detail journey yang ingin ditambahkan"}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -225,6 +319,17 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
               </div>
             )}
 
+            {/* Catatan perbaikan dari reviewer */}
+            {proposal?.status === "changes_requested" &&
+              proposal.review_note && (
+                <div className="rounded-md bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400">
+                  <p className="font-medium">Perbaikan yang diminta editor:</p>
+                  <p className="mt-1 whitespace-pre-wrap">
+                    {proposal.review_note}
+                  </p>
+                </div>
+              )}
+
             {/* Pesan Sukses */}
             {success && (
               <div className="rounded-md bg-green-500/10 p-3 text-center text-sm text-green-600 dark:text-green-400">
@@ -311,20 +416,21 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
             {/* Deskripsi */}
             <Field>
               <FieldLabel htmlFor="description">Deskripsi</FieldLabel>
-              <Textarea
+              <MarkdownEditor
                 id="description"
-                placeholder="Deskripsi detail tentang journey ini..."
+                placeholder="Deskripsi detail tentang journey ini (mendukung Markdown)..."
                 value={description}
-                onChange={(e) => {
-                  setDescription(e.target.value);
+                onChange={(value) => {
+                  setDescription(value);
                   if (fieldErrors.description) {
                     setFieldErrors((prev) => ({ ...prev, description: "" }));
                   }
                 }}
                 disabled={isPending}
-                rows={4}
-                maxLength={2000}
-                className={fieldErrors.description ? "border-destructive" : ""}
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                invalid={!!fieldErrors.description}
+                imageUrls={proposal?.image_urls}
+                uploadDestination={isProposal ? "proposal" : undefined}
               />
               {fieldErrors.description && (
                 <FieldError className="text-destructive">
@@ -332,120 +438,111 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
                 </FieldError>
               )}
               <FieldDescription>
-                {description.length}/2000 karakter (opsional)
+                {description.length}/{MAX_DESCRIPTION_LENGTH} karakter
+                (opsional). Tempel atau seret gambar untuk menyisipkannya; tulis{" "}
+                <code>{"{{youtube URL}}"}</code> atau{" "}
+                <code>{"{{instagram URL}}"}</code> di baris sendiri untuk embed.
               </FieldDescription>
             </Field>
 
-            {/* Upload Gambar */}
+            {/* Gallery Gambar */}
             <Field>
               <FieldLabel>
                 <span className="flex items-center gap-2">
                   <Upload className="size-4" />
-                  Gambar
+                  Gallery
                 </span>
               </FieldLabel>
 
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/jpeg,image/png,image/webp"
-                onChange={handleFileChange}
+              <GalleryUpload
+                items={galleryItems}
+                onChange={setGalleryItems}
+                progress={uploadProgress}
                 disabled={isPending}
-                className="hidden"
               />
 
-              {previewUrl ? (
-                <div className="relative rounded-lg border overflow-hidden">
-                  <img
-                    src={previewUrl}
-                    alt="Preview"
-                    className="w-full h-48 object-cover"
-                  />
-                  {!isPending && (
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="icon"
-                      className="absolute top-2 right-2 size-8"
-                      onClick={() => {
-                        setImageFile(null);
-                        if (fileInputRef.current)
-                          fileInputRef.current.value = "";
-                      }}
-                    >
-                      <X className="size-4" />
-                    </Button>
-                  )}
-                  <div className="absolute bottom-2 left-2 bg-background/80 rounded px-2 py-1 text-xs">
-                    {imageFile?.name} (
-                    {((imageFile?.size || 0) / 1024).toFixed(0)}KB)
-                  </div>
-                </div>
-              ) : (
-                <div
-                  onClick={() => !isPending && fileInputRef.current?.click()}
-                  onDragOver={(e) => {
-                    e.preventDefault();
-                    if (!isPending) setDragActive(true);
-                  }}
-                  onDragLeave={() => setDragActive(false)}
-                  onDrop={handleDrop}
-                  className={cn(
-                    "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
-                    dragActive
-                      ? "border-primary bg-primary/5"
-                      : "border-muted-foreground/25 hover:border-primary/50",
-                    isPending && "opacity-50 cursor-not-allowed",
-                    fieldErrors.image && "border-destructive",
-                  )}
-                >
-                  <div className="flex flex-col items-center gap-2">
-                    <div className="rounded-full bg-muted p-3">
-                      <Upload className="size-6 text-muted-foreground" />
-                    </div>
-                    <div className="text-sm font-medium">
-                      Klik atau drag gambar ke sini
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      JPEG, PNG, WebP (max 1MB)
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {fieldErrors.image && (
-                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
-                  <p>{fieldErrors.image}</p>
-                  {fieldErrors.image.includes("1MB") && (
-                    <a
-                      href="https://compressjpeg.com/"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center gap-1 mt-1 underline hover:no-underline"
-                    >
-                      Compress gambar di sini
-                      <ExternalLink className="size-3" />
-                    </a>
-                  )}
-                </div>
-              )}
+              <FieldDescription>
+                Upload gambar untuk journey, atur urutan dan pilih cover
+                (opsional)
+              </FieldDescription>
+            </Field>
 
+            {/* Tag */}
+            <Field>
+              <FieldLabel>
+                <span className="flex items-center gap-2">
+                  <Tags className="size-4" />
+                  Tag
+                </span>
+              </FieldLabel>
+              <TagPicker
+                tags={tags}
+                value={tagIds}
+                onChange={setTagIds}
+                disabled={isPending}
+                canManage={can(access, "tag.manage")}
+              />
               <FieldDescription>
-                Upload gambar untuk journey (opsional)
+                Kategori journey, misalnya Ibadah atau Pemuda (opsional)
               </FieldDescription>
             </Field>
 
+            {/* Publikasi */}
+            {!isProposal && (
+              <Field>
+                <FieldLabel>
+                  <span className="flex items-center gap-2">
+                    <Globe className="size-4" />
+                    Publikasi
+                  </span>
+                </FieldLabel>
+                {canPublish ? (
+                  <SchedulePicker
+                    value={scheduleAt}
+                    onChange={(value) => {
+                      setScheduleAt(value);
+                      if (fieldErrors.publishAt) {
+                        setFieldErrors((prev) => ({ ...prev, publishAt: "" }));
+                      }
+                    }}
+                    disabled={isPending}
+                  />
+                ) : null}
+                {fieldErrors.publishAt && (
+                  <FieldError className="text-destructive">
+                    {fieldErrors.publishAt}
+                  </FieldError>
+                )}
+                <FieldDescription>
+                  {canPublish
+                    ? "Draft hanya terlihat oleh Anda dan editor; journey terjadwal terbit otomatis pada waktunya"
+                    : "Journey disimpan sebagai draft dan perlu dipublikasikan oleh editor"}
+                </FieldDescription>
+              </Field>
+            )}
+
             {/* Tombol Aksi */}
-            <div className="flex gap-3 pt-4">
+            <div className="flex flex-wrap gap-3 pt-4">
               <Button
                 type="button"
-                variant="outline"
+                variant="ghost"
                 onClick={handleReset}
                 disabled={isPending}
-                className="flex-1"
               >
                 Reset
               </Button>
+              {canPublish && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => saveMilestone("draft")}
+                  disabled={isPending || !title || !eventDate}
+                  className="flex-1"
+                >
+                  <FilePen className="size-4" />
+                  Simpan Draft
+                </Button>
+              )}
               <Button
                 type="submit"
                 disabled={isPending || !title || !eventDate}
@@ -456,8 +553,18 @@ export function MilestoneForm({ className }: MilestoneFormProps) {
                     <Loader2 className="mr-2 size-4 animate-spin" />
                     Menyimpan...
                   </>
+                ) : isProposal ? (
+                  proposal ? (
+                    "Kirim Ulang Usulan"
+                  ) : (
+                    "Kirim Usulan"
+                  )
+                ) : !canPublish ? (
+                  "Simpan sebagai Draft"
+                ) : scheduleAt ? (
+                  "Jadwalkan"
                 ) : (
-                  "Simpan Journey"
+                  "Publikasikan"
                 )}
               </Button>
             </div>
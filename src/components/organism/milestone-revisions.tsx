@@ -0,0 +1,342 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import {
+  ChevronDown,
+  History,
+  ImageOff,
+  Loader2,
+  RotateCcw,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import { restoreMilestoneRevision } from "@/lib/actions/revisions";
+import { diffWords, type DiffPart } from "@/lib/text-diff";
+import type { Milestone, MilestoneRevision } from "@/lib/types/milestones";
+
+interface MilestoneRevisionsProps {
+  milestone: Milestone;
+  revisions: MilestoneRevision[];
+  className?: string;
+}
+
+function formatEventDate(value: string): string {
+  return format(new Date(value), "d MMMM yyyy", { locale: id });
+}
+
+/**
+ * S3 key cover versi (gallery dulu, lalu image_url untuk data lama)
+ */
+function getRevisionCoverKey(revision: MilestoneRevision): string | null {
+  const cover =
+    revision.images.find((image) => image.is_cover) ?? revision.images[0];
+  return cover?.image_key ?? revision.image_url;
+}
+
+/**
+ * Teks hasil diff, side menentukan bagian mana yang ditampilkan
+ */
+function DiffText({
+  parts,
+  side,
+}: {
+  parts: DiffPart[];
+  side: "before" | "after";
+}) {
+  const hidden = side === "before" ? "added" : "removed";
+  const visible = parts.filter((part) => part.type !== hidden);
+  if (visible.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <>
+      {visible.map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.type === "removed" &&
+              "rounded-sm bg-destructive/15 text-destructive line-through decoration-destructive/50",
+            part.type === "added" &&
+              "rounded-sm bg-green-500/15 text-green-700 dark:text-green-400",
+          )}
+        >
+          {part.value}
+        </span>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Satu baris perbandingan "Versi ini" vs "Saat ini"
+ */
+function DiffRow({
+  label,
+  changed,
+  before,
+  after,
+}: {
+  label: string;
+  changed: boolean;
+  before: React.ReactNode;
+  after: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1">
+      <p
+        className={cn(
+          "text-xs font-medium",
+          changed ? "text-foreground" : "text-muted-foreground",
+        )}
+      >
+        {label}
+        {!changed && " (sama)"}
+      </p>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="rounded-md border bg-muted/30 p-2 break-words whitespace-pre-wrap">
+          {before}
+        </div>
+        <div className="rounded-md border p-2 break-words whitespace-pre-wrap">
+          {after}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CoverPreview({ url, alt }: { url?: string; alt: string }) {
+  if (!url) {
+    return (
+      <div className="flex aspect-video w-full items-center justify-center rounded bg-muted text-muted-foreground">
+        <ImageOff className="size-5" />
+      </div>
+    );
+  }
+
+  return (
+    <Image
+      src={url}
+      alt={alt}
+      width={320}
+      height={180}
+      className="aspect-video w-full rounded object-cover"
+    />
+  );
+}
+
+/**
+ * Riwayat versi journey di halaman edit
+ * Setiap versi dibandingkan berdampingan dengan isi saat ini dan bisa dipulihkan
+ */
+export function MilestoneRevisions({
+  milestone,
+  revisions,
+  className,
+}: MilestoneRevisionsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const currentCover = milestone.images?.find((image) => image.is_cover);
+  const currentImageCount = milestone.images?.length ?? 0;
+  const currentTagIds = (milestone.tags ?? []).map((tag) => tag.id).sort();
+
+  const handleRestore = (revision: MilestoneRevision) => {
+    setRestoringId(revision.id);
+    startTransition(async () => {
+      const result = await restoreMilestoneRevision(revision.id);
+      setRestoringId(null);
+      if (!result.success) {
+        toast.error(result.error || "Gagal memulihkan versi");
+        return;
+      }
+      setOpenId(null);
+      toast.success("Versi berhasil dipulihkan");
+      router.refresh();
+    });
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="size-5" />
+          Riwayat Versi
+        </CardTitle>
+        <CardDescription>
+          Versi sebelumnya tersimpan setiap kali journey diubah
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {revisions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Belum ada versi sebelumnya.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {revisions.map((revision) => {
+              const isOpen = openId === revision.id;
+              const titleChanged = revision.title !== milestone.title;
+              const dateChanged = revision.event_date !== milestone.event_date;
+              const descriptionChanged =
+                (revision.description ?? "") !== (milestone.description ?? "");
+              const revisionImageCount =
+                revision.images.length || (revision.image_url ? 1 : 0);
+              const imageChanged =
+                getRevisionCoverKey(revision) !==
+                  (currentCover?.image_key ?? null) ||
+                revisionImageCount !== currentImageCount;
+              const tagsChanged =
+                JSON.stringify([...revision.tag_ids].sort()) !==
+                JSON.stringify(currentTagIds);
+
+              const changes = [
+                titleChanged && "Judul",
+                dateChanged && "Tanggal",
+                descriptionChanged && "Deskripsi",
+                imageChanged && "Gambar",
+                tagsChanged && "Tag",
+              ].filter(Boolean);
+
+              // Diff kata hanya dihitung untuk versi yang sedang dibuka
+              const titleDiff = isOpen
+                ? diffWords(revision.title, milestone.title)
+                : [];
+              const descriptionDiff = isOpen
+                ? diffWords(
+                    revision.description ?? "",
+                    milestone.description ?? "",
+                  )
+                : [];
+
+              return (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    aria-expanded={isOpen}
+                    onClick={() => setOpenId(isOpen ? null : revision.id)}
+                    className="flex w-full items-center justify-between gap-3 p-3 text-left hover:bg-muted/40 cursor-pointer"
+                  >
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="text-sm font-medium">
+                        {format(
+                          new Date(revision.created_at),
+                          "d MMM yyyy HH:mm",
+                          { locale: id },
+                        )}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        Diganti oleh{" "}
+                        {revision.created_by_email ?? "user terhapus"}
+                        {" · "}
+                        {changes.length > 0
+                          ? `Beda: ${changes.join(", ")}`
+                          : "Sama dengan versi saat ini"}
+                      </p>
+                    </div>
+                    <ChevronDown
+                      className={cn(
+                        "size-4 shrink-0 text-muted-foreground transition-transform",
+                        isOpen && "rotate-180",
+                      )}
+                    />
+                  </button>
+
+                  {isOpen && (
+                    <div className="space-y-4 border-t p-3">
+                      <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+                        <span>Versi ini</span>
+                        <span>Saat ini</span>
+                      </div>
+
+                      <DiffRow
+                        label="Judul"
+                        changed={titleChanged}
+                        before={<DiffText parts={titleDiff} side="before" />}
+                        after={<DiffText parts={titleDiff} side="after" />}
+                      />
+                      <DiffRow
+                        label="Tanggal"
+                        changed={dateChanged}
+                        before={formatEventDate(revision.event_date)}
+                        after={formatEventDate(milestone.event_date)}
+                      />
+                      <DiffRow
+                        label="Deskripsi"
+                        changed={descriptionChanged}
+                        before={
+                          <DiffText parts={descriptionDiff} side="before" />
+                        }
+                        after={
+                          <DiffText parts={descriptionDiff} side="after" />
+                        }
+                      />
+                      <DiffRow
+                        label="Gambar"
+                        changed={imageChanged}
+                        before={
+                          <div className="space-y-1">
+                            <CoverPreview
+                              url={revision.cover_url}
+                              alt={`Cover ${revision.title}`}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              {revisionImageCount} gambar
+                            </p>
+                          </div>
+                        }
+                        after={
+                          <div className="space-y-1">
+                            <CoverPreview
+                              url={milestone.thumbnail_url}
+                              alt={`Cover ${milestone.title}`}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              {currentImageCount} gambar
+                            </p>
+                          </div>
+                        }
+                      />
+
+                      <div className="flex justify-end">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(revision)}
+                          disabled={isPending || changes.length === 0}
+                        >
+                          {restoringId === revision.id ? (
+                            <Loader2 className="size-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="size-4" />
+                          )}
+                          Pulihkan versi ini
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Copy, Link2, Loader2, Share2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import { ExpirySelect } from "@/components/molecules/expiry-select";
+import { createShareLink, revokeShareLink } from "@/lib/actions/shares";
+import { isPubliclyVisible } from "@/lib/milestone-status";
+import type { Milestone } from "@/lib/types/milestones";
+import type { ShareLink } from "@/lib/types/shares";
+
+interface MilestoneShareLinksProps {
+  milestone: Pick<Milestone, "id" | "status" | "publish_at">;
+  initialLinks: ShareLink[];
+  className?: string;
+}
+
+const SHARE_EXPIRY_OPTIONS = [
+  { value: "permanent", label: "Permanen" },
+  { value: "1", label: "1 hari" },
+  { value: "7", label: "7 hari" },
+  { value: "30", label: "30 hari" },
+];
+
+function formatDate(value: string): string {
+  return format(new Date(value), "d MMM yyyy HH:mm", { locale: id });
+}
+
+/**
+ * Kelola link berbagi publik journey di halaman edit
+ * Hanya untuk editor/owner (izin milestone.share)
+ */
+export function MilestoneShareLinks({
+  milestone,
+  initialLinks,
+  className,
+}: MilestoneShareLinksProps) {
+  const [isPending, startTransition] = useTransition();
+  const [links, setLinks] = useState<ShareLink[]>(initialLinks);
+  const [expiry, setExpiry] = useState("7");
+
+  const published = isPubliclyVisible(milestone);
+
+  const copyShareUrl = async (link: ShareLink) => {
+    if (!link.url) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast.success("Link berbagi disalin");
+    } catch {
+      toast.error("Gagal menyalin link");
+    }
+  };
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      const result = await createShareLink({
+        milestone_id: milestone.id,
+        expires_in_days: expiry === "permanent" ? undefined : Number(expiry),
+      });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal membuat link berbagi");
+        return;
+      }
+      setLinks((prev) => [result.data!, ...prev]);
+      await copyShareUrl(result.data);
+    });
+  };
+
+  const handleRevoke = (linkId: string) => {
+    startTransition(async () => {
+      const result = await revokeShareLink(linkId);
+      if (!result.success) {
+        toast.error(result.error || "Gagal mencabut link berbagi");
+        return;
+      }
+      setLinks((prev) => prev.filter((link) => link.id !== linkId));
+      toast.success("Link berbagi dicabut");
+    });
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Share2 className="size-5" />
+          Bagikan Journey
+        </CardTitle>
+        <CardDescription>
+          Link publik untuk keluarga atau tamu tanpa akun. Siapa pun yang
+          memegang link bisa melihat journey ini sampai link dicabut.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!published && (
+          <p className="rounded-md bg-muted/50 p-2 text-xs text-muted-foreground">
+            Journey ini belum terbit. Link hanya bisa dibuka setelah journey
+            dipublikasikan.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <ExpirySelect
+            value={expiry}
+            options={SHARE_EXPIRY_OPTIONS}
+            onChange={setExpiry}
+            disabled={isPending}
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleCreate}
+            disabled={isPending}
+          >
+            {isPending ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Link2 className="size-4" />
+            )}
+            Buat link
+          </Button>
+        </div>
+
+        {links.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Belum ada link berbagi.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {links.map((link) => {
+              const expired =
+                !!link.expires_at && new Date(link.expires_at) <= new Date();
+
+              return (
+                <li
+                  key={link.id}
+                  className={cn(
+                    "flex items-center justify-between gap-3 p-3",
+                    expired && "opacity-60",
+                  )}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="truncate font-mono text-xs">
+                      /s/{link.token.slice(0, 8)}…
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Dibuat {formatDate(link.created_at)} ·{" "}
+                      {link.expires_at
+                        ? expired
+                          ? "Kedaluwarsa"
+                          : `Sampai ${formatDate(link.expires_at)}`
+                        : "Permanen"}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    {!expired && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8"
+                        aria-label="Salin link berbagi"
+                        onClick={() => copyShareUrl(link)}
+                      >
+                        <Copy className="size-4" />
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="size-8 text-destructive hover:text-destructive"
+                      aria-label="Cabut link berbagi"
+                      onClick={() => handleRevoke(link.id)}
+                      disabled={isPending}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { WifiOff } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import { MarkdownContent } from "@/components/molecules/markdown-content";
+import { TagChip } from "@/components/molecules/tag-chip";
+import { getRecentMilestones, type OfflineMilestone } from "@/lib/pwa/offline";
+
+interface OfflineMilestonesProps {
+  className?: string;
+}
+
+/**
+ * Daftar journey yang terakhir dibuka, dibaca dari cache perangkat
+ * Ditampilkan service worker saat halaman tidak bisa dimuat karena offline;
+ * gambar & embed tidak tersedia, deskripsi dirender sebagai Markdown ringan
+ */
+export function OfflineMilestones({ className }: OfflineMilestonesProps) {
+  const [milestones, setMilestones] = useState<OfflineMilestone[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const recent = await getRecentMilestones().catch(() => []);
+      if (!cancelled) setMilestones(recent);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WifiOff className="size-5" />
+          Anda sedang offline
+        </CardTitle>
+        <CardDescription>
+          Journey yang terakhir Anda buka di perangkat ini tetap bisa dibaca.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {milestones === null ? (
+          <div className="space-y-2">
+            <div className="h-16 animate-pulse rounded-md bg-muted" />
+            <div className="h-16 animate-pulse rounded-md bg-muted" />
+          </div>
+        ) : milestones.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Belum ada journey tersimpan. Buka detail journey saat online agar
+            bisa dibaca offline.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {milestones.map((milestone) => (
+              <li key={milestone.id} className="space-y-1 p-3">
+                <p className="font-medium">{milestone.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(milestone.event_date), "d MMMM yyyy", {
+                    locale: id,
+                  })}
+                </p>
+                {milestone.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {milestone.tags.map((tag) => (
+                      <TagChip key={tag.name} tag={tag} />
+                    ))}
+                  </div>
+                )}
+                {milestone.description && (
+                  <MarkdownContent
+                    content={milestone.description}
+                    className="text-sm text-muted-foreground"
+                    lite
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => window.location.reload()}
+        >
+          Coba lagi
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import Image from "next/image";
+import Link from "next/link";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { ImageOff, Inbox, Pencil } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import { ProposalStatusBadge } from "@/components/molecules/proposal-status-badge";
+import { isProposalEditable } from "@/lib/proposal-status";
+import type { MilestoneProposal } from "@/lib/types/proposals";
+
+interface ProposalListProps {
+  proposals: MilestoneProposal[];
+  className?: string;
+}
+
+/**
+ * Thumbnail cover usulan (gambar pertama jika cover belum dipilih)
+ */
+function getCoverUrl(proposal: MilestoneProposal): string | undefined {
+  const cover =
+    proposal.images.find((image) => image.is_cover) ?? proposal.images[0];
+  return cover ? proposal.image_urls?.[cover.image_key] : undefined;
+}
+
+/**
+ * Daftar usulan milik user beserta status dan catatan reviewer
+ * Usulan yang belum ditinjau atau diminta perbaikan bisa diedit lagi
+ */
+export function ProposalList({ proposals, className }: ProposalListProps) {
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="size-5" />
+          Usulan Saya
+        </CardTitle>
+        <CardDescription>
+          Status usulan yang pernah Anda kirim ke editor
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {proposals.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Belum ada usulan.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {proposals.map((proposal) => {
+              const coverUrl = getCoverUrl(proposal);
+              const showNote =
+                proposal.review_note &&
+                (proposal.status === "changes_requested" ||
+                  proposal.status === "rejected");
+
+              return (
+                <li key={proposal.id} className="flex gap-3 p-3">
+                  {coverUrl ? (
+                    <Image
+                      src={coverUrl}
+                      alt={proposal.title}
+                      width={96}
+                      height={54}
+                      className="aspect-video w-20 shrink-0 rounded object-cover"
+                    />
+                  ) : (
+                    <div className="flex aspect-video w-20 shrink-0 items-center justify-center rounded bg-muted text-muted-foreground">
+                      <ImageOff className="size-4" />
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="min-w-0 truncate font-medium">
+                        {proposal.title}
+                      </p>
+                      <ProposalStatusBadge status={proposal.status} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(proposal.event_date), "d MMMM yyyy", {
+                        locale: id,
+                      })}
+                      {" · dikirim "}
+                      {format(new Date(proposal.created_at), "d MMM yyyy", {
+                        locale: id,
+                      })}
+                    </p>
+                    {showNote && (
+                      <p className="whitespace-pre-wrap rounded bg-muted/50 p-2 text-xs">
+                        {proposal.review_note}
+                      </p>
+                    )}
+                  </div>
+                  {isProposalEditable(proposal) && (
+                    <Button
+                      asChild
+                      variant="ghost"
+                      size="icon"
+                      className="size-8 shrink-0"
+                      aria-label="Edit usulan"
+                    >
+                      <Link href={`/propose/${proposal.id}`}>
+                        <Pencil className="size-4" />
+                      </Link>
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,341 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { format, formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+import {
+  CircleCheck,
+  CircleX,
+  ClipboardCheck,
+  Loader2,
+  MessageSquareWarning,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/shadcn/dialog";
+import { Textarea } from "@/components/shadcn/textarea";
+import { MarkdownContent } from "@/components/molecules/markdown-content";
+import { ProposalStatusBadge } from "@/components/molecules/proposal-status-badge";
+import { TagChip } from "@/components/molecules/tag-chip";
+import {
+  approveProposal,
+  rejectProposal,
+  requestProposalChanges,
+} from "@/lib/actions/proposals";
+import type { MilestoneProposal } from "@/lib/types/proposals";
+import type { Tag } from "@/lib/types/tags";
+
+interface ProposalReviewQueueProps {
+  initialProposals: MilestoneProposal[];
+  tags?: Tag[];
+  className?: string;
+}
+
+type NoteDecision = "changes_requested" | "rejected";
+
+const DECISION_COPY: Record<
+  NoteDecision,
+  { title: string; description: string; label: string; placeholder: string }
+> = {
+  changes_requested: {
+    title: "Minta Perbaikan",
+    description:
+      "Pengusul akan melihat catatan ini dan bisa mengirim ulang usulannya.",
+    label: "Kirim Catatan",
+    placeholder: "Contoh: Tolong tambahkan foto kegiatan dan perbaiki tanggal",
+  },
+  rejected: {
+    title: "Tolak Usulan",
+    description:
+      "Usulan tidak akan diterbitkan. Alasan ditampilkan kepada pengusul.",
+    label: "Tolak Usulan",
+    placeholder: "Contoh: Kegiatan ini sudah ada di timeline",
+  },
+};
+
+/**
+ * Antrean review usulan journey dari member
+ * - Pratinjau isi usulan (gambar, tag, deskripsi Markdown)
+ * - Setujui: journey langsung terbit dan gambar dipindahkan dari karantina
+ * - Minta perbaikan / tolak: wajib menyertakan catatan untuk pengusul
+ * Hanya untuk editor/owner (izin proposal.review)
+ */
+export function ProposalReviewQueue({
+  initialProposals,
+  tags = [],
+  className,
+}: ProposalReviewQueueProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [proposals, setProposals] =
+    useState<MilestoneProposal[]>(initialProposals);
+
+  // Dialog catatan untuk minta perbaikan / tolak
+  const [decision, setDecision] = useState<{
+    proposal: MilestoneProposal;
+    status: NoteDecision;
+  } | null>(null);
+  const [note, setNote] = useState("");
+
+  const tagById = new Map(tags.map((tag) => [tag.id, tag]));
+
+  const openDecision = (proposal: MilestoneProposal, status: NoteDecision) => {
+    setDecision({ proposal, status });
+    setNote("");
+  };
+
+  const handleApprove = (proposal: MilestoneProposal) => {
+    startTransition(async () => {
+      const result = await approveProposal(proposal.id);
+      if (!result.success) {
+        toast.error(result.error || "Gagal menyetujui usulan");
+        return;
+      }
+      setProposals((prev) => prev.filter((item) => item.id !== proposal.id));
+      toast.success(`"${proposal.title}" disetujui dan diterbitkan`);
+      router.refresh();
+    });
+  };
+
+  const handleDecision = () => {
+    if (!decision || !note.trim()) return;
+    const { proposal, status } = decision;
+
+    startTransition(async () => {
+      const result =
+        status === "rejected"
+          ? await rejectProposal(proposal.id, note)
+          : await requestProposalChanges(proposal.id, note);
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal menyimpan keputusan");
+        return;
+      }
+      const updated = result.data;
+      setDecision(null);
+      setProposals((prev) =>
+        status === "rejected"
+          ? prev.filter((item) => item.id !== proposal.id)
+          : prev.map((item) =>
+              item.id === updated.id ? { ...item, ...updated } : item,
+            ),
+      );
+      toast.success(
+        status === "rejected"
+          ? "Usulan ditolak"
+          : "Permintaan perbaikan dikirim ke pengusul",
+      );
+      router.refresh();
+    });
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="size-5" />
+          Antrean Usulan
+        </CardTitle>
+        <CardDescription>
+          Usulan terlama tampil lebih dulu. Usulan yang menunggu perbaikan
+          kembali aktif setelah dikirim ulang pengusul.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {proposals.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Tidak ada usulan yang perlu ditinjau.
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {proposals.map((proposal) => {
+              const isAwaitingChanges = proposal.status === "changes_requested";
+              const proposalTags = proposal.tag_ids
+                .map((tagId) => tagById.get(tagId))
+                .filter((tag): tag is Tag => !!tag);
+
+              return (
+                <li
+                  key={proposal.id}
+                  className={cn(
+                    "space-y-3 rounded-md border p-4",
+                    isAwaitingChanges && "opacity-70",
+                  )}
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="font-medium">{proposal.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(proposal.event_date), "d MMMM yyyy", {
+                          locale: id,
+                        })}
+                        {" · diusulkan "}
+                        {proposal.created_by_email ?? "user terhapus"}{" "}
+                        {formatDistanceToNow(new Date(proposal.updated_at), {
+                          addSuffix: true,
+                          locale: id,
+                        })}
+                      </p>
+                    </div>
+                    <ProposalStatusBadge status={proposal.status} />
+                  </div>
+
+                  {proposal.images.length > 0 && (
+                    <div className="flex gap-2 overflow-x-auto pb-1">
+                      {proposal.images.map((image) => {
+                        const url = proposal.image_urls?.[image.image_key];
+                        return url ? (
+                          <Image
+                            key={image.image_key}
+                            src={url}
+                            alt={image.caption || proposal.title}
+                            title={image.caption || undefined}
+                            width={128}
+                            height={72}
+                            className={cn(
+                              "aspect-video w-28 shrink-0 rounded object-cover",
+                              image.is_cover &&
+                                "ring-2 ring-primary ring-offset-1",
+                            )}
+                          />
+                        ) : null;
+                      })}
+                    </div>
+                  )}
+
+                  {proposalTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {proposalTags.map((tag) => (
+                        <TagChip key={tag.id} tag={tag} />
+                      ))}
+                    </div>
+                  )}
+
+                  {proposal.description && (
+                    <MarkdownContent
+                      content={proposal.description}
+                      imageUrls={proposal.image_urls}
+                      className="max-h-64 overflow-y-auto rounded bg-muted/30 p-3"
+                    />
+                  )}
+
+                  {isAwaitingChanges && proposal.review_note && (
+                    <p className="whitespace-pre-wrap rounded bg-amber-500/10 p-2 text-xs text-amber-700 dark:text-amber-400">
+                      {proposal.review_note}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => openDecision(proposal, "rejected")}
+                      disabled={isPending}
+                    >
+                      <CircleX className="size-4" />
+                      Tolak
+                    </Button>
+                    {!isAwaitingChanges && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            openDecision(proposal, "changes_requested")
+                          }
+                          disabled={isPending}
+                        >
+                          <MessageSquareWarning className="size-4" />
+                          Minta Perbaikan
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => handleApprove(proposal)}
+                          disabled={isPending}
+                        >
+                          {isPending ? (
+                            <Loader2 className="size-4 animate-spin" />
+                          ) : (
+                            <CircleCheck className="size-4" />
+                          )}
+                          Setujui
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={decision !== null}
+        onOpenChange={(open) => !open && setDecision(null)}
+      >
+        <DialogContent>
+          {decision && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {DECISION_COPY[decision.status].title}
+                </DialogTitle>
+                <DialogDescription>
+                  &ldquo;{decision.proposal.title}&rdquo; &mdash;{" "}
+                  {DECISION_COPY[decision.status].description}
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={DECISION_COPY[decision.status].placeholder}
+                maxLength={1000}
+                disabled={isPending}
+                aria-label="Catatan untuk pengusul"
+                autoFocus
+              />
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => setDecision(null)}
+                  disabled={isPending}
+                >
+                  Batal
+                </Button>
+                <Button
+                  variant={
+                    decision.status === "rejected" ? "destructive" : "default"
+                  }
+                  onClick={handleDecision}
+                  disabled={isPending || !note.trim()}
+                >
+                  {isPending && <Loader2 className="size-4 animate-spin" />}
+                  {DECISION_COPY[decision.status].label}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
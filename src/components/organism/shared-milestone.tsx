@@ -0,0 +1,52 @@
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { ImageCarousel } from "@/components/molecules/image-carousel";
+import { MarkdownContent } from "@/components/molecules/markdown-content";
+import { TagChip } from "@/components/molecules/tag-chip";
+import { Card, CardContent } from "@/components/shadcn/card";
+import { cn } from "@/lib/utils";
+import type { SharedMilestone as SharedMilestoneData } from "@/lib/types/shares";
+
+interface SharedMilestoneProps {
+  milestone: SharedMilestoneData;
+  className?: string;
+}
+
+/**
+ * Tampilan read-only journey yang dibuka lewat link berbagi
+ * Tanpa komentar, reaksi, maupun aksi edit
+ */
+export function SharedMilestone({
+  milestone,
+  className,
+}: SharedMilestoneProps) {
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardContent className="space-y-4">
+        <ImageCarousel images={milestone.images ?? []} alt={milestone.title} />
+        <div className="space-y-1">
+          <h1 className="text-2xl font-bold">{milestone.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {format(new Date(milestone.event_date), "d MMMM yyyy", {
+              locale: id,
+            })}
+          </p>
+        </div>
+        {milestone.tags && milestone.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {milestone.tags.map((tag) => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
+          </div>
+        )}
+        {milestone.description && (
+          <MarkdownContent
+            content={milestone.description}
+            imageUrls={milestone.description_image_urls}
+            className="text-muted-foreground"
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
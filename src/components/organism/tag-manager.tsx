@@ -0,0 +1,328 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Loader2, Pencil, Plus, Tags, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import { Input } from "@/components/shadcn/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/shadcn/dialog";
+import { TagChip } from "@/components/molecules/tag-chip";
+import { createTag, deleteTag, updateTag } from "@/lib/actions/tags";
+import type { Tag } from "@/lib/types/tags";
+
+interface TagManagerProps {
+  initialTags: Tag[];
+  className?: string;
+}
+
+const TAG_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#dc2626",
+  "#d97706",
+  "#9333ea",
+  "#db2777",
+  "#0891b2",
+  "#4b5563",
+];
+
+/**
+ * Pilihan warna preset + warna custom
+ */
+function ColorPicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (color: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {TAG_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          aria-label={`Warna ${color}`}
+          disabled={disabled}
+          onClick={() => onChange(color)}
+          className={cn(
+            "size-6 rounded-full border-2 border-transparent cursor-pointer disabled:cursor-not-allowed",
+            value === color && "border-foreground",
+          )}
+          style={{ backgroundColor: color }}
+        />
+      ))}
+      <input
+        type="color"
+        aria-label="Warna custom"
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className="size-6 cursor-pointer rounded-full border bg-transparent p-0"
+      />
+    </div>
+  );
+}
+
+/**
+ * Kelola tag (tambah, ubah nama/warna, hapus)
+ * Hanya untuk editor/owner (izin tag.manage)
+ */
+export function TagManager({ initialTags, className }: TagManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [tags, setTags] = useState<Tag[]>(initialTags);
+
+  // Form tambah
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(TAG_COLORS[0]);
+
+  // Edit inline
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editColor, setEditColor] = useState(TAG_COLORS[0]);
+
+  // Konfirmasi hapus
+  const [deleteTarget, setDeleteTarget] = useState<Tag | null>(null);
+
+  const sortTags = (list: Tag[]) =>
+    [...list].sort((a, b) => a.name.localeCompare(b.name, "id"));
+
+  const handleCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    startTransition(async () => {
+      const result = await createTag({ name: name.trim(), color });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal membuat tag");
+        return;
+      }
+      setTags((prev) => sortTags([...prev, result.data!]));
+      setName("");
+      toast.success("Tag berhasil ditambahkan");
+      router.refresh();
+    });
+  };
+
+  const startEdit = (tag: Tag) => {
+    setEditingId(tag.id);
+    setEditName(tag.name);
+    setEditColor(tag.color);
+  };
+
+  const handleUpdate = (tagId: string) => {
+    startTransition(async () => {
+      const result = await updateTag({
+        id: tagId,
+        name: editName.trim(),
+        color: editColor,
+      });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal memperbarui tag");
+        return;
+      }
+      setTags((prev) =>
+        sortTags(prev.map((tag) => (tag.id === tagId ? result.data! : tag))),
+      );
+      setEditingId(null);
+      toast.success("Tag berhasil diperbarui");
+      router.refresh();
+    });
+  };
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    const target = deleteTarget;
+
+    startTransition(async () => {
+      const result = await deleteTag(target.id);
+      setDeleteTarget(null);
+      if (!result.success) {
+        toast.error(result.error || "Gagal menghapus tag");
+        return;
+      }
+      setTags((prev) => prev.filter((tag) => tag.id !== target.id));
+      toast.success("Tag berhasil dihapus");
+      router.refresh();
+    });
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="size-5" />
+          Tag Journey
+        </CardTitle>
+        <CardDescription>
+          Kategori untuk mengelompokkan journey, misalnya Ibadah, Pemuda, atau
+          Sekolah Minggu
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Tambah tag */}
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Nama tag baru"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              disabled={isPending}
+            />
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <Plus className="size-4" />
+              )}
+              Tambah
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <ColorPicker
+              value={color}
+              onChange={setColor}
+              disabled={isPending}
+            />
+            {name.trim() && <TagChip tag={{ name: name.trim(), color }} />}
+          </div>
+        </form>
+
+        {/* Daftar tag */}
+        {tags.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Belum ada tag.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {tags.map((tag) => (
+              <li key={tag.id} className="p-3">
+                {editingId === tag.id ? (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      <Input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        maxLength={50}
+                        disabled={isPending}
+                        className="h-8"
+                      />
+                      <Button
+                        type="button"
+                        size="icon"
+                        className="size-8"
+                        onClick={() => handleUpdate(tag.id)}
+                        disabled={isPending || !editName.trim()}
+                      >
+                        <Check className="size-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8"
+                        onClick={() => setEditingId(null)}
+                        disabled={isPending}
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    </div>
+                    <ColorPicker
+                      value={editColor}
+                      onChange={setEditColor}
+                      disabled={isPending}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-2">
+                      <TagChip tag={tag} />
+                      <span className="text-xs text-muted-foreground">
+                        /?tag={tag.slug}
+                      </span>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8"
+                        onClick={() => startEdit(tag)}
+                        disabled={isPending}
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeleteTarget(tag)}
+                        disabled={isPending}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hapus Tag</DialogTitle>
+            <DialogDescription>
+              Tag &ldquo;{deleteTarget?.name}&rdquo; akan dilepas dari semua
+              journey. Journey-nya sendiri tidak terhapus.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteTarget(null)}
+              disabled={isPending}
+            >
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isPending}
+            >
+              {isPending && <Loader2 className="size-4 animate-spin" />}
+              Hapus
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
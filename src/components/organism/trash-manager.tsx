@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { format, formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+import { ImageOff, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/shadcn/dialog";
+import { purgeMilestone, restoreMilestone } from "@/lib/actions/milestones";
+import type { Milestone } from "@/lib/types/milestones";
+
+interface TrashManagerProps {
+  initialMilestones: Milestone[];
+  className?: string;
+}
+
+/**
+ * Daftar journey di tempat sampah dengan aksi pulihkan & hapus permanen
+ * Hanya untuk editor/owner (izin milestone.delete)
+ */
+export function TrashManager({
+  initialMilestones,
+  className,
+}: TrashManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [milestones, setMilestones] = useState<Milestone[]>(initialMilestones);
+
+  // Konfirmasi hapus permanen
+  const [purgeTarget, setPurgeTarget] = useState<Milestone | null>(null);
+
+  const removeFromList = (milestoneId: string) =>
+    setMilestones((prev) => prev.filter((item) => item.id !== milestoneId));
+
+  const handleRestore = (milestone: Milestone) => {
+    startTransition(async () => {
+      const result = await restoreMilestone(milestone.id);
+      if (!result.success) {
+        toast.error(result.error || "Gagal memulihkan journey");
+        return;
+      }
+      removeFromList(milestone.id);
+      toast.success(`"${milestone.title}" dipulihkan`);
+      router.refresh();
+    });
+  };
+
+  const handlePurge = () => {
+    if (!purgeTarget) return;
+    const target = purgeTarget;
+
+    startTransition(async () => {
+      const result = await purgeMilestone(target.id);
+      setPurgeTarget(null);
+      if (!result.success) {
+        toast.error(result.error || "Gagal menghapus journey");
+        return;
+      }
+      removeFromList(target.id);
+      toast.success("Journey dihapus permanen");
+      router.refresh();
+    });
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="size-5" />
+          Tempat Sampah
+        </CardTitle>
+        <CardDescription>
+          Journey yang dihapus tersimpan di sini sampai dihapus permanen beserta
+          gambarnya
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {milestones.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Tempat sampah kosong.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {milestones.map((milestone) => (
+              <li key={milestone.id} className="flex items-center gap-3 p-3">
+                {milestone.thumbnail_url ? (
+                  <Image
+                    src={milestone.thumbnail_url}
+                    alt={milestone.title}
+                    width={96}
+                    height={54}
+                    className="aspect-video w-20 shrink-0 rounded object-cover"
+                  />
+                ) : (
+                  <div className="flex aspect-video w-20 shrink-0 items-center justify-center rounded bg-muted text-muted-foreground">
+                    <ImageOff className="size-4" />
+                  </div>
+                )}
+                <div className="min-w-0 flex-1 space-y-0.5">
+                  <p className="truncate font-medium">{milestone.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(milestone.event_date), "d MMMM yyyy", {
+                      locale: id,
+                    })}
+                    {milestone.deleted_at &&
+                      ` · dihapus ${formatDistanceToNow(
+                        new Date(milestone.deleted_at),
+                        { addSuffix: true, locale: id },
+                      )}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    aria-label="Pulihkan journey"
+                    onClick={() => handleRestore(milestone)}
+                    disabled={isPending}
+                  >
+                    <RotateCcw className="size-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-8 text-destructive hover:text-destructive"
+                    aria-label="Hapus permanen"
+                    onClick={() => setPurgeTarget(milestone)}
+                    disabled={isPending}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={purgeTarget !== null}
+        onOpenChange={(open) => !open && setPurgeTarget(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hapus Permanen</DialogTitle>
+            <DialogDescription>
+              Journey &ldquo;{purgeTarget?.title}&rdquo; beserta semua gambar
+              dan riwayat versinya akan dihapus. Tindakan ini tidak dapat
+              dibatalkan.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPurgeTarget(null)}
+              disabled={isPending}
+            >
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handlePurge}
+              disabled={isPending}
+            >
+              {isPending && <Loader2 className="size-4 animate-spin" />}
+              Hapus Permanen
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
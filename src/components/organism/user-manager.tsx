@@ -0,0 +1,307 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Loader2,
+  Mail,
+  Send,
+  ShieldCheck,
+  UserCheck,
+  UserX,
+  Users,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/shadcn/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn/card";
+import { Input } from "@/components/shadcn/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/shadcn/dialog";
+import { RoleSelect } from "@/components/molecules/role-select";
+import { inviteUser, setUserActive, setUserRole } from "@/lib/actions/users";
+import { ROLE_LABELS } from "@/lib/permissions";
+import type { Role } from "@/lib/types/roles";
+import type { ManagedUser } from "@/lib/types/users";
+
+interface UserManagerProps {
+  initialUsers: ManagedUser[];
+  currentUserId: string;
+  className?: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  google: "Google",
+  email: "Email OTP",
+};
+
+/**
+ * Keterangan login terakhir / status undangan
+ */
+function formatLastSignIn(user: ManagedUser): string {
+  if (user.last_sign_in_at) {
+    return `Login ${formatDistanceToNow(new Date(user.last_sign_in_at), {
+      addSuffix: true,
+      locale: id,
+    })}`;
+  }
+  return user.invited_at ? "Diundang, belum login" : "Belum pernah login";
+}
+
+/**
+ * Kelola user (role, undangan, nonaktifkan)
+ * Hanya untuk owner (izin user.manage)
+ */
+export function UserManager({
+  initialUsers,
+  currentUserId,
+  className,
+}: UserManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [users, setUsers] = useState<ManagedUser[]>(initialUsers);
+
+  // Form undangan
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("contributor");
+
+  // Konfirmasi nonaktifkan
+  const [deactivateTarget, setDeactivateTarget] = useState<ManagedUser | null>(
+    null,
+  );
+
+  const updateUser = (userId: string, patch: Partial<ManagedUser>) =>
+    setUsers((prev) =>
+      prev.map((user) => (user.id === userId ? { ...user, ...patch } : user)),
+    );
+
+  const handleInvite = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    startTransition(async () => {
+      const result = await inviteUser({
+        email: email.trim(),
+        role: inviteRole,
+      });
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Gagal mengirim undangan");
+        return;
+      }
+      setUsers((prev) => [...prev, result.data!]);
+      setEmail("");
+      toast.success("Undangan terkirim", {
+        description: `${result.data.email} bisa login setelah membuka email undangan`,
+      });
+      router.refresh();
+    });
+  };
+
+  const handleRoleChange = (user: ManagedUser, role: Role) => {
+    if (role === user.role) return;
+
+    startTransition(async () => {
+      const result = await setUserRole({ userId: user.id, role });
+      if (!result.success) {
+        toast.error(result.error || "Gagal mengubah role");
+        return;
+      }
+      updateUser(user.id, { role });
+      toast.success(
+        user.role
+          ? `Role ${user.email} diubah menjadi ${ROLE_LABELS[role]}`
+          : `${user.email} diberi akses sebagai ${ROLE_LABELS[role]}`,
+      );
+      router.refresh();
+    });
+  };
+
+  const handleSetActive = (user: ManagedUser, active: boolean) => {
+    startTransition(async () => {
+      const result = await setUserActive({ userId: user.id, active });
+      setDeactivateTarget(null);
+      if (!result.success) {
+        toast.error(result.error || "Gagal mengubah status user");
+        return;
+      }
+      updateUser(user.id, { is_active: active });
+      toast.success(active ? "User diaktifkan" : "User dinonaktifkan");
+      router.refresh();
+    });
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="size-5" />
+          User
+        </CardTitle>
+        <CardDescription>
+          Atur role, undang email baru, atau nonaktifkan akses user
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Undang user */}
+        <form
+          onSubmit={handleInvite}
+          className="flex flex-col gap-2 sm:flex-row"
+        >
+          <Input
+            type="email"
+            placeholder="email@contoh.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={isPending}
+          />
+          <div className="flex gap-2">
+            <RoleSelect
+              value={inviteRole}
+              onChange={setInviteRole}
+              disabled={isPending}
+            />
+            <Button type="submit" disabled={isPending || !email.trim()}>
+              {isPending ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <Send className="size-4" />
+              )}
+              Undang
+            </Button>
+          </div>
+        </form>
+
+        {/* Daftar user */}
+        {users.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Belum ada user.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {users.map((user) => {
+              const isSelf = user.id === currentUserId;
+
+              return (
+                <li
+                  key={user.id}
+                  className={cn(
+                    "flex flex-col gap-3 p-3 sm:flex-row sm:items-center sm:justify-between",
+                    !user.is_active && "opacity-60",
+                  )}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="flex items-center gap-1.5 truncate font-medium">
+                      {user.role === "owner" && (
+                        <ShieldCheck className="size-4 shrink-0 text-primary" />
+                      )}
+                      {user.name || user.email}
+                      {isSelf && (
+                        <span className="text-xs font-normal text-muted-foreground">
+                          (Anda)
+                        </span>
+                      )}
+                    </p>
+                    {user.name && (
+                      <p className="flex items-center gap-1 truncate text-xs text-muted-foreground">
+                        <Mail className="size-3" />
+                        {user.email}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {PROVIDER_LABELS[user.provider] ?? user.provider} ·{" "}
+                      {formatLastSignIn(user)}
+                      {!user.role && " · Tanpa akses"}
+                      {!user.is_active && " · Nonaktif"}
+                    </p>
+                  </div>
+
+                  <div className="flex shrink-0 items-center gap-2">
+                    <RoleSelect
+                      value={user.role}
+                      onChange={(role) => handleRoleChange(user, role)}
+                      disabled={isPending || isSelf}
+                    />
+                    {user.is_active ? (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8 text-destructive hover:text-destructive"
+                        aria-label="Nonaktifkan user"
+                        onClick={() => setDeactivateTarget(user)}
+                        disabled={isPending || isSelf}
+                      >
+                        <UserX className="size-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8"
+                        aria-label="Aktifkan user"
+                        onClick={() => handleSetActive(user, true)}
+                        disabled={isPending}
+                      >
+                        <UserCheck className="size-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={deactivateTarget !== null}
+        onOpenChange={(open) => !open && setDeactivateTarget(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nonaktifkan User</DialogTitle>
+            <DialogDescription>
+              {deactivateTarget?.email} tidak akan bisa login lagi sampai
+              diaktifkan kembali. Journey yang sudah dibuat tidak terhapus.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeactivateTarget(null)}
+              disabled={isPending}
+            >
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() =>
+                deactivateTarget && handleSetActive(deactivateTarget, false)
+              }
+              disabled={isPending}
+            >
+              {isPending && <Loader2 className="size-4 animate-spin" />}
+              Nonaktifkan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Mendaftarkan service worker (public/sw.js) untuk PWA & Web Push
+ * Hanya di production agar cache tidak mengganggu hot reload saat development
+ */
+export function ServiceWorkerRegister() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register("/sw.js", { scope: "/" })
+      .catch((error) => console.error("Service worker register error:", error));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,147 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod/v4";
+import { hasPermission } from "@/lib/actions/roles";
+import { AUDIT_ACTIONS } from "@/lib/audit-filters";
+import type {
+  AuditEntry,
+  AuditLogPage,
+  GetAuditLogOptions,
+} from "@/lib/types/audit";
+
+/**
+ * Tipe hasil untuk aksi audit log
+ */
+export type AuditResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Schema validasi opsi audit log
+ */
+const getAuditLogSchema = z.object({
+  milestoneId: z.string().uuid("ID milestone tidak valid").optional(),
+  actorId: z.string().uuid("ID user tidak valid").optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  cursor: z.string().max(500).nullish(),
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+});
+
+/**
+ * Encode posisi terakhir halaman (created_at, id) menjadi cursor opaque
+ */
+function encodeCursor(entry: AuditEntry): string {
+  return Buffer.from(JSON.stringify([entry.created_at, entry.id])).toString(
+    "base64url",
+  );
+}
+
+// created_at disisipkan ke filter .or(), jadi hanya karakter timestamp yang diterima
+const cursorSchema = z.tuple([
+  z
+    .string()
+    .max(50)
+    .regex(/^[0-9T:.+\- ]+$/),
+  z.string().uuid(),
+]);
+
+/**
+ * Decode cursor, mengembalikan null jika format tidak valid
+ */
+function decodeCursor(
+  cursor: string,
+): { createdAt: string; id: string } | null {
+  try {
+    const parsed = cursorSchema.safeParse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")),
+    );
+    if (!parsed.success) return null;
+    const [createdAt, id] = parsed.data;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mengambil audit log per halaman (terbaru dulu) dengan filter
+ * milestone, user, atau aksi
+ * Memerlukan izin audit.view (owner), dibatasi juga oleh RLS
+ */
+export async function getAuditLog(
+  options: GetAuditLogOptions = {},
+): Promise<AuditResult<AuditLogPage>> {
+  if (!(await hasPermission("audit.view"))) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk melihat audit log.",
+    };
+  }
+
+  const validation = getAuditLogSchema.safeParse(options);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Filter tidak valid",
+    };
+  }
+
+  const { milestoneId, actorId, action, cursor } = validation.data;
+  const limit = validation.data.limit ?? DEFAULT_PAGE_SIZE;
+
+  const position = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !position) {
+    return {
+      success: false,
+      error: "Cursor halaman tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  let query = supabase
+    .from("audit_log")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1);
+
+  if (milestoneId) query = query.eq("milestone_id", milestoneId);
+  if (actorId) query = query.eq("actor_id", actorId);
+  if (action) query = query.eq("action", action);
+
+  if (position) {
+    query = query.or(
+      `created_at.lt."${position.createdAt}",and(created_at.eq."${position.createdAt}",id.lt.${position.id})`,
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil audit log",
+    };
+  }
+
+  // Ambil 1 baris ekstra untuk mengetahui apakah masih ada halaman berikutnya
+  const rows = data as AuditEntry[];
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    data: {
+      items,
+      nextCursor: hasMore ? encodeCursor(items[items.length - 1]) : null,
+    },
+  };
+}
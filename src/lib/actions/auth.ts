@@ -4,6 +4,12 @@ import { redirect } from "next/navigation";
 import { cookies } from "next/headers";
 import { createClient } from "@/lib/supabase/server";
 import { emailSchema, otpTokenSchema } from "@/lib/validations/auth";
+import { getSiteUrl } from "@/lib/site-url";
+import {
+  INVITE_TOKEN_COOKIE,
+  completeSignup,
+  getSignupAccess,
+} from "@/lib/auth/signup-access";
 
 /**
  * Tipe hasil untuk aksi autentikasi
@@ -21,25 +27,8 @@ export type AuthResult = {
 const OTP_SESSION_COOKIE = "otp_session";
 const OTP_SESSION_MAX_AGE = 600; // 10 menit
 
-/**
- * Mendapatkan URL situs untuk redirect
- * Menangani environment production dan development
- *
- * PENTING: Prioritaskan NEXT_PUBLIC_SITE_URL untuk custom domain
- * karena VERCEL_URL berisi domain internal Vercel (xxx.vercel.app)
- * yang tidak terdaftar di Supabase Redirect URLs
- */
-function getSiteUrl(): string {
-  // Prioritaskan custom domain dari env var
-  if (process.env.NEXT_PUBLIC_SITE_URL) {
-    return process.env.NEXT_PUBLIC_SITE_URL;
-  }
-  // Fallback ke Vercel URL (untuk preview deployments)
-  if (process.env.VERCEL_URL) {
-    return `https://${process.env.VERCEL_URL}`;
-  }
-  return "http://localhost:3000";
-}
+const NOT_INVITED_ERROR =
+  "Email belum diundang. Silakan hubungi administrator jika Anda memerlukan akses.";
 
 /**
  * Memulai alur login Google OAuth
@@ -87,6 +76,19 @@ export async function signInWithOTP(email: string): Promise<AuthResult> {
     };
   }
 
+  // Hanya member, pemegang undangan, atau email di allowlist yang boleh lanjut
+  const cookieStore = await cookies();
+  const access = await getSignupAccess(
+    validationResult.data,
+    cookieStore.get(INVITE_TOKEN_COOKIE)?.value,
+  );
+  if (!access.allowed) {
+    return {
+      success: false,
+      error: NOT_INVITED_ERROR,
+    };
+  }
+
   const supabase = await createClient();
 
   const { error } = await supabase.auth.signInWithOtp({
@@ -97,21 +99,6 @@ export async function signInWithOTP(email: string): Promise<AuthResult> {
   });
 
   if (error) {
-    // Pendaftaran ditutup atau user tidak ditemukan
-    if (
-      error.message.toLowerCase().includes("signups not allowed") ||
-      error.message.toLowerCase().includes("signup") ||
-      error.message.toLowerCase().includes("user not found") ||
-      (error.message.toLowerCase().includes("otp") &&
-        error.message.toLowerCase().includes("disabled"))
-    ) {
-      return {
-        success: false,
-        error:
-          "Pendaftaran tidak dibuka. Silakan hubungi administrator jika Anda memerlukan akses.",
-      };
-    }
-
     if (error.message.includes("rate limit")) {
       return {
         success: false,
@@ -126,7 +113,6 @@ export async function signInWithOTP(email: string): Promise<AuthResult> {
   }
 
   // Simpan email di HTTP-only cookie untuk verifikasi OTP
-  const cookieStore = await cookies();
   cookieStore.set(OTP_SESSION_COOKIE, validationResult.data, {
     httpOnly: true,
     secure: process.env.NODE_ENV === "production",
@@ -189,7 +175,7 @@ export async function verifyOTP(token: string): Promise<AuthResult> {
 
   const supabase = await createClient();
 
-  const { error } = await supabase.auth.verifyOtp({
+  const { data, error } = await supabase.auth.verifyOtp({
     email,
     token: tokenResult.data,
     type: "email",
@@ -216,6 +202,25 @@ export async function verifyOTP(token: string): Promise<AuthResult> {
     };
   }
 
+  // Periksa ulang allowlist (undangan bisa kedaluwarsa selama menunggu kode)
+  const cookieStore = await cookies();
+  const access = await getSignupAccess(
+    email,
+    cookieStore.get(INVITE_TOKEN_COOKIE)?.value,
+  );
+  if (
+    !access.allowed ||
+    !data.user ||
+    !(await completeSignup(data.user.id, access))
+  ) {
+    await supabase.auth.signOut();
+    return {
+      success: false,
+      error: NOT_INVITED_ERROR,
+    };
+  }
+  cookieStore.delete(INVITE_TOKEN_COOKIE);
+
   // Hapus sesi OTP setelah verifikasi berhasil
   await clearOTPSession();
 
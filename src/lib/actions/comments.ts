@@ -0,0 +1,363 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod/v4";
+import { MAX_COMMENT_LENGTH, REACTION_EMOJIS } from "@/lib/comments";
+import { can } from "@/lib/permissions";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import type {
+  CreateCommentInput,
+  MilestoneComment,
+  ReactionSummary,
+  ToggleReactionInput,
+  UpdateCommentInput,
+} from "@/lib/types/comments";
+
+/**
+ * Tipe hasil untuk aksi komentar & reaksi
+ */
+export type CommentResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const COMMENT_LIMIT = 200;
+
+const LOGIN_REQUIRED_ERROR =
+  "Silakan login untuk berkomentar dan memberi reaksi.";
+
+const milestoneIdSchema = z.string().uuid("ID milestone tidak valid");
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Komentar tidak boleh kosong")
+  .max(MAX_COMMENT_LENGTH, `Komentar maksimal ${MAX_COMMENT_LENGTH} karakter`);
+
+/**
+ * Schema validasi untuk membuat komentar
+ */
+const createCommentSchema = z.object({
+  milestone_id: milestoneIdSchema,
+  body: commentBodySchema,
+});
+
+/**
+ * Schema validasi untuk mengedit komentar
+ */
+const updateCommentSchema = z.object({
+  id: z.string().uuid("ID komentar tidak valid"),
+  body: commentBodySchema,
+});
+
+/**
+ * Schema validasi untuk reaksi
+ */
+const toggleReactionSchema = z.object({
+  milestone_id: milestoneIdSchema,
+  emoji: z.enum(REACTION_EMOJIS, "Reaksi tidak dikenal"),
+});
+
+/**
+ * Mengambil komentar milestone, terlama dulu
+ * RLS hanya mengembalikan komentar pada journey yang boleh dilihat user
+ */
+export async function getMilestoneComments(
+  milestoneId: string,
+): Promise<CommentResult<MilestoneComment[]>> {
+  const idValidation = milestoneIdSchema.safeParse(milestoneId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID milestone tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_comments")
+    .select("*")
+    .eq("milestone_id", milestoneId)
+    .order("created_at", { ascending: true })
+    .limit(COMMENT_LIMIT);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil komentar",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as MilestoneComment[],
+  };
+}
+
+/**
+ * Menambahkan komentar pada milestone
+ * Semua member yang login boleh berkomentar pada journey yang bisa dilihatnya
+ * created_by & created_by_email diisi database dari sesi
+ */
+export async function createComment(
+  input: CreateCommentInput,
+): Promise<CommentResult<MilestoneComment>> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const validation = createCommentSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  // Pastikan journey terlihat oleh user (RLS milestones)
+  const { data: milestone } = await supabase
+    .from("milestones")
+    .select("id")
+    .eq("id", validation.data.milestone_id)
+    .maybeSingle();
+
+  if (!milestone) {
+    return {
+      success: false,
+      error: "Journey tidak ditemukan",
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("milestone_comments")
+    .insert({
+      milestone_id: validation.data.milestone_id,
+      body: validation.data.body,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengirim komentar",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as MilestoneComment,
+  };
+}
+
+/**
+ * Mengedit komentar milik sendiri
+ */
+export async function updateComment(
+  input: UpdateCommentInput,
+): Promise<CommentResult<MilestoneComment>> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const validation = updateCommentSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_comments")
+    .update({ body: validation.data.body })
+    .eq("id", validation.data.id)
+    .eq("created_by", access.userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengedit komentar",
+    };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: "Komentar tidak ditemukan atau bukan milik Anda",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as MilestoneComment,
+  };
+}
+
+/**
+ * Menghapus komentar
+ * Pemilik komentar boleh menghapus komentarnya sendiri; izin
+ * comment.moderate (editor/owner) boleh menghapus komentar siapa pun
+ */
+export async function deleteComment(commentId: string): Promise<CommentResult> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const idValidation = z.string().uuid().safeParse(commentId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID komentar tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  let query = supabase.from("milestone_comments").delete().eq("id", commentId);
+  if (!can(access, "comment.moderate")) {
+    query = query.eq("created_by", access.userId);
+  }
+
+  const { data, error } = await query.select("id");
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal menghapus komentar",
+    };
+  }
+
+  if (!data || data.length === 0) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda hanya dapat menghapus komentar milik sendiri.",
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Ringkasan reaksi milestone, urut sesuai REACTION_EMOJIS
+ * Emoji tanpa reaksi tidak ikut dikembalikan
+ */
+export async function getMilestoneReactions(
+  milestoneId: string,
+): Promise<CommentResult<ReactionSummary[]>> {
+  const idValidation = milestoneIdSchema.safeParse(milestoneId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID milestone tidak valid",
+    };
+  }
+
+  const access = await getCurrentAccess();
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_reactions")
+    .select("emoji, user_id")
+    .eq("milestone_id", milestoneId);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil reaksi",
+    };
+  }
+
+  const rows = data as { emoji: string; user_id: string }[];
+
+  return {
+    success: true,
+    data: REACTION_EMOJIS.map((emoji) => {
+      const matches = rows.filter((row) => row.emoji === emoji);
+      return {
+        emoji,
+        count: matches.length,
+        reacted: matches.some((row) => row.user_id === access.userId),
+      };
+    }).filter((summary) => summary.count > 0),
+  };
+}
+
+/**
+ * Memberi reaksi, atau menghapusnya jika user sudah memberi reaksi yang sama
+ * Mengembalikan ringkasan reaksi terbaru
+ */
+export async function toggleReaction(
+  input: ToggleReactionInput,
+): Promise<CommentResult<ReactionSummary[]>> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const validation = toggleReactionSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const { milestone_id, emoji } = validation.data;
+  const supabase = await createClient();
+
+  const { data: removed, error: deleteError } = await supabase
+    .from("milestone_reactions")
+    .delete()
+    .eq("milestone_id", milestone_id)
+    .eq("user_id", access.userId)
+    .eq("emoji", emoji)
+    .select("emoji");
+
+  if (deleteError) {
+    return {
+      success: false,
+      error: "Gagal menyimpan reaksi",
+    };
+  }
+
+  if (!removed || removed.length === 0) {
+    const { error } = await supabase
+      .from("milestone_reactions")
+      .insert({ milestone_id, emoji });
+
+    // 23505: reaksi yang sama baru saja disimpan dari tab lain
+    if (error && error.code !== "23505") {
+      return {
+        success: false,
+        error: "Gagal menyimpan reaksi",
+      };
+    }
+  }
+
+  return getMilestoneReactions(milestone_id);
+}
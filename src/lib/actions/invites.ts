@@ -0,0 +1,336 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { z } from "zod/v4";
+import { createClient } from "@/lib/supabase/server";
+import { hasPermission } from "@/lib/actions/roles";
+import { ROLES } from "@/lib/permissions";
+import { getSiteUrl } from "@/lib/site-url";
+import { emailSchema } from "@/lib/validations/auth";
+import type {
+  AllowlistEntry,
+  CreateAllowlistEntryInput,
+  CreateInviteLinkInput,
+  InviteLink,
+} from "@/lib/types/invites";
+
+/**
+ * Tipe hasil untuk aksi undangan & allowlist
+ */
+export type InviteResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const INVITE_EXPIRY_DAYS = [1, 7, 30] as const;
+const INVITE_TOKEN_BYTES = 24;
+
+const domainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((value) => value.replace(/^@/, ""))
+  .pipe(
+    z
+      .string()
+      .regex(
+        /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/,
+        "Domain tidak valid, contoh gkygerendeng.org",
+      ),
+  );
+
+/**
+ * Schema validasi untuk entri allowlist
+ */
+const allowlistEntrySchema = z.object({
+  kind: z.enum(["email", "domain"]),
+  value: z.string().min(1, "Email atau domain wajib diisi").max(254),
+  role: z.enum(ROLES),
+  expires_in_days: z.number().int().min(1).max(365).optional(),
+});
+
+/**
+ * Schema validasi untuk link undangan
+ */
+const inviteLinkSchema = z.object({
+  role: z.enum(ROLES),
+  email: z.string().optional(),
+  expires_in_days: z
+    .number()
+    .int()
+    .refine(
+      (days) => (INVITE_EXPIRY_DAYS as readonly number[]).includes(days),
+      "Masa berlaku tidak valid",
+    ),
+});
+
+const UNAUTHORIZED_ERROR =
+  "Tidak diizinkan. Diperlukan akses owner untuk mengelola undangan.";
+
+function addDays(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function withInviteUrl(invite: InviteLink): InviteLink {
+  return { ...invite, url: `${getSiteUrl()}/invite/${invite.token}` };
+}
+
+/**
+ * Mengambil semua entri allowlist
+ * Hanya owner (izin user.manage) yang bisa mengakses
+ */
+export async function getSignupAllowlist(): Promise<
+  InviteResult<AllowlistEntry[]>
+> {
+  if (!(await hasPermission("user.manage"))) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("signup_allowlist")
+    .select("*")
+    .order("kind", { ascending: true })
+    .order("value", { ascending: true });
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil allowlist",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as AllowlistEntry[],
+  };
+}
+
+/**
+ * Menambahkan email atau domain ke allowlist
+ */
+export async function addAllowlistEntry(
+  input: CreateAllowlistEntryInput,
+): Promise<InviteResult<AllowlistEntry>> {
+  if (!(await hasPermission("user.manage"))) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const validation = allowlistEntrySchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const valueValidation =
+    validation.data.kind === "email"
+      ? emailSchema.safeParse(validation.data.value.trim().toLowerCase())
+      : domainSchema.safeParse(validation.data.value);
+  if (!valueValidation.success) {
+    return {
+      success: false,
+      error: valueValidation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("signup_allowlist")
+    .insert({
+      kind: validation.data.kind,
+      value: valueValidation.data.toLowerCase(),
+      role: validation.data.role,
+      expires_at: validation.data.expires_in_days
+        ? addDays(validation.data.expires_in_days)
+        : null,
+      created_by: user?.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error:
+        error.code === "23505"
+          ? "Email/domain sudah ada di allowlist"
+          : "Gagal menambahkan allowlist",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as AllowlistEntry,
+  };
+}
+
+/**
+ * Menghapus entri allowlist
+ * User yang sudah terdaftar tetap bisa login
+ */
+export async function removeAllowlistEntry(
+  id: string,
+): Promise<InviteResult<void>> {
+  if (!(await hasPermission("user.manage"))) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const idValidation = z.string().uuid().safeParse(id);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID allowlist tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("signup_allowlist")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal menghapus allowlist",
+    };
+  }
+
+  return {
+    success: true,
+  };
+}
+
+/**
+ * Mengambil link undangan, terbaru lebih dulu
+ */
+export async function getInviteLinks(): Promise<InviteResult<InviteLink[]>> {
+  if (!(await hasPermission("user.manage"))) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("invite_links")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil link undangan",
+    };
+  }
+
+  return {
+    success: true,
+    data: (data as InviteLink[]).map(withInviteUrl),
+  };
+}
+
+/**
+ * Membuat link undangan sekali pakai dengan masa berlaku
+ * Jika email diisi, hanya email tersebut yang bisa memakai link
+ */
+export async function createInviteLink(
+  input: CreateInviteLinkInput,
+): Promise<InviteResult<InviteLink>> {
+  if (!(await hasPermission("user.manage"))) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const validation = inviteLinkSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  let email: string | null = null;
+  if (validation.data.email?.trim()) {
+    const emailValidation = emailSchema.safeParse(
+      validation.data.email.trim().toLowerCase(),
+    );
+    if (!emailValidation.success) {
+      return {
+        success: false,
+        error: emailValidation.error.issues[0]?.message || "Email tidak valid",
+      };
+    }
+    email = emailValidation.data.toLowerCase();
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("invite_links")
+    .insert({
+      token: randomBytes(INVITE_TOKEN_BYTES).toString("base64url"),
+      email,
+      role: validation.data.role,
+      expires_at: addDays(validation.data.expires_in_days),
+      created_by: user?.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal membuat link undangan",
+    };
+  }
+
+  return {
+    success: true,
+    data: withInviteUrl(data as InviteLink),
+  };
+}
+
+/**
+ * Mencabut link undangan (link langsung tidak bisa dipakai)
+ */
+export async function revokeInviteLink(
+  id: string,
+): Promise<InviteResult<void>> {
+  if (!(await hasPermission("user.manage"))) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const idValidation = z.string().uuid().safeParse(id);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID undangan tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from("invite_links").delete().eq("id", id);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mencabut link undangan",
+    };
+  }
+
+  return {
+    success: true,
+  };
+}
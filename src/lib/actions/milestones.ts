@@ -1,9 +1,28 @@
 "use server";
 
+import { after as afterResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { z } from "zod/v4";
+import { MILESTONE_SORTS } from "@/lib/milestone-filters";
+import { MILESTONE_STATUSES, isPubliclyVisible } from "@/lib/milestone-status";
+import { MAX_DESCRIPTION_LENGTH, extractImageKeys } from "@/lib/markdown";
+import { can, canEditMilestone } from "@/lib/permissions";
+import { getCurrentAccess, hasPermission } from "@/lib/actions/roles";
+import { recordAudit, toMilestoneSnapshot } from "@/lib/audit/record";
+import { announceMilestonePublished } from "@/lib/notifications/published";
+import type { AuditSnapshot } from "@/lib/types/audit";
 import type {
+  ImageVariant,
   Milestone,
+  MilestoneImage,
+  MilestoneImageInput,
+  MilestonePage,
+  MilestoneSearchResult,
+  MilestoneSort,
+  MilestoneStatus,
+  MilestoneYear,
+  GetMilestonesOptions,
   CreateMilestoneInput,
   UpdateMilestoneInput,
 } from "@/lib/types/milestones";
@@ -15,19 +34,80 @@ export type MilestoneResult<T = void> = {
   success: boolean;
   data?: T;
   error?: string;
+  conflict?: Milestone; // Versi terbaru di server jika update ditolak karena versi basi
 };
 
+/**
+ * S3 key gambar yang sudah dikonfirmasi (bukan staging uploads/)
+ * URL http(s) tetap diterima untuk data lama
+ */
+const confirmedImageKey = z
+  .string()
+  .min(1, "Key gambar tidak valid")
+  .refine(
+    (key) => key.startsWith("milestones/") || /^https?:\/\//.test(key),
+    "Gambar belum dikonfirmasi. Silakan upload ulang.",
+  );
+
+/**
+ * Cover lama (image_url): key terkonfirmasi, atau string kosong untuk menghapus
+ */
+const coverImageKey = z.union([z.literal(""), confirmedImageKey]);
+
+/**
+ * Schema validasi untuk satu gambar gallery
+ */
+const milestoneImageSchema = z.object({
+  image_key: confirmedImageKey,
+  variants: z
+    .object({
+      thumbnail: confirmedImageKey,
+      card: confirmedImageKey,
+      full: confirmedImageKey,
+    })
+    .optional(),
+  caption: z.string().max(300, "Caption maksimal 300 karakter").optional(),
+  is_cover: z.boolean().optional(),
+});
+
+const milestoneStatusSchema = z.enum(MILESTONE_STATUSES);
+const publishAtSchema = z
+  .string()
+  .datetime({ offset: true, message: "Format jadwal publikasi tidak valid" });
+
+const MAX_GALLERY_IMAGES = 50;
+const MAX_TAGS = 10;
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 48;
+const SEARCH_RESULT_LIMIT = 50;
+
 /**
  * Schema validasi untuk membuat milestone
  * image_url sekarang menyimpan S3 key (bukan URL), presigned URL di-generate saat fetch
  */
 const createMilestoneSchema = z.object({
   title: z.string().min(1, "Judul wajib diisi").max(200),
-  description: z.string().max(2000).optional(),
+  description: z
+    .string()
+    .max(
+      MAX_DESCRIPTION_LENGTH,
+      `Deskripsi maksimal ${MAX_DESCRIPTION_LENGTH} karakter`,
+    )
+    .optional(),
   event_date: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Format tanggal tidak valid"),
-  image_url: z.string().optional(),
+  image_url: coverImageKey.optional(),
+  images: z
+    .array(milestoneImageSchema)
+    .max(MAX_GALLERY_IMAGES, `Maksimal ${MAX_GALLERY_IMAGES} gambar`)
+    .optional(),
+  tag_ids: z
+    .array(z.string().uuid("ID tag tidak valid"))
+    .max(MAX_TAGS, `Maksimal ${MAX_TAGS} tag`)
+    .optional(),
+  status: milestoneStatusSchema.optional(),
+  publish_at: publishAtSchema.optional(),
 });
 
 /**
@@ -36,89 +116,660 @@ const createMilestoneSchema = z.object({
 const updateMilestoneSchema = z.object({
   id: z.string().uuid("ID milestone tidak valid"),
   title: z.string().min(1).max(200).optional(),
-  description: z.string().max(2000).optional(),
+  description: z
+    .string()
+    .max(
+      MAX_DESCRIPTION_LENGTH,
+      `Deskripsi maksimal ${MAX_DESCRIPTION_LENGTH} karakter`,
+    )
+    .optional(),
   event_date: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/)
     .optional(),
-  image_url: z.string().optional(),
+  image_url: coverImageKey.optional(),
+  images: z
+    .array(milestoneImageSchema)
+    .max(MAX_GALLERY_IMAGES, `Maksimal ${MAX_GALLERY_IMAGES} gambar`)
+    .optional(),
+  tag_ids: z
+    .array(z.string().uuid("ID tag tidak valid"))
+    .max(MAX_TAGS, `Maksimal ${MAX_TAGS} tag`)
+    .optional(),
+  status: milestoneStatusSchema.optional(),
+  publish_at: publishAtSchema.optional(),
+  expected_updated_at: z.string().min(1).max(64).optional(),
 });
 
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Format tanggal tidak valid");
+const yearNumber = z.number().int().min(1900).max(2200);
+
+/**
+ * Schema validasi opsi pagination & filter
+ */
+const getMilestonesSchema = z
+  .object({
+    cursor: z.string().max(600).nullish(),
+    startYear: yearNumber.optional(),
+    limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    year: yearNumber.optional(),
+    month: z.number().int().min(1).max(12).optional(),
+    hasImage: z.boolean().optional(),
+    tag: z.string().max(60).optional(),
+    sort: z.enum(MILESTONE_SORTS).optional(),
+  })
+  .refine((options) => !options.month || options.year, {
+    message: "Filter bulan membutuhkan tahun",
+  })
+  .refine(
+    (options) => !options.from || !options.to || options.from <= options.to,
+    { message: "Tanggal awal harus sebelum tanggal akhir" },
+  );
+
+/**
+ * Kolom urutan untuk setiap opsi sort, id dipakai sebagai tie-breaker
+ */
+const SORT_ORDER: Record<
+  MilestoneSort,
+  { column: "event_date" | "updated_at" | "title"; ascending: boolean }
+> = {
+  newest: { column: "event_date", ascending: false },
+  oldest: { column: "event_date", ascending: true },
+  updated: { column: "updated_at", ascending: false },
+  title: { column: "title", ascending: true },
+};
+
+/**
+ * Kolom select milestone beserta gallery dan tag-nya
+ * tags di-embed lewat tabel penghubung milestone_tags
+ */
+const MILESTONE_SELECT = "*, images:milestone_images(*), tags(*)";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Encode posisi terakhir halaman (nilai kolom urutan, id) menjadi cursor opaque
+ */
+function encodeCursor(milestone: Milestone, sort: MilestoneSort): string {
+  const value = milestone[SORT_ORDER[sort].column] ?? "";
+  return Buffer.from(JSON.stringify([value, milestone.id])).toString(
+    "base64url",
+  );
+}
+
+const cursorSchema = z.tuple([z.string().max(300), z.string().uuid()]);
+
+/**
+ * Decode cursor, mengembalikan null jika format tidak valid
+ */
+function decodeCursor(cursor: string): { value: string; id: string } | null {
+  try {
+    const parsed = cursorSchema.safeParse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")),
+    );
+    if (!parsed.success) return null;
+    const [value, id] = parsed.data;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quote nilai untuk filter PostgREST .or() (judul bisa berisi koma/titik)
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Rentang tanggal [start, end) untuk filter tahun/bulan
+ */
+function getPeriodRange(
+  year: number,
+  month?: number,
+): { start: string; end: string } {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  if (!month) {
+    return { start: `${year}-01-01`, end: `${year + 1}-01-01` };
+  }
+  const nextYear = month === 12 ? year + 1 : year;
+  const nextMonth = month === 12 ? 1 : month + 1;
+  return {
+    start: `${year}-${pad(month)}-01`,
+    end: `${nextYear}-${pad(nextMonth)}-01`,
+  };
+}
+
+/**
+ * Menentukan S3 key cover dari gallery
+ * Cover adalah gambar bertanda is_cover, atau gambar pertama jika tidak ada
+ */
+function getCoverKey(images: MilestoneImageInput[]): string | null {
+  if (images.length === 0) return null;
+  return (images.find((image) => image.is_cover) ?? images[0]).image_key;
+}
+
+/**
+ * Menyimpan gallery milestone (menggantikan gallery lama)
+ * Posisi gambar mengikuti urutan array input. Hapus + insert berjalan dalam
+ * satu transaksi (RPC replace_milestone_images), jadi gallery lama tetap
+ * utuh jika insert gagal.
+ */
+async function saveMilestoneImages(
+  supabase: SupabaseServerClient,
+  milestoneId: string,
+  images: MilestoneImageInput[],
+): Promise<boolean> {
+  const coverKey = getCoverKey(images);
+  const { error } = await supabase.rpc("replace_milestone_images", {
+    p_milestone_id: milestoneId,
+    p_images: images.map((image, index) => ({
+      image_key: image.image_key,
+      variants: image.variants ?? null,
+      caption: image.caption || null,
+      position: index,
+      is_cover: image.image_key === coverKey,
+    })),
+  });
+
+  return !error;
+}
+
+/**
+ * Membatalkan milestone yang baru dibuat jika data turunannya gagal disimpan
+ * Memakai service role karena RLS hanya mengizinkan hapus permanen dari
+ * tempat sampah; gallery & tag ikut terhapus (ON DELETE CASCADE)
+ */
+async function discardCreatedMilestone(milestoneId: string): Promise<void> {
+  const { error } = await createAdminClient()
+    .from("milestones")
+    .delete()
+    .eq("id", milestoneId);
+
+  if (error) {
+    console.error(
+      "Discard milestone error:",
+      process.env.NODE_ENV === "development" ? error : milestoneId,
+    );
+  }
+}
+
+/**
+ * Menyimpan tag milestone (menggantikan tag lama)
+ * Satu transaksi lewat RPC replace_milestone_tags, seperti gallery
+ */
+async function saveMilestoneTags(
+  supabase: SupabaseServerClient,
+  milestoneId: string,
+  tagIds: string[],
+): Promise<boolean> {
+  const { error } = await supabase.rpc("replace_milestone_tags", {
+    p_milestone_id: milestoneId,
+    p_tag_ids: [...new Set(tagIds)],
+  });
+
+  return !error;
+}
+
+/**
+ * Snapshot milestone (beserta gallery & tag) untuk audit log
+ */
+async function getAuditSnapshot(
+  supabase: SupabaseServerClient,
+  milestoneId: string,
+) {
+  const { data } = await supabase
+    .from("milestones")
+    .select(MILESTONE_SELECT)
+    .eq("id", milestoneId)
+    .maybeSingle();
+
+  return data ? toMilestoneSnapshot(data as unknown as Milestone) : null;
+}
+
+/**
+ * Apakah isi journey berubah
+ * Status & jadwal publikasi tidak dihitung karena tidak ikut dipulihkan
+ */
+function hasContentChanges(
+  before: AuditSnapshot,
+  after: AuditSnapshot | null,
+): boolean {
+  if (!after) return false;
+  return Object.keys(before).some(
+    (key) =>
+      key !== "status" &&
+      key !== "publish_at" &&
+      JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+  );
+}
+
+const CONFLICT_ERROR =
+  "Journey sudah diubah oleh user lain sejak Anda membukanya. Periksa perubahan terbaru sebelum menyimpan.";
+
+/**
+ * Hasil konflik update beserta versi terbaru milestone (dengan presigned URL)
+ */
+async function getConflictResult(
+  supabase: SupabaseServerClient,
+  milestoneId: string,
+): Promise<MilestoneResult<Milestone>> {
+  const { data } = await supabase
+    .from("milestones")
+    .select(MILESTONE_SELECT)
+    .eq("id", milestoneId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  return {
+    success: false,
+    error: CONFLICT_ERROR,
+    conflict: data
+      ? await resolveMilestoneImages(data as unknown as Milestone)
+      : undefined,
+  };
+}
+
+/**
+ * Menentukan nilai status & publish_at yang disimpan
+ * - draft: jadwal dikosongkan
+ * - scheduled: publish_at wajib dan harus di masa mendatang
+ * - published: publish_at mencatat waktu terbit (dipertahankan jika sudah terbit)
+ * - archived: publish_at lama dipertahankan
+ */
+function resolvePublication(
+  status: MilestoneStatus,
+  publishAt: string | undefined,
+  existing?: Pick<Milestone, "status" | "publish_at">,
+):
+  | { status: MilestoneStatus; publish_at: string | null; error?: never }
+  | { error: string } {
+  switch (status) {
+    case "draft":
+      return { status, publish_at: null };
+    case "scheduled":
+      if (!publishAt || new Date(publishAt).getTime() <= Date.now()) {
+        return { error: "Jadwal publikasi harus di masa mendatang" };
+      }
+      return { status, publish_at: new Date(publishAt).toISOString() };
+    case "published":
+      return {
+        status,
+        publish_at:
+          existing && isPubliclyVisible(existing) && existing.publish_at
+            ? existing.publish_at
+            : new Date().toISOString(),
+      };
+    case "archived":
+      return { status, publish_at: existing?.publish_at ?? null };
+  }
+}
+
 /**
- * Memeriksa apakah user saat ini adalah admin
+ * Menyimpan versi milestone sebelum diubah ke milestone_revisions
+ * created_by & created_by_email diisi database dari sesi
  */
-export async function isAdmin(): Promise<boolean> {
+async function saveMilestoneRevision(
+  supabase: SupabaseServerClient,
+  milestone: Milestone,
+): Promise<boolean> {
+  const { error } = await supabase.from("milestone_revisions").insert({
+    milestone_id: milestone.id,
+    title: milestone.title,
+    description: milestone.description,
+    event_date: milestone.event_date,
+    image_url: milestone.image_url,
+    images: [...(milestone.images ?? [])]
+      .sort((a, b) => a.position - b.position)
+      .map((image) => ({
+        image_key: image.image_key,
+        variants: image.variants ?? undefined,
+        caption: image.caption ?? undefined,
+        is_cover: image.is_cover,
+      })),
+    tag_ids: (milestone.tags ?? []).map((tag) => tag.id),
+  });
+
+  return !error;
+}
+
+/**
+ * Resolve cover, seluruh gallery, dan gambar inline deskripsi ke presigned URL
+ * Gallery diurutkan berdasarkan position
+ */
+async function resolveMilestoneImages(
+  milestone: Milestone,
+): Promise<Milestone> {
+  const { getPresignedImageUrl } = await import("./storage");
+
+  let resolved = milestone;
+
+  // Milestone lama (sebelum gallery) hanya punya image_url, jadikan gallery 1 gambar
+  const images: MilestoneImage[] =
+    milestone.images && milestone.images.length > 0
+      ? milestone.images
+      : milestone.image_url
+        ? [
+            {
+              id: `legacy-${milestone.id}`,
+              milestone_id: milestone.id,
+              image_key: milestone.image_url,
+              variants: null,
+              caption: null,
+              position: 0,
+              is_cover: true,
+              created_at: milestone.created_at,
+            },
+          ]
+        : [];
+
+  if (milestone.image_url) {
+    const result = await getPresignedImageUrl(milestone.image_url);
+    if (result.success && result.url) {
+      resolved = { ...resolved, image_url: result.url };
+    }
+  }
+
+  const resolvedImages = await Promise.all(
+    [...images]
+      .sort((a, b) => a.position - b.position)
+      .map(async (image): Promise<MilestoneImage> => {
+        const result = await getPresignedImageUrl(image.image_key);
+
+        // Resolve setiap varian (thumbnail, card, full) jika tersedia
+        const variantUrls: Partial<Record<ImageVariant, string>> = {};
+        if (image.variants) {
+          await Promise.all(
+            (Object.keys(image.variants) as ImageVariant[]).map(
+              async (variant) => {
+                const variantResult = await getPresignedImageUrl(
+                  image.variants![variant],
+                );
+                if (variantResult.success && variantResult.url) {
+                  variantUrls[variant] = variantResult.url;
+                }
+              },
+            ),
+          );
+        }
+
+        return {
+          ...image,
+          image_url: result.success ? result.url : undefined,
+          variant_urls: variantUrls,
+        };
+      }),
+  );
+
+  // Grid memakai thumbnail cover, fallback ke cover ukuran penuh
+  const cover = resolvedImages.find((image) => image.is_cover);
+  const thumbnailUrl =
+    cover?.variant_urls?.thumbnail ?? resolved.image_url ?? undefined;
+
+  // Gambar inline di deskripsi Markdown
+  const descriptionImageUrls: Record<string, string> = {};
+  await Promise.all(
+    extractImageKeys(milestone.description).map(async (key) => {
+      const result = await getPresignedImageUrl(key);
+      if (result.success && result.url) descriptionImageUrls[key] = result.url;
+    }),
+  );
+
+  return {
+    ...resolved,
+    images: resolvedImages,
+    thumbnail_url: thumbnailUrl,
+    description_image_urls: descriptionImageUrls,
+  };
+}
+
+/**
+ * Mengambil milestone per halaman (cursor-based) dengan filter & urutan
+ * Semua user terautentikasi dapat membaca, draft disaring oleh RLS
+ * Hanya gambar di halaman ini yang di-resolve ke presigned URL
+ */
+export async function getMilestones(
+  options: GetMilestonesOptions = {},
+): Promise<MilestoneResult<MilestonePage>> {
+  const validation = getMilestonesSchema.safeParse(options);
+  if (!validation.success) {
+    return {
+      success: false,
+      error:
+        validation.error.issues[0]?.message || "Parameter halaman tidak valid",
+    };
+  }
+
+  const { cursor, startYear, from, to, year, month, hasImage, tag } =
+    validation.data;
+  const limit = validation.data.limit ?? DEFAULT_PAGE_SIZE;
+  const sort = validation.data.sort ?? "newest";
+  const { column, ascending } = SORT_ORDER[sort];
+
+  const position = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !position) {
+    return {
+      success: false,
+      error: "Cursor halaman tidak valid",
+    };
+  }
+
   const supabase = await createClient();
 
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
+  // Filter tag: slug -> id, lalu inner join ke milestone_tags
+  // Embed kosong (tag_filter) hanya dipakai untuk filter, chip tag di kartu tetap lengkap
+  let tagId: string | null = null;
+  if (tag) {
+    const { data: tagRow } = await supabase
+      .from("tags")
+      .select("id")
+      .eq("slug", tag)
+      .maybeSingle();
+    if (!tagRow) {
+      return {
+        success: true,
+        data: { items: [], nextCursor: null, total: 0 },
+      };
+    }
+    tagId = tagRow.id as string;
+  }
 
-  if (!user) return false;
+  const select: string = tagId
+    ? `${MILESTONE_SELECT}, tag_filter:milestone_tags!inner()`
+    : MILESTONE_SELECT;
 
-  const { data: admin } = await supabase
-    .from("admins")
-    .select("id")
-    .eq("user_id", user.id)
-    .single();
+  // Total hanya dihitung di halaman pertama
+  // Milestone di tempat sampah (deleted_at terisi) tidak ikut ditampilkan
+  let query = supabase
+    .from("milestones")
+    .select(select, position ? undefined : { count: "exact" })
+    .is("deleted_at", null)
+    .order(column, { ascending })
+    .order("id", { ascending })
+    .limit(limit + 1);
+
+  // Filter
+  if (from) query = query.gte("event_date", from);
+  if (to) query = query.lte("event_date", to);
+  if (year) {
+    const period = getPeriodRange(year, month);
+    query = query.gte("event_date", period.start).lt("event_date", period.end);
+  }
+  if (hasImage) query = query.not("image_url", "is", null);
+  if (tagId) query = query.eq("tag_filter.tag_id", tagId);
+
+  if (position) {
+    const op = ascending ? "gt" : "lt";
+    const value = quoteFilterValue(position.value);
+    query = query.or(
+      `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${position.id})`,
+    );
+  } else if (startYear && column === "event_date") {
+    // Lompat ke tahun: mulai dari akhir (newest) atau awal (oldest) tahun tsb
+    query = ascending
+      ? query.gte("event_date", `${startYear}-01-01`)
+      : query.lte("event_date", `${startYear}-12-31`);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil milestone",
+    };
+  }
 
-  return !!admin;
+  // Ambil 1 baris ekstra untuk mengetahui apakah masih ada halaman berikutnya
+  const rows = data as unknown as Milestone[];
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+
+  // Generate presigned URLs untuk gambar di halaman ini (cover + gallery)
+  const items = await Promise.all(pageRows.map(resolveMilestoneImages));
+
+  return {
+    success: true,
+    data: {
+      items,
+      nextCursor: hasMore
+        ? encodeCursor(pageRows[pageRows.length - 1], sort)
+        : null,
+      total: count ?? undefined,
+    },
+  };
 }
 
 /**
- * Mengambil semua milestone
- * Semua user terautentikasi dapat membaca
- * Gambar akan di-resolve ke presigned URL untuk private bucket
+ * Schema validasi kata kunci pencarian
  */
-export async function getMilestones(): Promise<MilestoneResult<Milestone[]>> {
+const searchQuerySchema = z
+  .string()
+  .trim()
+  .min(2, "Kata kunci minimal 2 karakter")
+  .max(100, "Kata kunci maksimal 100 karakter");
+
+/**
+ * Mencari milestone dengan full-text search Postgres (config indonesian)
+ * Ranking & highlight dihitung oleh fungsi SQL search_milestones,
+ * lalu data lengkap + gallery diambil untuk hasil yang cocok
+ */
+export async function searchMilestones(
+  query: string,
+): Promise<MilestoneResult<MilestoneSearchResult[]>> {
+  const validation = searchQuerySchema.safeParse(query);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Kata kunci tidak valid",
+    };
+  }
+
   const supabase = await createClient();
-  const { getPresignedImageUrl } = await import("./storage");
+
+  const { data: matches, error: searchError } = await supabase.rpc(
+    "search_milestones",
+    {
+      search_query: validation.data,
+      result_limit: SEARCH_RESULT_LIMIT,
+    },
+  );
+
+  if (searchError) {
+    return {
+      success: false,
+      error: "Gagal mencari journey",
+    };
+  }
+
+  const ranked = matches as Pick<
+    MilestoneSearchResult,
+    "id" | "rank" | "title_highlight" | "snippet"
+  >[];
+  if (ranked.length === 0) {
+    return { success: true, data: [] };
+  }
 
   const { data, error } = await supabase
     .from("milestones")
-    .select("*")
-    .order("event_date", { ascending: false });
+    .select(MILESTONE_SELECT)
+    .is("deleted_at", null)
+    .in(
+      "id",
+      ranked.map((match) => match.id),
+    );
 
   if (error) {
     return {
       success: false,
-      error: "Gagal mengambil milestone",
+      error: "Gagal mencari journey",
     };
   }
 
-  // Generate presigned URLs untuk semua gambar
-  const milestonesWithUrls = await Promise.all(
-    (data as Milestone[]).map(async (milestone) => {
-      if (milestone.image_url) {
-        const result = await getPresignedImageUrl(milestone.image_url);
-        if (result.success && result.url) {
-          return { ...milestone, image_url: result.url };
-        }
-      }
-      return milestone;
-    }),
+  // Pertahankan urutan ranking dari search_milestones
+  const byId = new Map((data as Milestone[]).map((row) => [row.id, row]));
+  const results = await Promise.all(
+    ranked
+      .filter((match) => byId.has(match.id))
+      .map(async (match) => ({
+        ...(await resolveMilestoneImages(byId.get(match.id)!)),
+        rank: match.rank,
+        title_highlight: match.title_highlight,
+        snippet: match.snippet,
+      })),
   );
 
   return {
     success: true,
-    data: milestonesWithUrls,
+    data: results,
+  };
+}
+
+/**
+ * Mengambil daftar tahun yang memiliki milestone beserta jumlahnya
+ * Dipakai untuk kontrol "lompat ke tahun"; dihitung di database lewat
+ * RPC milestone_years sehingga hanya satu baris per tahun yang dikirim
+ */
+export async function getMilestoneYears(): Promise<
+  MilestoneResult<MilestoneYear[]>
+> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc("milestone_years");
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil daftar tahun",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as MilestoneYear[],
   };
 }
 
 /**
  * Mengambil satu milestone berdasarkan ID
+ * Milestone di tempat sampah dianggap tidak ditemukan
  * Gambar akan di-resolve ke presigned URL untuk private bucket
  */
 export async function getMilestoneById(
   id: string,
 ): Promise<MilestoneResult<Milestone>> {
   const supabase = await createClient();
-  const { getPresignedImageUrl } = await import("./storage");
 
   const { data, error } = await supabase
     .from("milestones")
-    .select("*")
+    .select(MILESTONE_SELECT)
     .eq("id", id)
+    .is("deleted_at", null)
     .single();
 
   if (error) {
@@ -128,15 +779,8 @@ export async function getMilestoneById(
     };
   }
 
-  let milestone = data as Milestone;
-
-  // Generate presigned URL untuk gambar
-  if (milestone.image_url) {
-    const result = await getPresignedImageUrl(milestone.image_url);
-    if (result.success && result.url) {
-      milestone = { ...milestone, image_url: result.url };
-    }
-  }
+  // Generate presigned URL untuk cover dan gallery
+  const milestone = await resolveMilestoneImages(data as Milestone);
 
   return {
     success: true,
@@ -146,17 +790,18 @@ export async function getMilestoneById(
 
 /**
  * Membuat milestone baru
- * Hanya admin yang bisa mengakses
+ * Kontributor hanya bisa membuat draft, status lain memerlukan izin milestone.publish
  */
 export async function createMilestone(
   input: CreateMilestoneInput,
 ): Promise<MilestoneResult<Milestone>> {
-  // Periksa status admin terlebih dahulu
-  const adminCheck = await isAdmin();
-  if (!adminCheck) {
+  // Periksa izin terlebih dahulu
+  const access = await getCurrentAccess();
+  if (!can(access, "milestone.create")) {
     return {
       success: false,
-      error: "Tidak diizinkan. Diperlukan akses admin.",
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk membuat journey.",
     };
   }
 
@@ -169,10 +814,31 @@ export async function createMilestone(
     };
   }
 
+  const canPublish = can(access, "milestone.publish");
+  const status = validation.data.status ?? (canPublish ? "published" : "draft");
+  if (status !== "draft" && !canPublish) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda hanya dapat menyimpan journey sebagai draft.",
+    };
+  }
+
+  const publication = resolvePublication(status, validation.data.publish_at);
+  if (publication.error !== undefined) {
+    return {
+      success: false,
+      error: publication.error,
+    };
+  }
+
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
+
+  // Cover mengikuti gallery jika gallery diisi
+  const images = validation.data.images;
+  const imageUrl = images
+    ? getCoverKey(images)
+    : validation.data.image_url || null;
 
   const { data, error } = await supabase
     .from("milestones")
@@ -180,8 +846,10 @@ export async function createMilestone(
       title: validation.data.title,
       description: validation.data.description || null,
       event_date: validation.data.event_date,
-      image_url: validation.data.image_url || null,
-      created_by: user?.id,
+      image_url: imageUrl,
+      created_by: access.userId,
+      status: publication.status,
+      publish_at: publication.publish_at,
     })
     .select()
     .single();
@@ -193,6 +861,34 @@ export async function createMilestone(
     };
   }
 
+  if (images && !(await saveMilestoneImages(supabase, data.id, images))) {
+    await discardCreatedMilestone(data.id);
+    return {
+      success: false,
+      error: "Gagal menyimpan gallery, milestone tidak dibuat",
+    };
+  }
+
+  const tagIds = validation.data.tag_ids;
+  if (tagIds && !(await saveMilestoneTags(supabase, data.id, tagIds))) {
+    await discardCreatedMilestone(data.id);
+    return {
+      success: false,
+      error: "Gagal menyimpan tag, milestone tidak dibuat",
+    };
+  }
+
+  await recordAudit({
+    action: "milestone.create",
+    milestone: data,
+    after: await getAuditSnapshot(supabase, data.id),
+  });
+
+  // Journey terjadwal diumumkan job /api/notifications/scheduled saat publish_at tiba
+  if (isPubliclyVisible(data)) {
+    afterResponse(() => announceMilestonePublished(data, access.userId));
+  }
+
   return {
     success: true,
     data: data as Milestone,
@@ -201,20 +897,11 @@ export async function createMilestone(
 
 /**
  * Memperbarui milestone yang ada
- * Hanya admin yang bisa mengakses
+ * Editor/owner bisa mengedit semua journey, kontributor hanya draft miliknya
  */
 export async function updateMilestone(
   input: UpdateMilestoneInput,
 ): Promise<MilestoneResult<Milestone>> {
-  // Periksa status admin terlebih dahulu
-  const adminCheck = await isAdmin();
-  if (!adminCheck) {
-    return {
-      success: false,
-      error: "Tidak diizinkan. Diperlukan akses admin.",
-    };
-  }
-
   // Validasi input
   const validation = updateMilestoneSchema.safeParse(input);
   if (!validation.success) {
@@ -224,8 +911,52 @@ export async function updateMilestone(
     };
   }
 
+  const access = await getCurrentAccess();
   const supabase = await createClient();
 
+  // Periksa izin terhadap pemilik & status milestone saat ini
+  // Data lengkap sekalian dipakai sebagai "before" di audit log
+  const { data: existing } = await supabase
+    .from("milestones")
+    .select(MILESTONE_SELECT)
+    .eq("id", validation.data.id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!existing || !canEditMilestone(access, existing)) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk mengubah journey ini.",
+    };
+  }
+
+  // Optimistic concurrency: tolak jika milestone sudah berubah sejak form dibuka
+  const expectedUpdatedAt = validation.data.expected_updated_at;
+  if (expectedUpdatedAt && existing.updated_at !== expectedUpdatedAt) {
+    return getConflictResult(supabase, validation.data.id);
+  }
+
+  // Kontributor hanya mengedit draft, jadi status selain draft selalu berarti publish/jadwal/arsip
+  const status = validation.data.status;
+  if (status && status !== "draft" && !can(access, "milestone.publish")) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk mempublikasikan journey.",
+    };
+  }
+
+  const publication = status
+    ? resolvePublication(status, validation.data.publish_at, existing)
+    : null;
+  if (publication?.error !== undefined) {
+    return {
+      success: false,
+      error: publication.error,
+    };
+  }
+
   // Bangun objek update hanya dengan field yang disediakan
   const updateData: Record<string, unknown> = {};
   if (validation.data.title) updateData.title = validation.data.title;
@@ -235,21 +966,88 @@ export async function updateMilestone(
     updateData.event_date = validation.data.event_date;
   if (validation.data.image_url !== undefined)
     updateData.image_url = validation.data.image_url || null;
+  // Cover mengikuti gallery jika gallery diisi
+  if (validation.data.images)
+    updateData.image_url = getCoverKey(validation.data.images);
+  if (publication) {
+    updateData.status = publication.status;
+    updateData.publish_at = publication.publish_at;
+  }
 
-  const { data, error } = await supabase
+  // Filter updated_at sekali lagi agar dua simpan bersamaan tidak saling menimpa
+  let updateQuery = supabase
     .from("milestones")
     .update(updateData)
-    .eq("id", validation.data.id)
-    .select()
-    .single();
+    .eq("id", validation.data.id);
+  if (expectedUpdatedAt) {
+    updateQuery = updateQuery.eq("updated_at", expectedUpdatedAt);
+  }
+  const { data, error } = await updateQuery.select().maybeSingle();
 
-  if (error) {
+  if (!error && !data && expectedUpdatedAt) {
+    return getConflictResult(supabase, validation.data.id);
+  }
+
+  if (error || !data) {
     return {
       success: false,
       error: "Gagal memperbarui milestone",
     };
   }
 
+  if (
+    validation.data.images &&
+    !(await saveMilestoneImages(
+      supabase,
+      validation.data.id,
+      validation.data.images,
+    ))
+  ) {
+    return {
+      success: false,
+      error: "Gagal menyimpan gallery",
+    };
+  }
+
+  if (
+    validation.data.tag_ids &&
+    !(await saveMilestoneTags(
+      supabase,
+      validation.data.id,
+      validation.data.tag_ids,
+    ))
+  ) {
+    return {
+      success: false,
+      error: "Gagal menyimpan tag",
+    };
+  }
+
+  const before = toMilestoneSnapshot(existing as unknown as Milestone);
+  const after = await getAuditSnapshot(supabase, data.id);
+
+  await recordAudit({
+    action: "milestone.update",
+    milestone: data,
+    before,
+    after,
+  });
+
+  if (!isPubliclyVisible(existing) && isPubliclyVisible(data)) {
+    afterResponse(() => announceMilestonePublished(data, access.userId));
+  }
+
+  // Simpan versi lama agar bisa dipulihkan dari halaman edit
+  if (
+    hasContentChanges(before, after) &&
+    !(await saveMilestoneRevision(supabase, existing as unknown as Milestone))
+  ) {
+    return {
+      success: false,
+      error: "Journey tersimpan, tetapi gagal menyimpan riwayat versi",
+    };
+  }
+
   return {
     success: true,
     data: data as Milestone,
@@ -257,18 +1055,20 @@ export async function updateMilestone(
 }
 
 /**
- * Menghapus milestone
- * Hanya admin yang bisa mengakses
+ * Memindahkan milestone ke tempat sampah (soft delete)
+ * Bisa dipulihkan lewat restoreMilestone sampai dihapus permanen
+ * Memerlukan izin milestone.delete (editor/owner)
  */
 export async function deleteMilestone(
   id: string,
 ): Promise<MilestoneResult<void>> {
-  // Periksa status admin terlebih dahulu
-  const adminCheck = await isAdmin();
-  if (!adminCheck) {
+  // Periksa izin terlebih dahulu
+  const access = await getCurrentAccess();
+  if (!can(access, "milestone.delete")) {
     return {
       success: false,
-      error: "Tidak diizinkan. Diperlukan akses admin.",
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk menghapus journey.",
     };
   }
 
@@ -282,16 +1082,212 @@ export async function deleteMilestone(
   }
 
   const supabase = await createClient();
+  const before = await getAuditSnapshot(supabase, id);
+
+  const { data, error } = await supabase
+    .from("milestones")
+    .update({ deleted_at: new Date().toISOString(), deleted_by: access.userId })
+    .eq("id", id)
+    .is("deleted_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: "Gagal menghapus milestone",
+    };
+  }
 
+  if (before) {
+    await recordAudit({
+      action: "milestone.delete",
+      milestone: { id, title: before.title as string },
+      before,
+    });
+  }
+
+  return {
+    success: true,
+  };
+}
+
+/**
+ * Mengambil milestone di tempat sampah, terbaru dihapus dulu
+ * Memerlukan izin milestone.delete (editor/owner)
+ */
+export async function getDeletedMilestones(): Promise<
+  MilestoneResult<Milestone[]>
+> {
+  if (!(await hasPermission("milestone.delete"))) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk membuka tempat sampah.",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestones")
+    .select(MILESTONE_SELECT)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil isi tempat sampah",
+    };
+  }
+
+  return {
+    success: true,
+    data: await Promise.all(
+      (data as unknown as Milestone[]).map(resolveMilestoneImages),
+    ),
+  };
+}
+
+/**
+ * Mengembalikan milestone dari tempat sampah (dipakai juga oleh toast "Undo")
+ * Memerlukan izin milestone.delete (editor/owner)
+ */
+export async function restoreMilestone(
+  id: string,
+): Promise<MilestoneResult<void>> {
+  if (!(await hasPermission("milestone.delete"))) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk memulihkan journey.",
+    };
+  }
+
+  const idValidation = z.string().uuid().safeParse(id);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID milestone tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestones")
+    .update({ deleted_at: null, deleted_by: null })
+    .eq("id", id)
+    .not("deleted_at", "is", null)
+    .select("id, title")
+    .maybeSingle();
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: "Gagal memulihkan milestone",
+    };
+  }
+
+  await recordAudit({
+    action: "milestone.restore",
+    milestone: data,
+    after: { deleted_at: null },
+  });
+
+  return {
+    success: true,
+  };
+}
+
+/**
+ * Menghapus milestone secara permanen dari tempat sampah
+ * Semua gambar (gallery, cover, dan gambar di riwayat versi) ikut dihapus
+ * dari S3 lebih dulu; jika gagal, milestone tetap di tempat sampah
+ * Memerlukan izin milestone.delete (editor/owner)
+ */
+export async function purgeMilestone(
+  id: string,
+): Promise<MilestoneResult<void>> {
+  if (!(await hasPermission("milestone.delete"))) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk menghapus journey.",
+    };
+  }
+
+  const idValidation = z.string().uuid().safeParse(id);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID milestone tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data: milestone } = await supabase
+    .from("milestones")
+    .select(MILESTONE_SELECT)
+    .eq("id", id)
+    .not("deleted_at", "is", null)
+    .maybeSingle();
+
+  if (!milestone) {
+    return {
+      success: false,
+      error: "Journey tidak ada di tempat sampah",
+    };
+  }
+
+  const target = milestone as unknown as Milestone;
+  const { data: revisions } = await supabase
+    .from("milestone_revisions")
+    .select("image_url, images, description")
+    .eq("milestone_id", id);
+
+  const imageKeys = new Set<string>();
+  if (target.image_url) imageKeys.add(target.image_url);
+  (target.images ?? []).forEach((image) => imageKeys.add(image.image_key));
+  extractImageKeys(target.description).forEach((key) => imageKeys.add(key));
+  (revisions ?? []).forEach((revision) => {
+    if (revision.image_url) imageKeys.add(revision.image_url);
+    extractImageKeys(revision.description).forEach((key) => imageKeys.add(key));
+    (revision.images as MilestoneImageInput[]).forEach((image) =>
+      imageKeys.add(image.image_key),
+    );
+  });
+
+  // Hapus objek S3 (semua varian) sebelum baris database
+  const { deleteMilestoneImage } = await import("./storage");
+  const deletions = await Promise.all(
+    [...imageKeys].map((key) => deleteMilestoneImage(key)),
+  );
+  if (deletions.some((result) => !result.success)) {
+    return {
+      success: false,
+      error: "Gagal menghapus gambar dari storage. Silakan coba lagi.",
+    };
+  }
+
+  // Gallery, tag, dan riwayat versi ikut terhapus via ON DELETE CASCADE
   const { error } = await supabase.from("milestones").delete().eq("id", id);
 
   if (error) {
     return {
       success: false,
-      error: "Gagal menghapus milestone",
+      error: "Gagal menghapus milestone secara permanen",
     };
   }
 
+  await recordAudit({
+    action: "milestone.purge",
+    milestone: target,
+    before: toMilestoneSnapshot(target),
+  });
+
   return {
     success: true,
   };
@@ -0,0 +1,137 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod/v4";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/lib/notification-preferences";
+import type {
+  NotificationPreferences,
+  UpdateNotificationPreferencesInput,
+} from "@/lib/types/notifications";
+
+/**
+ * Tipe hasil untuk aksi notifikasi
+ */
+export type NotificationResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const LOGIN_REQUIRED_ERROR = "Silakan login untuk mengatur notifikasi.";
+
+/**
+ * Schema validasi perubahan preferensi (field yang tidak dikirim tidak berubah)
+ */
+const updatePreferencesSchema = z.object({
+  milestone_published: z.boolean().optional(),
+  proposal_outcome: z.boolean().optional(),
+  weekly_digest: z.boolean().optional(),
+});
+
+function toPreferences(
+  row: Partial<NotificationPreferences> | null,
+): NotificationPreferences {
+  return {
+    milestone_published:
+      row?.milestone_published ??
+      DEFAULT_NOTIFICATION_PREFERENCES.milestone_published,
+    proposal_outcome:
+      row?.proposal_outcome ??
+      DEFAULT_NOTIFICATION_PREFERENCES.proposal_outcome,
+    weekly_digest:
+      row?.weekly_digest ?? DEFAULT_NOTIFICATION_PREFERENCES.weekly_digest,
+  };
+}
+
+/**
+ * Preferensi notifikasi user saat ini
+ * User yang belum pernah menyimpan pengaturan mendapat nilai default
+ */
+export async function getNotificationPreferences(): Promise<
+  NotificationResult<NotificationPreferences>
+> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("milestone_published, proposal_outcome, weekly_digest")
+    .eq("user_id", access.userId)
+    .maybeSingle();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil pengaturan notifikasi",
+    };
+  }
+
+  return {
+    success: true,
+    data: toPreferences(data),
+  };
+}
+
+/**
+ * Menyimpan preferensi notifikasi user saat ini
+ * Mengembalikan preferensi lengkap setelah disimpan
+ */
+export async function updateNotificationPreferences(
+  input: UpdateNotificationPreferencesInput,
+): Promise<NotificationResult<NotificationPreferences>> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const validation = updatePreferencesSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const current = await getNotificationPreferences();
+  if (!current.success || !current.data) {
+    return {
+      success: false,
+      error: current.error,
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .upsert({
+      user_id: access.userId,
+      ...current.data,
+      ...validation.data,
+    })
+    .select("milestone_published, proposal_outcome, weekly_digest")
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal menyimpan pengaturan notifikasi",
+    };
+  }
+
+  return {
+    success: true,
+    data: toPreferences(data),
+  };
+}
@@ -0,0 +1,635 @@
+"use server";
+
+import { after } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod/v4";
+import { MAX_DESCRIPTION_LENGTH, extractImageKeys } from "@/lib/markdown";
+import { can } from "@/lib/permissions";
+import { EDITABLE_PROPOSAL_STATUSES } from "@/lib/proposal-status";
+import { getCurrentAccess, hasPermission } from "@/lib/actions/roles";
+import { getPresignedImageUrl } from "@/lib/actions/storage";
+import { createMilestone } from "@/lib/actions/milestones";
+import { PROPOSAL_PREFIX, getProposalPrefix } from "@/lib/storage/s3";
+import {
+  deleteProposalObjects,
+  getProposalObjectKeys,
+  promoteProposalImages,
+} from "@/lib/storage/proposals";
+import { notifyProposalOutcome } from "@/lib/mail/notify";
+import type { Milestone } from "@/lib/types/milestones";
+import type {
+  MilestoneProposal,
+  ProposalStatus,
+  SubmitProposalInput,
+  UpdateProposalInput,
+} from "@/lib/types/proposals";
+
+/**
+ * Tipe hasil untuk aksi usulan journey
+ */
+export type ProposalResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const MAX_GALLERY_IMAGES = 50;
+const MAX_TAGS = 10;
+const MAX_REVIEW_NOTE_LENGTH = 1000;
+const PROPOSAL_LIMIT = 100;
+
+const REVIEW_FORBIDDEN_ERROR =
+  "Tidak diizinkan. Anda tidak memiliki akses untuk meninjau usulan.";
+
+const UNCONFIRMED_IMAGE_ERROR =
+  "Gambar belum dikonfirmasi. Silakan upload ulang.";
+
+/**
+ * Gambar usulan wajib berasal dari upload tujuan proposal (karantina)
+ * Kepemilikan prefix dicek terpisah lewat hasForeignProposalImages
+ */
+const proposalImageKey = z
+  .string()
+  .min(1, "Key gambar tidak valid")
+  .refine((key) => key.startsWith(PROPOSAL_PREFIX), UNCONFIRMED_IMAGE_ERROR);
+
+const proposalImageSchema = z.object({
+  image_key: proposalImageKey,
+  variants: z
+    .object({
+      thumbnail: proposalImageKey,
+      card: proposalImageKey,
+      full: proposalImageKey,
+    })
+    .optional(),
+  caption: z.string().max(300, "Caption maksimal 300 karakter").optional(),
+  is_cover: z.boolean().optional(),
+});
+
+/**
+ * Schema validasi isi usulan (sama dengan field form journey)
+ */
+const submitProposalSchema = z.object({
+  title: z.string().trim().min(1, "Judul wajib diisi").max(200),
+  description: z
+    .string()
+    .max(
+      MAX_DESCRIPTION_LENGTH,
+      `Deskripsi maksimal ${MAX_DESCRIPTION_LENGTH} karakter`,
+    )
+    .optional(),
+  event_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Format tanggal tidak valid"),
+  images: z
+    .array(proposalImageSchema)
+    .max(MAX_GALLERY_IMAGES, `Maksimal ${MAX_GALLERY_IMAGES} gambar`)
+    .optional(),
+  tag_ids: z
+    .array(z.string().uuid("ID tag tidak valid"))
+    .max(MAX_TAGS, `Maksimal ${MAX_TAGS} tag`)
+    .optional(),
+});
+
+const updateProposalSchema = submitProposalSchema.extend({
+  id: z.string().uuid("ID usulan tidak valid"),
+});
+
+const reviewNoteSchema = z
+  .string()
+  .trim()
+  .min(1, "Catatan atau alasan wajib diisi")
+  .max(
+    MAX_REVIEW_NOTE_LENGTH,
+    `Catatan maksimal ${MAX_REVIEW_NOTE_LENGTH} karakter`,
+  );
+
+/**
+ * Apakah usulan memakai gambar karantina milik user lain
+ * Gallery, varian, dan gambar inline harus berada di proposals/<user_id>/
+ * pengusul; tanpa cek ini pengusul bisa mereferensikan (lalu saat disetujui
+ * memindahkan & menghapus) gambar usulan member lain
+ */
+function hasForeignProposalImages(
+  data: z.infer<typeof submitProposalSchema>,
+  userId: string,
+): boolean {
+  const ownPrefix = getProposalPrefix(userId);
+  const keys = [
+    ...(data.images ?? []).flatMap((image) => [
+      image.image_key,
+      ...Object.values(image.variants ?? {}),
+    ]),
+    ...extractImageKeys(data.description),
+  ];
+
+  return keys.some(
+    (key) => key.startsWith(PROPOSAL_PREFIX) && !key.startsWith(ownPrefix),
+  );
+}
+
+/**
+ * Kolom usulan dari input yang sudah divalidasi
+ */
+function toProposalRow(data: z.infer<typeof submitProposalSchema>) {
+  const images = data.images ?? [];
+  const hasCover = images.some((image) => image.is_cover);
+
+  return {
+    title: data.title,
+    description: data.description?.trim() || null,
+    event_date: data.event_date,
+    // Gambar pertama menjadi cover jika belum dipilih
+    images: images.map((image, index) => ({
+      ...image,
+      is_cover: hasCover ? !!image.is_cover : index === 0,
+    })),
+    tag_ids: data.tag_ids ?? [],
+  };
+}
+
+/**
+ * Resolve thumbnail gallery dan gambar inline usulan ke presigned URL
+ * image_urls di-key dengan image_key (gallery) dan S3 key inline
+ */
+async function resolveProposalImages(
+  proposal: MilestoneProposal,
+): Promise<MilestoneProposal> {
+  const entries = await Promise.all([
+    ...proposal.images.map(async (image) => {
+      const result = await getPresignedImageUrl(
+        image.variants?.thumbnail ?? image.image_key,
+      );
+      return [image.image_key, result.url] as const;
+    }),
+    ...extractImageKeys(proposal.description).map(async (key) => {
+      const result = await getPresignedImageUrl(key);
+      return [key, result.url] as const;
+    }),
+  ]);
+
+  return {
+    ...proposal,
+    image_urls: Object.fromEntries(
+      entries.filter((entry): entry is [string, string] => !!entry[1]),
+    ),
+  };
+}
+
+/**
+ * Mengambil usulan milik user saat ini, terbaru dulu
+ */
+export async function getMyProposals(): Promise<
+  ProposalResult<MilestoneProposal[]>
+> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: "Silakan login untuk melihat usulan Anda",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_proposals")
+    .select("*")
+    .eq("created_by", access.userId)
+    .order("created_at", { ascending: false })
+    .limit(PROPOSAL_LIMIT);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil usulan",
+    };
+  }
+
+  return {
+    success: true,
+    data: await Promise.all(
+      (data as MilestoneProposal[]).map(resolveProposalImages),
+    ),
+  };
+}
+
+/**
+ * Mengambil satu usulan (milik sendiri, atau semua untuk reviewer via RLS)
+ */
+export async function getProposal(
+  proposalId: string,
+): Promise<ProposalResult<MilestoneProposal>> {
+  const idValidation = z.string().uuid().safeParse(proposalId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID usulan tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_proposals")
+    .select("*")
+    .eq("id", proposalId)
+    .maybeSingle();
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: "Usulan tidak ditemukan",
+    };
+  }
+
+  return {
+    success: true,
+    data: await resolveProposalImages(data as MilestoneProposal),
+  };
+}
+
+/**
+ * Antrean review: usulan pending dan yang menunggu perbaikan, terlama dulu
+ * Memerlukan izin proposal.review (editor/owner)
+ */
+export async function getProposalQueue(): Promise<
+  ProposalResult<MilestoneProposal[]>
+> {
+  if (!(await hasPermission("proposal.review"))) {
+    return {
+      success: false,
+      error: REVIEW_FORBIDDEN_ERROR,
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_proposals")
+    .select("*")
+    .in("status", [...EDITABLE_PROPOSAL_STATUSES])
+    .order("created_at", { ascending: true })
+    .limit(PROPOSAL_LIMIT);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil antrean usulan",
+    };
+  }
+
+  return {
+    success: true,
+    data: await Promise.all(
+      (data as MilestoneProposal[]).map(resolveProposalImages),
+    ),
+  };
+}
+
+/**
+ * Mengirim usulan journey baru ke antrean review
+ * Memerlukan izin proposal.submit (semua member)
+ * created_by & created_by_email diisi database dari sesi
+ */
+export async function submitProposal(
+  input: SubmitProposalInput,
+): Promise<ProposalResult<MilestoneProposal>> {
+  const access = await getCurrentAccess();
+  if (!access.userId || !can(access, "proposal.submit")) {
+    return {
+      success: false,
+      error: "Tidak diizinkan. Silakan login untuk mengusulkan journey.",
+    };
+  }
+
+  const validation = submitProposalSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  if (hasForeignProposalImages(validation.data, access.userId)) {
+    return {
+      success: false,
+      error: UNCONFIRMED_IMAGE_ERROR,
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_proposals")
+    .insert(toProposalRow(validation.data))
+    .select()
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengirim usulan",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as MilestoneProposal,
+  };
+}
+
+/**
+ * Memperbaiki usulan milik sendiri yang belum ditinjau atau diminta
+ * perbaikan; usulan kembali ke antrean sebagai pending
+ */
+export async function updateProposal(
+  input: UpdateProposalInput,
+): Promise<ProposalResult<MilestoneProposal>> {
+  const access = await getCurrentAccess();
+  if (!access.userId || !can(access, "proposal.submit")) {
+    return {
+      success: false,
+      error: "Tidak diizinkan. Silakan login untuk mengusulkan journey.",
+    };
+  }
+
+  const validation = updateProposalSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  if (hasForeignProposalImages(validation.data, access.userId)) {
+    return {
+      success: false,
+      error: UNCONFIRMED_IMAGE_ERROR,
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_proposals")
+    .update({
+      ...toProposalRow(validation.data),
+      status: "pending",
+    })
+    .eq("id", validation.data.id)
+    .eq("created_by", access.userId)
+    .in("status", [...EDITABLE_PROPOSAL_STATUSES])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal memperbarui usulan",
+    };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: "Usulan tidak ditemukan atau sudah ditinjau",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as MilestoneProposal,
+  };
+}
+
+/**
+ * Mengubah status usulan yang sedang menunggu review
+ * Hanya berhasil jika status saat ini salah satu dari `from`, sehingga dua
+ * reviewer tidak bisa memproses usulan yang sama bersamaan
+ */
+async function setProposalStatus(
+  proposalId: string,
+  from: ProposalStatus[],
+  status: ProposalStatus,
+  reviewNote: string | null,
+): Promise<MilestoneProposal | null> {
+  const access = await getCurrentAccess();
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from("milestone_proposals")
+    .update({
+      status,
+      review_note: reviewNote,
+      reviewed_by: access.userId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", proposalId)
+    .in("status", from)
+    .select()
+    .maybeSingle();
+
+  return (data as MilestoneProposal | null) ?? null;
+}
+
+/**
+ * Menyetujui usulan: gambar dipindahkan dari karantina ke milestones/,
+ * lalu journey dibuat (published) lewat createMilestone
+ * Memerlukan izin proposal.review (editor/owner)
+ */
+export async function approveProposal(
+  proposalId: string,
+): Promise<ProposalResult<Milestone>> {
+  if (!(await hasPermission("proposal.review"))) {
+    return {
+      success: false,
+      error: REVIEW_FORBIDDEN_ERROR,
+    };
+  }
+
+  const idValidation = z.string().uuid().safeParse(proposalId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID usulan tidak valid",
+    };
+  }
+
+  // Klaim usulan dulu agar tidak disetujui dua kali
+  const proposal = await setProposalStatus(
+    proposalId,
+    ["pending"],
+    "approved",
+    null,
+  );
+  if (!proposal) {
+    return {
+      success: false,
+      error: "Usulan tidak ditemukan atau sudah ditinjau",
+    };
+  }
+
+  const supabase = await createClient();
+  const revertClaim = () =>
+    supabase
+      .from("milestone_proposals")
+      .update({ status: "pending", reviewed_by: null, reviewed_at: null })
+      .eq("id", proposalId);
+
+  // Isi usulan bisa diubah langsung lewat RLS tanpa melewati action,
+  // jadi validasi gambar diulang sebelum objek disalin & dihapus
+  const content = submitProposalSchema.safeParse({
+    title: proposal.title,
+    description: proposal.description ?? undefined,
+    event_date: proposal.event_date,
+    images: proposal.images,
+    tag_ids: proposal.tag_ids,
+  });
+  if (
+    !content.success ||
+    !proposal.created_by ||
+    hasForeignProposalImages(content.data, proposal.created_by)
+  ) {
+    await revertClaim();
+    return {
+      success: false,
+      error:
+        "Usulan berisi gambar yang tidak valid. Minta pengusul mengunggah ulang gambarnya.",
+    };
+  }
+
+  let promoted: Awaited<ReturnType<typeof promoteProposalImages>>;
+  try {
+    promoted = await promoteProposalImages(proposal);
+  } catch (error) {
+    console.error(
+      "Promote proposal error:",
+      process.env.NODE_ENV === "development" ? error : "Failed",
+    );
+    await revertClaim();
+    return {
+      success: false,
+      error: "Gagal memindahkan gambar usulan. Silakan coba lagi.",
+    };
+  }
+
+  // Tag yang sudah dihapus sejak usulan dikirim dilewati
+  const { data: tags } = proposal.tag_ids.length
+    ? await supabase.from("tags").select("id").in("id", proposal.tag_ids)
+    : { data: [] };
+
+  const result = await createMilestone({
+    title: proposal.title,
+    description: promoted.description ?? undefined,
+    event_date: proposal.event_date,
+    images: promoted.images,
+    tag_ids: (tags ?? []).map((tag) => tag.id as string),
+    status: "published",
+  });
+
+  if (!result.success || !result.data) {
+    // Salinan di milestones/ yang tidak terpakai dibersihkan job GC
+    await revertClaim();
+    return {
+      success: false,
+      error: result.error || "Gagal membuat journey dari usulan",
+    };
+  }
+
+  // Usulan kini menunjuk ke gambar yang sudah dipindahkan
+  await supabase
+    .from("milestone_proposals")
+    .update({
+      milestone_id: result.data.id,
+      images: promoted.images,
+      description: promoted.description,
+    })
+    .eq("id", proposalId);
+
+  await deleteProposalObjects(getProposalObjectKeys(proposal));
+
+  after(() => notifyProposalOutcome(proposal));
+
+  return {
+    success: true,
+    data: result.data,
+  };
+}
+
+/**
+ * Meminta pengusul memperbaiki usulan, catatan wajib diisi
+ * Memerlukan izin proposal.review (editor/owner)
+ */
+export async function requestProposalChanges(
+  proposalId: string,
+  note: string,
+): Promise<ProposalResult<MilestoneProposal>> {
+  return reviewProposal(proposalId, "changes_requested", note);
+}
+
+/**
+ * Menolak usulan dengan alasan
+ * Gambar karantina tidak lagi dihitung terpakai dan dibersihkan job GC
+ * Memerlukan izin proposal.review (editor/owner)
+ */
+export async function rejectProposal(
+  proposalId: string,
+  reason: string,
+): Promise<ProposalResult<MilestoneProposal>> {
+  return reviewProposal(proposalId, "rejected", reason);
+}
+
+/**
+ * Validasi & simpan keputusan review yang disertai catatan
+ */
+async function reviewProposal(
+  proposalId: string,
+  status: "changes_requested" | "rejected",
+  note: string,
+): Promise<ProposalResult<MilestoneProposal>> {
+  if (!(await hasPermission("proposal.review"))) {
+    return {
+      success: false,
+      error: REVIEW_FORBIDDEN_ERROR,
+    };
+  }
+
+  const idValidation = z.string().uuid().safeParse(proposalId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID usulan tidak valid",
+    };
+  }
+
+  const noteValidation = reviewNoteSchema.safeParse(note);
+  if (!noteValidation.success) {
+    return {
+      success: false,
+      error: noteValidation.error.issues[0]?.message || "Catatan tidak valid",
+    };
+  }
+
+  // Usulan yang menunggu perbaikan tetap boleh ditolak
+  const proposal = await setProposalStatus(
+    proposalId,
+    status === "rejected" ? [...EDITABLE_PROPOSAL_STATUSES] : ["pending"],
+    status,
+    noteValidation.data,
+  );
+
+  if (!proposal) {
+    return {
+      success: false,
+      error: "Usulan tidak ditemukan atau sudah ditinjau",
+    };
+  }
+
+  after(() => notifyProposalOutcome(proposal));
+
+  return {
+    success: true,
+    data: proposal,
+  };
+}
@@ -0,0 +1,140 @@
+"use server";
+
+import { headers } from "next/headers";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { z } from "zod/v4";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { isAllowedPushEndpoint } from "@/lib/push/endpoints";
+import type { PushSubscriptionInput } from "@/lib/types/push";
+
+/**
+ * Tipe hasil untuk aksi langganan push
+ */
+export type PushSubscriptionResult = {
+  success: boolean;
+  error?: string;
+};
+
+const LOGIN_REQUIRED_ERROR = "Silakan login untuk mengatur notifikasi.";
+
+const endpointSchema = z
+  .url("Endpoint push tidak valid")
+  .max(2048)
+  .refine(isAllowedPushEndpoint, "Push service tidak didukung");
+
+/**
+ * Schema validasi langganan push dari browser
+ */
+const subscriptionSchema = z.object({
+  endpoint: endpointSchema,
+  keys: z.object({
+    p256dh: z.string().min(1, "Kunci langganan tidak lengkap").max(256),
+    auth: z.string().min(1, "Kunci langganan tidak lengkap").max(256),
+  }),
+});
+
+/**
+ * Menyimpan langganan push perangkat ini untuk user saat ini
+ * Endpoint unik per browser: jika perangkat dipakai akun lain,
+ * langganan berpindah ke akun yang sedang login
+ */
+export async function savePushSubscription(
+  input: PushSubscriptionInput,
+): Promise<PushSubscriptionResult> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const validation = subscriptionSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const { endpoint, keys } = validation.data;
+  const userAgent = (await headers()).get("user-agent")?.slice(0, 512) ?? null;
+
+  // Baris milik akun lain tidak terlihat lewat RLS, jadi dilepas dengan
+  // service role; endpoint hanya diketahui browser pemilik langganan
+  const { error: releaseError } = await createAdminClient()
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", endpoint)
+    .neq("user_id", access.userId);
+
+  if (releaseError) {
+    return {
+      success: false,
+      error: "Gagal menyimpan langganan notifikasi push",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from("push_subscriptions").upsert(
+    {
+      user_id: access.userId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      user_agent: userAgent,
+    },
+    { onConflict: "endpoint" },
+  );
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal menyimpan langganan notifikasi push",
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Menghapus langganan push perangkat ini
+ */
+export async function deletePushSubscription(
+  endpoint: string,
+): Promise<PushSubscriptionResult> {
+  const access = await getCurrentAccess();
+  if (!access.userId) {
+    return {
+      success: false,
+      error: LOGIN_REQUIRED_ERROR,
+    };
+  }
+
+  const validation = endpointSchema.safeParse(endpoint);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: "Endpoint push tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", validation.data)
+    .eq("user_id", access.userId);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal menonaktifkan notifikasi push",
+    };
+  }
+
+  return { success: true };
+}
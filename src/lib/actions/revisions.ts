@@ -0,0 +1,160 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod/v4";
+import { canEditMilestone } from "@/lib/permissions";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { getPresignedImageUrl } from "@/lib/actions/storage";
+import { updateMilestone } from "@/lib/actions/milestones";
+import type { Milestone, MilestoneRevision } from "@/lib/types/milestones";
+
+/**
+ * Tipe hasil untuk aksi riwayat versi
+ */
+export type RevisionResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const REVISION_LIMIT = 50;
+
+/**
+ * Thumbnail cover sebuah versi untuk diff gambar
+ */
+async function resolveRevisionCover(
+  revision: MilestoneRevision,
+): Promise<MilestoneRevision> {
+  const cover =
+    revision.images.find((image) => image.is_cover) ?? revision.images[0];
+  const key =
+    cover?.variants?.thumbnail ?? cover?.image_key ?? revision.image_url;
+  if (!key) return revision;
+
+  const result = await getPresignedImageUrl(key);
+  return result.success && result.url
+    ? { ...revision, cover_url: result.url }
+    : revision;
+}
+
+/**
+ * Mengambil riwayat versi milestone, terbaru dulu
+ * Hanya untuk user yang boleh mengedit milestone tersebut
+ */
+export async function getMilestoneRevisions(
+  milestoneId: string,
+): Promise<RevisionResult<MilestoneRevision[]>> {
+  const idValidation = z.string().uuid().safeParse(milestoneId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID milestone tidak valid",
+    };
+  }
+
+  const access = await getCurrentAccess();
+  const supabase = await createClient();
+
+  const { data: milestone } = await supabase
+    .from("milestones")
+    .select("created_by, status")
+    .eq("id", milestoneId)
+    .maybeSingle();
+
+  if (!milestone || !canEditMilestone(access, milestone)) {
+    return {
+      success: false,
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk melihat riwayat journey ini.",
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("milestone_revisions")
+    .select("*")
+    .eq("milestone_id", milestoneId)
+    .order("created_at", { ascending: false })
+    .limit(REVISION_LIMIT);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil riwayat versi",
+    };
+  }
+
+  return {
+    success: true,
+    data: await Promise.all(
+      (data as MilestoneRevision[]).map(resolveRevisionCover),
+    ),
+  };
+}
+
+/**
+ * Memulihkan milestone ke versi tertentu
+ * Melewati validasi & izin updateMilestone biasa, sehingga versi saat ini
+ * ikut tersimpan sebagai riwayat. Status publikasi tidak diubah.
+ */
+export async function restoreMilestoneRevision(
+  revisionId: string,
+): Promise<RevisionResult<Milestone>> {
+  const idValidation = z.string().uuid().safeParse(revisionId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID versi tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data: revision } = await supabase
+    .from("milestone_revisions")
+    .select("*")
+    .eq("id", revisionId)
+    .maybeSingle();
+
+  if (!revision) {
+    return {
+      success: false,
+      error: "Versi tidak ditemukan",
+    };
+  }
+
+  const target = revision as MilestoneRevision;
+
+  // Tag yang sudah dihapus sejak versi ini dilewati
+  let tagIds: string[] = [];
+  if (target.tag_ids.length > 0) {
+    const { data: tags } = await supabase
+      .from("tags")
+      .select("id")
+      .in("id", target.tag_ids);
+    tagIds = (tags ?? []).map((tag) => tag.id as string);
+  }
+
+  const result = await updateMilestone({
+    id: target.milestone_id,
+    title: target.title,
+    description: target.description ?? "",
+    event_date: target.event_date,
+    // Versi lama tanpa gallery hanya punya cover, dijadikan gallery 1 gambar
+    images:
+      target.images.length > 0
+        ? target.images
+        : target.image_url
+          ? [{ image_key: target.image_url, is_cover: true }]
+          : [],
+    tag_ids: tagIds,
+  });
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || "Gagal memulihkan versi",
+    };
+  }
+
+  return result;
+}
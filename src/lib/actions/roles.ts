@@ -0,0 +1,60 @@
+"use server";
+
+import { cache } from "react";
+import { createClient } from "@/lib/supabase/server";
+import {
+  ANONYMOUS_ACCESS,
+  DEFAULT_ROLE,
+  ROLE_PERMISSIONS,
+  ROLES,
+} from "@/lib/permissions";
+import type { AccessContext, Permission, Role } from "@/lib/types/roles";
+
+/**
+ * Resolve role user saat ini dari tabel user_roles
+ * Di-cache per request agar layout, page, dan action tidak query berulang
+ * User tanpa baris di user_roles bukan member (akun dibuat di luar
+ * allowlist/undangan) dan diperlakukan seperti belum login
+ */
+const loadAccess = cache(async (): Promise<AccessContext> => {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return ANONYMOUS_ACCESS;
+
+  const { data } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (!data) return ANONYMOUS_ACCESS;
+
+  const role = ROLES.includes(data.role as Role)
+    ? (data.role as Role)
+    : DEFAULT_ROLE;
+
+  return {
+    userId: user.id,
+    role,
+    permissions: ROLE_PERMISSIONS[role],
+  };
+});
+
+/**
+ * Mengambil role dan izin user saat ini
+ */
+export async function getCurrentAccess(): Promise<AccessContext> {
+  return loadAccess();
+}
+
+/**
+ * Memeriksa apakah user saat ini memiliki izin tertentu
+ */
+export async function hasPermission(permission: Permission): Promise<boolean> {
+  const access = await loadAccess();
+  return access.permissions.includes(permission);
+}
@@ -0,0 +1,188 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { z } from "zod/v4";
+import { createClient } from "@/lib/supabase/server";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { can } from "@/lib/permissions";
+import { getSiteUrl } from "@/lib/site-url";
+import type { CreateShareLinkInput, ShareLink } from "@/lib/types/shares";
+
+/**
+ * Tipe hasil untuk aksi link berbagi
+ */
+export type ShareResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const SHARE_EXPIRY_DAYS = [1, 7, 30] as const;
+const SHARE_TOKEN_BYTES = 24;
+
+const milestoneIdSchema = z.string().uuid("ID milestone tidak valid");
+
+/**
+ * Schema validasi untuk link berbagi
+ */
+const shareLinkSchema = z.object({
+  milestone_id: milestoneIdSchema,
+  expires_in_days: z
+    .number()
+    .int()
+    .refine(
+      (days) => (SHARE_EXPIRY_DAYS as readonly number[]).includes(days),
+      "Masa berlaku tidak valid",
+    )
+    .optional(),
+});
+
+const UNAUTHORIZED_ERROR =
+  "Tidak diizinkan. Diperlukan akses editor untuk membagikan journey.";
+
+function addDays(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function withShareUrl(link: ShareLink): ShareLink {
+  return { ...link, url: `${getSiteUrl()}/s/${link.token}` };
+}
+
+/**
+ * Mengambil link berbagi milik satu milestone, terbaru lebih dulu
+ * Hanya editor/owner (izin milestone.share)
+ */
+export async function getShareLinks(
+  milestoneId: string,
+): Promise<ShareResult<ShareLink[]>> {
+  const access = await getCurrentAccess();
+  if (!can(access, "milestone.share")) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const idValidation = milestoneIdSchema.safeParse(milestoneId);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID milestone tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("milestone_share_links")
+    .select("*")
+    .eq("milestone_id", milestoneId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil link berbagi",
+    };
+  }
+
+  return {
+    success: true,
+    data: (data as ShareLink[]).map(withShareUrl),
+  };
+}
+
+/**
+ * Membuat link berbagi publik untuk milestone
+ * Link hanya bisa dibuka selama journey berstatus terbit
+ */
+export async function createShareLink(
+  input: CreateShareLinkInput,
+): Promise<ShareResult<ShareLink>> {
+  const access = await getCurrentAccess();
+  if (!can(access, "milestone.share")) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const validation = shareLinkSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data: milestone } = await supabase
+    .from("milestones")
+    .select("id")
+    .eq("id", validation.data.milestone_id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!milestone) {
+    return {
+      success: false,
+      error: "Journey tidak ditemukan",
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("milestone_share_links")
+    .insert({
+      milestone_id: validation.data.milestone_id,
+      token: randomBytes(SHARE_TOKEN_BYTES).toString("base64url"),
+      expires_at: validation.data.expires_in_days
+        ? addDays(validation.data.expires_in_days)
+        : null,
+      created_by: access.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal membuat link berbagi",
+    };
+  }
+
+  return {
+    success: true,
+    data: withShareUrl(data as ShareLink),
+  };
+}
+
+/**
+ * Mencabut link berbagi (link langsung tidak bisa dibuka)
+ */
+export async function revokeShareLink(id: string): Promise<ShareResult> {
+  const access = await getCurrentAccess();
+  if (!can(access, "milestone.share")) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const idValidation = z.string().uuid().safeParse(id);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID link tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("milestone_share_links")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mencabut link berbagi",
+    };
+  }
+
+  return {
+    success: true,
+  };
+}
@@ -1,53 +1,102 @@
 "use server";
 
 import {
-  S3Client,
   PutObjectCommand,
   DeleteObjectCommand,
   GetObjectCommand,
+  HeadObjectCommand,
 } from "@aws-sdk/client-s3";
+import { randomUUID } from "crypto";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { isAdmin } from "./milestones";
-
-/**
- * Konfigurasi S3 Client untuk iDrive E2
- */
-const s3Client = new S3Client({
-  region: process.env.S3_REGION || "auto",
-  endpoint: process.env.S3_ENDPOINT,
-  credentials: {
-    accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
-    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
-  },
-  forcePathStyle: true, // Required untuk S3-compatible storage
-});
-
-const BUCKET_NAME = process.env.S3_BUCKET_NAME || "milestones";
+import { getCurrentAccess, hasPermission } from "./roles";
+import { recordAudit } from "@/lib/audit/record";
+import { createClient } from "@/lib/supabase/server";
+import {
+  processImageVariants,
+  getSiblingVariantKeys,
+  VARIANT_CONTENT_TYPE,
+} from "@/lib/images/process";
+import {
+  s3Client,
+  BUCKET_NAME,
+  MILESTONE_PREFIX,
+  getProposalPrefix,
+  getUploadStagingPrefix,
+} from "@/lib/storage/s3";
+import type { ImageVariantKeys } from "@/lib/types/milestones";
+import type { Permission } from "@/lib/types/roles";
 
 // Konstanta
-const MAX_FILE_SIZE = 1000 * 1024; // 1MB
-const PRESIGNED_URL_EXPIRES = 3600; // 1 jam dalam detik
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB (foto HP), diproses jadi varian WebP
+const PRESIGNED_URL_WINDOW = 3600; // 1 jam: URL stabil (sama persis) selama window ini
+const PRESIGNED_URL_EXPIRES = PRESIGNED_URL_WINDOW * 2; // URL dari awal window tetap valid ≥1 jam
+const SIGNED_URL_CACHE_LIMIT = 5000;
+const UPLOAD_URL_EXPIRES = 300; // 5 menit untuk presigned PUT
 
 // Magic bytes untuk validasi tipe file (mencegah MIME spoofing)
 const FILE_SIGNATURES: Record<string, { bytes: number[]; offset?: number }> = {
   "image/jpeg": { bytes: [0xff, 0xd8, 0xff] },
   "image/png": { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
   "image/webp": { bytes: [0x52, 0x49, 0x46, 0x46], offset: 0 }, // RIFF header
+  "image/heic": { bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 }, // "ftyp" box
+  "image/heif": { bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 }, // "ftyp" box
 };
 
-// Map MIME type ke extension (lebih aman daripada dari filename)
-const MIME_TO_EXT: Record<string, string> = {
-  "image/jpeg": "jpg",
-  "image/png": "png",
-  "image/webp": "webp",
-};
+// Brand ISO-BMFF yang valid untuk HEIC/HEIF (di offset 8)
+const HEIF_BRANDS = [
+  "heic",
+  "heix",
+  "hevc",
+  "hevx",
+  "heim",
+  "heis",
+  "mif1",
+  "msf1",
+];
 
-const ALLOWED_TYPES = Object.keys(MIME_TO_EXT);
+const ALLOWED_TYPES = Object.keys(FILE_SIGNATURES);
 
 export type StorageResult = {
   success: boolean;
   url?: string;
   key?: string;
+  variants?: ImageVariantKeys;
+  error?: string;
+};
+
+/**
+ * Tujuan upload gambar
+ * - milestone: gambar journey (milestones/), memerlukan izin media.upload
+ * - proposal: karantina usulan member (proposals/<user_id>/), memerlukan izin proposal.submit
+ */
+export type ImageDestination = "milestone" | "proposal";
+
+const DESTINATIONS: Record<
+  ImageDestination,
+  { getPrefix: (userId: string) => string; permission: Permission }
+> = {
+  milestone: { getPrefix: () => MILESTONE_PREFIX, permission: "media.upload" },
+  proposal: { getPrefix: getProposalPrefix, permission: "proposal.submit" },
+};
+
+/**
+ * Konfigurasi tujuan upload, null jika nilai tidak dikenal
+ */
+function resolveDestination(value: unknown) {
+  const destination = value ?? "milestone";
+  return destination === "milestone" || destination === "proposal"
+    ? DESTINATIONS[destination]
+    : null;
+}
+
+/**
+ * Hasil permintaan presigned PUT URL untuk upload langsung ke bucket
+ */
+export type UploadUrlResult = {
+  success: boolean;
+  uploadUrl?: string;
+  key?: string;
+  contentType?: string;
   error?: string;
 };
 
@@ -79,23 +128,82 @@ function validateMagicBytes(buffer: Buffer, mimeType: string): boolean {
     }
   }
 
+  // Untuk HEIC/HEIF, cek juga major brand di offset 8
+  if (mimeType === "image/heic" || mimeType === "image/heif") {
+    if (buffer.length < 12) return false;
+    const brand = buffer.subarray(8, 12).toString("ascii");
+    if (!HEIF_BRANDS.includes(brand)) return false;
+  }
+
   return true;
 }
 
+/**
+ * Menentukan MIME type file
+ * Beberapa browser mengirim HEIC tanpa MIME type, jadi fallback ke extension
+ */
+function resolveMimeType(file: File): string {
+  if (file.type) return file.type;
+  const ext = file.name.split(".").pop()?.toLowerCase();
+  if (ext === "heic" || ext === "heif") return `image/${ext}`;
+  return "";
+}
+
+/**
+ * Memproses gambar menjadi varian WebP lalu menyimpannya ke S3
+ * @param prefix - Prefix tujuan (milestones/ atau karantina proposals/<user_id>/)
+ * @returns S3 key setiap varian
+ */
+async function storeImageVariants(
+  buffer: Buffer,
+  mimeType: string,
+  prefix: string,
+): Promise<ImageVariantKeys> {
+  // Generate base key acak (tidak bisa ditebak), setiap varian disimpan di bawahnya
+  const baseKey = `${prefix}${randomUUID()}`;
+
+  // Resize ke varian WebP dan buang metadata EXIF/GPS
+  const processed = await processImageVariants(buffer, mimeType, baseKey);
+
+  // Upload semua varian ke S3
+  await Promise.all(
+    processed.map((variant) =>
+      s3Client.send(
+        new PutObjectCommand({
+          Bucket: BUCKET_NAME,
+          Key: variant.key,
+          Body: variant.body,
+          ContentType: VARIANT_CONTENT_TYPE,
+        }),
+      ),
+    ),
+  );
+
+  return Object.fromEntries(
+    processed.map((variant) => [variant.variant, variant.key]),
+  ) as ImageVariantKeys;
+}
+
 /**
  * Upload gambar milestone ke S3 (private bucket)
- * @param formData - FormData dengan file gambar
- * @returns S3 key untuk disimpan di database
+ * Gambar diproses menjadi varian thumbnail, card, dan full (WebP)
+ * @param formData - FormData dengan file gambar ("image") dan tujuan
+ *   opsional ("destination": milestone | proposal)
+ * @returns S3 key varian full dan key semua varian untuk disimpan di database
  */
 export async function uploadMilestoneImage(
   formData: FormData,
 ): Promise<StorageResult> {
-  // Cek admin
-  const adminCheck = await isAdmin();
-  if (!adminCheck) {
+  const destination = resolveDestination(formData.get("destination"));
+  if (!destination) {
+    return { success: false, error: "Tujuan upload tidak valid" };
+  }
+
+  // Cek izin upload
+  if (!(await hasPermission(destination.permission))) {
     return {
       success: false,
-      error: "Tidak diizinkan. Diperlukan akses admin.",
+      error: "Tidak diizinkan. Anda tidak memiliki akses untuk upload gambar.",
     };
   }
 
@@ -108,11 +216,13 @@ export async function uploadMilestoneImage(
     };
   }
 
+  const mimeType = resolveMimeType(file);
+
   // Validasi MIME type dari header (pertahanan pertama)
-  if (!ALLOWED_TYPES.includes(file.type)) {
+  if (!ALLOWED_TYPES.includes(mimeType)) {
     return {
       success: false,
-      error: "Tipe file tidak didukung. Gunakan JPEG, PNG, atau WebP.",
+      error: "Tipe file tidak didukung. Gunakan JPEG, PNG, WebP, atau HEIC.",
     };
   }
 
@@ -120,7 +230,7 @@ export async function uploadMilestoneImage(
   if (file.size > MAX_FILE_SIZE) {
     return {
       success: false,
-      error: `Ukuran file terlalu besar (max 1MB). Silakan compress gambar di https://compressjpeg.com/`,
+      error: "Ukuran file terlalu besar (max 20MB).",
     };
   }
 
@@ -130,34 +240,29 @@ export async function uploadMilestoneImage(
     const buffer = Buffer.from(arrayBuffer);
 
     // Validasi magic bytes (pertahanan kedua - mencegah MIME spoofing)
-    if (!validateMagicBytes(buffer, file.type)) {
+    if (!validateMagicBytes(buffer, mimeType)) {
       return {
         success: false,
         error: "File tidak valid. Pastikan file adalah gambar yang benar.",
       };
     }
 
-    // Generate unique filename dengan extension dari MIME type (bukan dari filename)
-    const ext = MIME_TO_EXT[file.type] || "jpg";
-    const timestamp = Date.now();
-    const randomStr = Math.random().toString(36).substring(2, 8);
-    const key = `milestones/${timestamp}-${randomStr}.${ext}`;
-
-    // Upload ke S3
-    await s3Client.send(
-      new PutObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-        Body: buffer,
-        ContentType: file.type,
-      }),
+    const { userId } = await getCurrentAccess();
+    const variants = await storeImageVariants(
+      buffer,
+      mimeType,
+      destination.getPrefix(userId!),
     );
+    const key = variants.full;
+
+    await recordAudit({ action: "image.upload", after: { key, variants } });
 
     // Return key (bukan URL) - presigned URL akan di-generate saat display
     return {
       success: true,
       key,
       url: key, // Simpan key sebagai "url" di database untuk backward compatibility
+      variants,
     };
   } catch (error) {
     // Log error tanpa expose detail ke client
@@ -172,10 +277,207 @@ export async function uploadMilestoneImage(
   }
 }
 
+/**
+ * Membuat presigned PUT URL agar browser bisa upload langsung ke bucket
+ * Content-Type dan Content-Length ikut ditandatangani, jadi upload harus sama persis
+ * @param input - MIME type, ukuran file (byte), dan tujuan upload
+ * @returns URL upload (valid 5 menit) dan staging key untuk dikonfirmasi
+ */
+export async function getImageUploadUrl(input: {
+  contentType: string;
+  size: number;
+  destination?: ImageDestination;
+}): Promise<UploadUrlResult> {
+  const destination = resolveDestination(input.destination);
+  if (!destination) {
+    return { success: false, error: "Tujuan upload tidak valid" };
+  }
+
+  // Cek izin upload
+  if (!(await hasPermission(destination.permission))) {
+    return {
+      success: false,
+      error: "Tidak diizinkan. Anda tidak memiliki akses untuk upload gambar.",
+    };
+  }
+
+  if (!ALLOWED_TYPES.includes(input.contentType)) {
+    return {
+      success: false,
+      error: "Tipe file tidak didukung. Gunakan JPEG, PNG, WebP, atau HEIC.",
+    };
+  }
+
+  if (!Number.isInteger(input.size) || input.size <= 0) {
+    return { success: false, error: "Ukuran file tidak valid" };
+  }
+
+  if (input.size > MAX_FILE_SIZE) {
+    return {
+      success: false,
+      error: "Ukuran file terlalu besar (max 20MB).",
+    };
+  }
+
+  const { userId } = await getCurrentAccess();
+
+  try {
+    // Key acak di bawah prefix milik user, lihat confirmImageUpload
+    const key = `${getUploadStagingPrefix(userId!)}${randomUUID()}`;
+
+    const uploadUrl = await getSignedUrl(
+      s3Client,
+      new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        ContentType: input.contentType,
+        ContentLength: input.size,
+      }),
+      {
+        expiresIn: UPLOAD_URL_EXPIRES,
+        signableHeaders: new Set(["content-type", "content-length"]),
+      },
+    );
+
+    return {
+      success: true,
+      uploadUrl,
+      key,
+      contentType: input.contentType,
+    };
+  } catch (error) {
+    console.error(
+      "Upload URL error:",
+      process.env.NODE_ENV === "development" ? error : "Failed",
+    );
+    return {
+      success: false,
+      error: "Gagal menyiapkan upload. Silakan coba lagi.",
+    };
+  }
+}
+
+/**
+ * Konfirmasi upload langsung dari browser
+ * Objek di staging diperiksa (ukuran, tipe, magic bytes), diproses menjadi
+ * varian WebP, lalu objek staging dihapus. Hanya key hasil konfirmasi
+ * yang boleh dipakai milestone, dan hanya user yang meminta upload yang
+ * bisa mengonfirmasi key-nya.
+ * @param key - Staging key dari getImageUploadUrl
+ * @param destinationInput - Tujuan varian hasil proses (default milestone)
+ * @returns S3 key varian full dan key semua varian
+ */
+export async function confirmImageUpload(
+  key: string,
+  destinationInput: ImageDestination = "milestone",
+): Promise<StorageResult> {
+  const destination = resolveDestination(destinationInput);
+  if (!destination) {
+    return { success: false, error: "Tujuan upload tidak valid" };
+  }
+
+  // Cek izin upload
+  if (!(await hasPermission(destination.permission))) {
+    return {
+      success: false,
+      error: "Tidak diizinkan. Anda tidak memiliki akses untuk upload gambar.",
+    };
+  }
+
+  // Staging key harus milik user yang meminta upload
+  const { userId } = await getCurrentAccess();
+  if (
+    !key ||
+    !userId ||
+    !key.startsWith(getUploadStagingPrefix(userId)) ||
+    key.includes("..")
+  ) {
+    return { success: false, error: "Key upload tidak valid" };
+  }
+
+  try {
+    const head = await s3Client.send(
+      new HeadObjectCommand({ Bucket: BUCKET_NAME, Key: key }),
+    );
+
+    const mimeType = head.ContentType ?? "";
+    if (!ALLOWED_TYPES.includes(mimeType)) {
+      return {
+        success: false,
+        error: "Tipe file tidak didukung. Gunakan JPEG, PNG, WebP, atau HEIC.",
+      };
+    }
+
+    if (!head.ContentLength || head.ContentLength > MAX_FILE_SIZE) {
+      return {
+        success: false,
+        error: "Ukuran file terlalu besar (max 20MB).",
+      };
+    }
+
+    const object = await s3Client.send(
+      new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key }),
+    );
+    const bytes = await object.Body?.transformToByteArray();
+    if (!bytes) {
+      return { success: false, error: "File upload tidak ditemukan" };
+    }
+    const buffer = Buffer.from(bytes);
+
+    // Validasi magic bytes tetap dijalankan setelah upload langsung
+    if (!validateMagicBytes(buffer, mimeType)) {
+      return {
+        success: false,
+        error: "File tidak valid. Pastikan file adalah gambar yang benar.",
+      };
+    }
+
+    const variants = await storeImageVariants(
+      buffer,
+      mimeType,
+      destination.getPrefix(userId),
+    );
+
+    await recordAudit({
+      action: "image.upload",
+      after: { key: variants.full, variants },
+    });
+
+    return {
+      success: true,
+      key: variants.full,
+      url: variants.full,
+      variants,
+    };
+  } catch (error) {
+    console.error(
+      "Confirm upload error:",
+      process.env.NODE_ENV === "development" ? error : "Failed",
+    );
+    return {
+      success: false,
+      error: "Gagal memproses gambar. Silakan coba lagi.",
+    };
+  } finally {
+    // Objek staging tidak pernah dipakai langsung, selalu dibuang
+    await s3Client
+      .send(new DeleteObjectCommand({ Bucket: BUCKET_NAME, Key: key }))
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Cache presigned URL per S3 key untuk window waktu yang sedang berjalan
+ * Ditandatangani dengan signingDate = awal window, jadi URL identik selama
+ * window dan cache browser / next/image bisa hit.
+ */
+const signedUrlCache = new Map<string, { url: string; window: number }>();
+
 /**
  * Generate presigned URL untuk mengakses gambar dari private bucket
+ * URL stabil dalam window 1 jam (time-bucketed) dan di-cache per key
  * @param key - S3 key dari gambar
- * @returns Presigned URL yang valid selama 1 jam
+ * @returns Presigned URL yang valid minimal 1 jam
  */
 export async function getPresignedImageUrl(
   key: string,
@@ -189,6 +491,14 @@ export async function getPresignedImageUrl(
     return { success: true, url: key };
   }
 
+  const windowMs = PRESIGNED_URL_WINDOW * 1000;
+  const window = Math.floor(Date.now() / windowMs);
+
+  const cached = signedUrlCache.get(key);
+  if (cached && cached.window === window) {
+    return { success: true, url: cached.url };
+  }
+
   try {
     const command = new GetObjectCommand({
       Bucket: BUCKET_NAME,
@@ -197,8 +507,18 @@ export async function getPresignedImageUrl(
 
     const url = await getSignedUrl(s3Client, command, {
       expiresIn: PRESIGNED_URL_EXPIRES,
+      signingDate: new Date(window * windowMs),
     });
 
+    // Buang entry window lama sebelum cache membesar
+    if (signedUrlCache.size >= SIGNED_URL_CACHE_LIMIT) {
+      for (const [cachedKey, entry] of signedUrlCache) {
+        if (entry.window !== window) signedUrlCache.delete(cachedKey);
+      }
+      if (signedUrlCache.size >= SIGNED_URL_CACHE_LIMIT) signedUrlCache.clear();
+    }
+    signedUrlCache.set(key, { url, window });
+
     return { success: true, url };
   } catch (error) {
     console.error(
@@ -212,6 +532,28 @@ export async function getPresignedImageUrl(
   }
 }
 
+/**
+ * Milestone pemilik gambar (jika masih tercatat di gallery) untuk audit log
+ */
+async function findImageMilestone(
+  key: string,
+): Promise<{ id: string; title: string | null } | null> {
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from("milestone_images")
+    .select("milestone_id, milestone:milestones(title)")
+    .eq("image_key", key)
+    .limit(1)
+    .maybeSingle();
+
+  if (!data) return null;
+  return {
+    id: data.milestone_id as string,
+    title: (data.milestone as { title?: string } | null)?.title ?? null,
+  };
+}
+
 /**
  * Hapus gambar dari S3
  * @param key - S3 key gambar yang akan dihapus
@@ -219,12 +561,12 @@ export async function getPresignedImageUrl(
 export async function deleteMilestoneImage(
   key: string,
 ): Promise<StorageResult> {
-  // Cek admin
-  const adminCheck = await isAdmin();
-  if (!adminCheck) {
+  // Cek izin hapus media
+  if (!(await hasPermission("media.delete"))) {
     return {
       success: false,
-      error: "Tidak diizinkan. Diperlukan akses admin.",
+      error:
+        "Tidak diizinkan. Anda tidak memiliki akses untuk menghapus gambar.",
     };
   }
 
@@ -238,17 +580,32 @@ export async function deleteMilestoneImage(
   }
 
   try {
-    if (!key.startsWith("milestones/")) {
+    if (!key.startsWith(MILESTONE_PREFIX)) {
       return { success: true }; // Bukan gambar dari storage kita
     }
 
-    await s3Client.send(
-      new DeleteObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      }),
+    // Hapus semua varian jika key berasal dari pipeline varian
+    const siblings = getSiblingVariantKeys(key);
+    const keys = siblings ? Object.values(siblings) : [key];
+    keys.forEach((variantKey) => signedUrlCache.delete(variantKey));
+
+    await Promise.all(
+      keys.map((variantKey) =>
+        s3Client.send(
+          new DeleteObjectCommand({
+            Bucket: BUCKET_NAME,
+            Key: variantKey,
+          }),
+        ),
+      ),
     );
 
+    await recordAudit({
+      action: "image.delete",
+      milestone: await findImageMilestone(key),
+      before: { key, variants: siblings },
+    });
+
     return { success: true };
   } catch (error) {
     console.error(
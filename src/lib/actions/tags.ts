@@ -0,0 +1,238 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod/v4";
+import { hasPermission } from "@/lib/actions/roles";
+import type { CreateTagInput, Tag, UpdateTagInput } from "@/lib/types/tags";
+
+/**
+ * Tipe hasil untuk aksi tag
+ */
+export type TagResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Nama tag wajib diisi")
+  .max(50, "Nama tag maksimal 50 karakter");
+
+const tagColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Warna harus berformat hex, contoh #2563eb");
+
+/**
+ * Schema validasi untuk membuat tag
+ */
+const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: tagColorSchema,
+});
+
+/**
+ * Schema validasi untuk update tag
+ */
+const updateTagSchema = z.object({
+  id: z.string().uuid("ID tag tidak valid"),
+  name: tagNameSchema.optional(),
+  color: tagColorSchema.optional(),
+});
+
+/**
+ * Membuat slug URL dari nama tag, contoh "Sekolah Minggu" -> "sekolah-minggu"
+ */
+function slugify(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Pesan error untuk pelanggaran unique (nama/slug sudah dipakai)
+ */
+function getTagWriteError(code: string | undefined, fallback: string): string {
+  return code === "23505" ? "Nama tag sudah digunakan" : fallback;
+}
+
+/**
+ * Mengambil semua tag, urut berdasarkan nama
+ * Semua user terautentikasi dapat membaca
+ */
+export async function getTags(): Promise<TagResult<Tag[]>> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("tags")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengambil daftar tag",
+    };
+  }
+
+  return {
+    success: true,
+    data: data as Tag[],
+  };
+}
+
+/**
+ * Membuat tag baru
+ * Memerlukan izin tag.manage (editor/owner)
+ */
+export async function createTag(
+  input: CreateTagInput,
+): Promise<TagResult<Tag>> {
+  if (!(await hasPermission("tag.manage"))) {
+    return {
+      success: false,
+      error: "Tidak diizinkan. Anda tidak memiliki akses untuk mengelola tag.",
+    };
+  }
+
+  const validation = createTagSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const slug = slugify(validation.data.name);
+  if (!slug) {
+    return {
+      success: false,
+      error: "Nama tag harus mengandung huruf atau angka",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("tags")
+    .insert({
+      name: validation.data.name,
+      slug,
+      color: validation.data.color.toLowerCase(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error: getTagWriteError(error.code, "Gagal membuat tag"),
+    };
+  }
+
+  return {
+    success: true,
+    data: data as Tag,
+  };
+}
+
+/**
+ * Memperbarui nama/warna tag
+ * Slug ikut berubah saat nama diubah
+ * Memerlukan izin tag.manage (editor/owner)
+ */
+export async function updateTag(
+  input: UpdateTagInput,
+): Promise<TagResult<Tag>> {
+  if (!(await hasPermission("tag.manage"))) {
+    return {
+      success: false,
+      error: "Tidak diizinkan. Anda tidak memiliki akses untuk mengelola tag.",
+    };
+  }
+
+  const validation = updateTagSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const updateData: Record<string, unknown> = {};
+  if (validation.data.name) {
+    const slug = slugify(validation.data.name);
+    if (!slug) {
+      return {
+        success: false,
+        error: "Nama tag harus mengandung huruf atau angka",
+      };
+    }
+    updateData.name = validation.data.name;
+    updateData.slug = slug;
+  }
+  if (validation.data.color) {
+    updateData.color = validation.data.color.toLowerCase();
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("tags")
+    .update(updateData)
+    .eq("id", validation.data.id)
+    .select()
+    .single();
+
+  if (error) {
+    return {
+      success: false,
+      error: getTagWriteError(error.code, "Gagal memperbarui tag"),
+    };
+  }
+
+  return {
+    success: true,
+    data: data as Tag,
+  };
+}
+
+/**
+ * Menghapus tag (relasi ke milestone ikut terhapus via ON DELETE CASCADE)
+ * Memerlukan izin tag.manage (editor/owner)
+ */
+export async function deleteTag(id: string): Promise<TagResult<void>> {
+  if (!(await hasPermission("tag.manage"))) {
+    return {
+      success: false,
+      error: "Tidak diizinkan. Anda tidak memiliki akses untuk mengelola tag.",
+    };
+  }
+
+  const idValidation = z.string().uuid().safeParse(id);
+  if (!idValidation.success) {
+    return {
+      success: false,
+      error: "ID tag tidak valid",
+    };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from("tags").delete().eq("id", id);
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal menghapus tag",
+    };
+  }
+
+  return {
+    success: true,
+  };
+}
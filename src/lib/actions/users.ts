@@ -0,0 +1,310 @@
+"use server";
+
+import { z } from "zod/v4";
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { readAllRows } from "@/lib/supabase/read-all";
+import { listAllAuthUsers } from "@/lib/auth/members";
+import { getCurrentAccess } from "@/lib/actions/roles";
+import { can, ROLES } from "@/lib/permissions";
+import { getSiteUrl } from "@/lib/site-url";
+import { emailSchema } from "@/lib/validations/auth";
+import type { AccessContext, Role } from "@/lib/types/roles";
+import type { InviteUserInput, ManagedUser } from "@/lib/types/users";
+
+/**
+ * Tipe hasil untuk aksi manajemen user
+ */
+export type UserResult<T = void> = {
+  success: boolean;
+  data?: T;
+  error?: string;
+};
+
+// Durasi ban Supabase untuk user nonaktif (~100 tahun), "none" untuk mengaktifkan kembali
+const DEACTIVATED_BAN_DURATION = "876000h";
+
+const userIdSchema = z.string().uuid("ID user tidak valid");
+const roleSchema = z.enum(ROLES);
+
+/**
+ * Schema validasi untuk undangan user
+ */
+const inviteUserSchema = z.object({
+  email: emailSchema,
+  role: roleSchema,
+});
+
+/**
+ * Schema validasi untuk perubahan role
+ */
+const setUserRoleSchema = z.object({
+  userId: userIdSchema,
+  role: roleSchema,
+});
+
+/**
+ * Schema validasi untuk aktivasi/nonaktivasi user
+ */
+const setUserActiveSchema = z.object({
+  userId: userIdSchema,
+  active: z.boolean(),
+});
+
+const UNAUTHORIZED_ERROR =
+  "Tidak diizinkan. Diperlukan akses owner untuk mengelola user.";
+
+/**
+ * Akses user saat ini jika boleh mengelola user, selain itu null
+ */
+async function getUserManagerAccess(): Promise<AccessContext | null> {
+  const access = await getCurrentAccess();
+  return can(access, "user.manage") ? access : null;
+}
+
+/**
+ * Ubah data auth.users menjadi ManagedUser
+ */
+function toManagedUser(user: User, role: Role | null): ManagedUser {
+  return {
+    id: user.id,
+    email: user.email ?? null,
+    name: user.user_metadata?.full_name || user.user_metadata?.name || null,
+    provider: user.app_metadata?.provider || "email",
+    role,
+    created_at: user.created_at,
+    last_sign_in_at: user.last_sign_in_at ?? null,
+    invited_at: user.last_sign_in_at ? null : (user.invited_at ?? null),
+    is_active: !user.banned_until || new Date(user.banned_until) <= new Date(),
+  };
+}
+
+/**
+ * Memastikan perubahan tidak menghilangkan owner terakhir
+ */
+async function isLastOwner(
+  admin: ReturnType<typeof createAdminClient>,
+  userId: string,
+): Promise<boolean> {
+  const { data } = await admin
+    .from("user_roles")
+    .select("user_id")
+    .eq("role", "owner");
+
+  const owners = (data ?? []).map((row) => row.user_id as string);
+  return owners.length === 1 && owners[0] === userId;
+}
+
+/**
+ * Mengambil semua user beserta role, provider, dan login terakhir
+ * User tanpa baris user_roles (mis. login Google yang ditolak) tampil
+ * tanpa role agar tidak terlihat seperti member
+ * Hanya owner (izin user.manage) yang bisa mengakses
+ */
+export async function listUsers(): Promise<UserResult<ManagedUser[]>> {
+  if (!(await getUserManagerAccess())) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const admin = createAdminClient();
+
+  let authUsers: User[];
+  let roleRows: Record<string, unknown>[];
+  try {
+    [authUsers, roleRows] = await Promise.all([
+      listAllAuthUsers(admin),
+      readAllRows("user_roles", (from, to) =>
+        admin
+          .from("user_roles")
+          .select("user_id, role", { count: "exact" })
+          .order("user_id")
+          .range(from, to),
+      ),
+    ]);
+  } catch {
+    return {
+      success: false,
+      error: "Gagal mengambil daftar user",
+    };
+  }
+
+  const roles = new Map(
+    roleRows.map((row) => [row.user_id as string, row.role as Role]),
+  );
+
+  const users = authUsers
+    .map((user) => toManagedUser(user, roles.get(user.id) ?? null))
+    .sort((a, b) => (a.email ?? "").localeCompare(b.email ?? ""));
+
+  return {
+    success: true,
+    data: users,
+  };
+}
+
+/**
+ * Mengubah role user (mis. memberi/mencabut akses editor atau owner)
+ * User tanpa akses menjadi member begitu diberi role
+ * Owner tidak bisa mengubah role dirinya sendiri agar tidak terkunci
+ */
+export async function setUserRole(input: {
+  userId: string;
+  role: Role;
+}): Promise<UserResult<void>> {
+  const access = await getUserManagerAccess();
+  if (!access) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const validation = setUserRoleSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const { userId, role } = validation.data;
+  if (userId === access.userId) {
+    return {
+      success: false,
+      error: "Anda tidak dapat mengubah role akun sendiri",
+    };
+  }
+
+  const admin = createAdminClient();
+
+  if (role !== "owner" && (await isLastOwner(admin, userId))) {
+    return {
+      success: false,
+      error: "Minimal harus ada satu owner",
+    };
+  }
+
+  const { error } = await admin
+    .from("user_roles")
+    .upsert({ user_id: userId, role }, { onConflict: "user_id" });
+
+  if (error) {
+    return {
+      success: false,
+      error: "Gagal mengubah role user",
+    };
+  }
+
+  return {
+    success: true,
+  };
+}
+
+/**
+ * Mengundang email baru dengan role tertentu
+ * User dibuat di auth.users sehingga bisa login via OTP walau pendaftaran ditutup
+ */
+export async function inviteUser(
+  input: InviteUserInput,
+): Promise<UserResult<ManagedUser>> {
+  if (!(await getUserManagerAccess())) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const validation = inviteUserSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const admin = createAdminClient();
+
+  const { data, error } = await admin.auth.admin.inviteUserByEmail(
+    validation.data.email,
+    { redirectTo: `${getSiteUrl()}/auth/callback` },
+  );
+
+  if (error || !data.user) {
+    const alreadyExists =
+      error?.status === 422 ||
+      error?.message.toLowerCase().includes("already been registered");
+    return {
+      success: false,
+      error: alreadyExists
+        ? "Email sudah terdaftar"
+        : "Gagal mengirim undangan",
+    };
+  }
+
+  const { error: roleError } = await admin
+    .from("user_roles")
+    .upsert(
+      { user_id: data.user.id, role: validation.data.role },
+      { onConflict: "user_id" },
+    );
+
+  if (roleError) {
+    return {
+      success: false,
+      error: "Undangan terkirim, tetapi gagal menyimpan role",
+    };
+  }
+
+  return {
+    success: true,
+    data: toManagedUser(data.user, validation.data.role),
+  };
+}
+
+/**
+ * Menonaktifkan atau mengaktifkan kembali user
+ * User nonaktif di-ban di Supabase Auth sehingga tidak bisa login atau refresh sesi
+ */
+export async function setUserActive(input: {
+  userId: string;
+  active: boolean;
+}): Promise<UserResult<void>> {
+  const access = await getUserManagerAccess();
+  if (!access) {
+    return { success: false, error: UNAUTHORIZED_ERROR };
+  }
+
+  const validation = setUserActiveSchema.safeParse(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || "Input tidak valid",
+    };
+  }
+
+  const { userId, active } = validation.data;
+  if (userId === access.userId) {
+    return {
+      success: false,
+      error: "Anda tidak dapat menonaktifkan akun sendiri",
+    };
+  }
+
+  const admin = createAdminClient();
+
+  if (!active && (await isLastOwner(admin, userId))) {
+    return {
+      success: false,
+      error: "Owner terakhir tidak dapat dinonaktifkan",
+    };
+  }
+
+  const { error } = await admin.auth.admin.updateUserById(userId, {
+    ban_duration: active ? "none" : DEACTIVATED_BAN_DURATION,
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: active ? "Gagal mengaktifkan user" : "Gagal menonaktifkan user",
+    };
+  }
+
+  return {
+    success: true,
+  };
+}
@@ -0,0 +1,63 @@
+import type { AuditAction, AuditLogFilters } from "@/lib/types/audit";
+
+/**
+ * Aksi audit log beserta labelnya
+ */
+export const AUDIT_ACTIONS = [
+  "milestone.create",
+  "milestone.update",
+  "milestone.delete",
+  "milestone.restore",
+  "milestone.purge",
+  "image.upload",
+  "image.delete",
+] as const satisfies readonly AuditAction[];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "milestone.create": "Journey dibuat",
+  "milestone.update": "Journey diubah",
+  "milestone.delete": "Journey ke sampah",
+  "milestone.restore": "Journey dipulihkan",
+  "milestone.purge": "Journey dihapus permanen",
+  "image.upload": "Gambar di-upload",
+  "image.delete": "Gambar dihapus",
+};
+
+type SearchParamValue = string | string[] | undefined;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function firstValue(value: SearchParamValue): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Membaca filter audit log dari URL search params
+ * Nilai yang tidak valid diabaikan
+ */
+export function parseAuditFilters(
+  params: Record<string, SearchParamValue>,
+): AuditLogFilters {
+  const milestoneId = firstValue(params.milestone);
+  const actorId = firstValue(params.actor);
+  const action = firstValue(params.action) as AuditAction | undefined;
+
+  return {
+    milestoneId:
+      milestoneId && UUID_PATTERN.test(milestoneId) ? milestoneId : undefined,
+    actorId: actorId && UUID_PATTERN.test(actorId) ? actorId : undefined,
+    action: action && AUDIT_ACTIONS.includes(action) ? action : undefined,
+  };
+}
+
+/**
+ * Menulis filter audit log ke URL search params
+ */
+export function applyAuditFilters(filters: AuditLogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.milestoneId) params.set("milestone", filters.milestoneId);
+  if (filters.actorId) params.set("actor", filters.actorId);
+  if (filters.action) params.set("action", filters.action);
+  return params;
+}
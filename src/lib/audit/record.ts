@@ -0,0 +1,130 @@
+import { headers } from "next/headers";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { Milestone } from "@/lib/types/milestones";
+import type { AuditAction, AuditSnapshot } from "@/lib/types/audit";
+
+/**
+ * Pencatatan audit log (server only)
+ * Dipanggil dari server action setelah perubahan berhasil.
+ * Sengaja BUKAN server action agar client tidak bisa menulis entri palsu;
+ * role authenticated juga tidak punya izin INSERT, jadi entri hanya bisa
+ * ditulis lewat service role dari sini.
+ */
+
+const MAX_USER_AGENT_LENGTH = 500;
+
+interface RecordAuditInput {
+  action: AuditAction;
+  milestone?: { id: string; title?: string | null } | null;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+}
+
+/**
+ * Data milestone yang dicatat di audit log
+ * Gallery dan tag disederhanakan agar diff mudah dibaca
+ */
+export function toMilestoneSnapshot(milestone: Milestone): AuditSnapshot {
+  return {
+    title: milestone.title,
+    description: milestone.description,
+    event_date: milestone.event_date,
+    status: milestone.status,
+    publish_at: milestone.publish_at,
+    image_url: milestone.image_url,
+    images: [...(milestone.images ?? [])]
+      .sort((a, b) => a.position - b.position)
+      .map((image) => ({
+        image_key: image.image_key,
+        caption: image.caption,
+        is_cover: image.is_cover,
+      })),
+    tag_ids: (milestone.tags ?? []).map((tag) => tag.id).sort(),
+  };
+}
+
+/**
+ * Menyisakan field yang berubah saja
+ * Snapshot null (create/delete) tidak di-diff
+ */
+function diffSnapshots(
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null,
+): { before: AuditSnapshot | null; after: AuditSnapshot | null } {
+  if (!before || !after) return { before, after };
+
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) => {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  });
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * IP client dari header proxy (Vercel / reverse proxy)
+ * Nilai terakhir x-forwarded-for ditambahkan proxy terdekat; nilai di
+ * depannya bisa dikirim client sendiri sehingga tidak dipercaya
+ */
+function getClientIp(headerStore: Headers): string | null {
+  const forwarded = headerStore.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",").at(-1)?.trim() || null;
+  return headerStore.get("x-real-ip");
+}
+
+/**
+ * Menulis satu entri ke audit_log
+ * actor_id & actor_email diambil dari sesi yang diverifikasi (getUser),
+ * bukan dari input pemanggil
+ * Kegagalan hanya di-log: perubahan yang dicatat sudah terlanjur tersimpan
+ */
+export async function recordAudit(input: RecordAuditInput): Promise<void> {
+  const diff = diffSnapshots(input.before ?? null, input.after ?? null);
+  // Update tanpa perubahan tidak perlu dicatat
+  if (
+    input.action === "milestone.update" &&
+    diff.after &&
+    Object.keys(diff.after).length === 0
+  ) {
+    return;
+  }
+
+  const headerStore = await headers();
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    console.error("Audit log error: no session for", input.action);
+    return;
+  }
+
+  const { error } = await createAdminClient()
+    .from("audit_log")
+    .insert({
+      actor_id: user.id,
+      actor_email: user.email ?? null,
+      action: input.action,
+      milestone_id: input.milestone?.id ?? null,
+      milestone_title: input.milestone?.title ?? null,
+      before: diff.before,
+      after: diff.after,
+      ip: getClientIp(headerStore),
+      user_agent:
+        headerStore.get("user-agent")?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+    });
+
+  if (error) {
+    console.error(
+      "Audit log error:",
+      process.env.NODE_ENV === "development" ? error : input.action,
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { hasPermission } from "@/lib/actions/roles";
+import type { Permission } from "@/lib/types/roles";
+
+/**
+ * Otorisasi route job cron (server only)
+ *
+ * Akses: header `Authorization: Bearer <CRON_SECRET>` (cron) atau sesi user
+ * dengan izin `permission`. `dry_run` default true; dry_run=false hanya lewat
+ * CRON_SECRET karena GET dengan cookie sesi bisa dipicu situs lain (CSRF),
+ * jadi sesi user hanya bisa melihat laporan dry run.
+ */
+export type CronAuthorization =
+  | { ok: true; dryRun: boolean; searchParams: URLSearchParams }
+  | { ok: false; response: NextResponse };
+
+export async function authorizeCronRequest(
+  request: Request,
+  permission: Permission,
+): Promise<CronAuthorization> {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron = !!cronSecret && authHeader === `Bearer ${cronSecret}`;
+
+  if (!isCron && !(await hasPermission(permission))) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "Tidak diizinkan. Diperlukan akses owner." },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const { searchParams } = new URL(request.url);
+  const dryRun = searchParams.get("dry_run") !== "false";
+
+  if (!dryRun && !isCron) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "dry_run=false hanya bisa dijalankan dengan CRON_SECRET." },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { ok: true, dryRun, searchParams };
+}
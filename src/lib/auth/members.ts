@@ -0,0 +1,67 @@
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { readAllRows } from "@/lib/supabase/read-all";
+
+/**
+ * Daftar user & member untuk job dan notifikasi (server only)
+ * Member = user yang punya baris user_roles (lihat src/lib/actions/roles.ts);
+ * akun auth tanpa baris itu tidak punya akses dan tidak boleh dikirimi apa pun.
+ */
+
+const LIST_USERS_PER_PAGE = 1000;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/**
+ * Semua akun di auth.users (mengikuti pagination Admin API)
+ */
+export async function listAllAuthUsers(admin: AdminClient): Promise<User[]> {
+  const users: User[] = [];
+
+  for (let page = 1; ; page += 1) {
+    const { data, error } = await admin.auth.admin.listUsers({
+      page,
+      perPage: LIST_USERS_PER_PAGE,
+    });
+    if (error) {
+      throw new Error("Gagal mengambil daftar user");
+    }
+
+    users.push(...data.users);
+    if (data.users.length < LIST_USERS_PER_PAGE) break;
+  }
+
+  return users;
+}
+
+/**
+ * ID semua member (punya baris user_roles)
+ */
+export async function getMemberIds(admin: AdminClient): Promise<Set<string>> {
+  const rows = await readAllRows("user_roles", (from, to) =>
+    admin
+      .from("user_roles")
+      .select("user_id", { count: "exact" })
+      .order("user_id")
+      .range(from, to),
+  );
+
+  return new Set(rows.map((row) => row.user_id as string));
+}
+
+/**
+ * Member yang tidak sedang diblokir
+ */
+export async function getActiveMembers(admin: AdminClient): Promise<User[]> {
+  const [users, memberIds] = await Promise.all([
+    listAllAuthUsers(admin),
+    getMemberIds(admin),
+  ]);
+  const now = new Date();
+
+  return users.filter(
+    (user) =>
+      memberIds.has(user.id) &&
+      (!user.banned_until || new Date(user.banned_until) <= now),
+  );
+}
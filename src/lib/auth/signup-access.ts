@@ -0,0 +1,172 @@
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { Role } from "@/lib/types/roles";
+
+/**
+ * Pemeriksaan allowlist & undangan saat login (server only)
+ * Memakai service role karena dipanggil sebelum user punya sesi.
+ * Sengaja BUKAN server action agar tidak bisa dipanggil dari client.
+ */
+
+/**
+ * Cookie HTTP-only berisi token undangan dari /invite/[token]
+ */
+export const INVITE_TOKEN_COOKIE = "invite_token";
+export const INVITE_TOKEN_MAX_AGE = 60 * 60; // 1 jam
+
+/**
+ * Hasil pemeriksaan akses pendaftaran
+ * - member: user sudah terdaftar (punya baris user_roles)
+ * - invite/allowlist: user baru, role diambil dari undangan/allowlist
+ */
+export type SignupAccess =
+  | { allowed: false }
+  | { allowed: true; source: "member" }
+  | { allowed: true; source: "invite"; role: Role; inviteId: string }
+  | { allowed: true; source: "allowlist"; role: Role };
+
+function getEmailDomain(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1);
+}
+
+function isActive(expiresAt: string | null): boolean {
+  return !expiresAt || new Date(expiresAt) > new Date();
+}
+
+/**
+ * Mengambil link undangan yang masih berlaku (belum dipakai & belum kedaluwarsa)
+ */
+export async function findValidInvite(token: string) {
+  if (!token) return null;
+  const admin = createAdminClient();
+
+  const { data } = await admin
+    .from("invite_links")
+    .select("id, email, role, expires_at, used_at")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (!data || data.used_at || !isActive(data.expires_at)) return null;
+  return data as {
+    id: string;
+    email: string | null;
+    role: Role;
+    expires_at: string;
+  };
+}
+
+/**
+ * Memeriksa apakah email boleh login/mendaftar
+ * Urutan: member lama → link undangan → allowlist email → allowlist domain
+ */
+export async function getSignupAccess(
+  rawEmail: string,
+  inviteToken?: string,
+): Promise<SignupAccess> {
+  const email = rawEmail.trim().toLowerCase();
+  const domain = getEmailDomain(email);
+  const admin = createAdminClient();
+
+  const { data: isMember } = await admin.rpc("is_member_email", {
+    p_email: email,
+  });
+  if (isMember) return { allowed: true, source: "member" };
+
+  if (inviteToken) {
+    const invite = await findValidInvite(inviteToken);
+    if (invite && (!invite.email || invite.email === email)) {
+      return {
+        allowed: true,
+        source: "invite",
+        role: invite.role,
+        inviteId: invite.id,
+      };
+    }
+  }
+
+  const { data: entries } = await admin
+    .from("signup_allowlist")
+    .select("kind, value, role, expires_at")
+    .in("value", [email, domain]);
+
+  const activeEntries = (entries ?? []).filter(
+    (entry) =>
+      isActive(entry.expires_at) &&
+      (entry.kind === "email" ? entry.value === email : entry.value === domain),
+  );
+  // Entri email lebih spesifik daripada domain
+  const match =
+    activeEntries.find((entry) => entry.kind === "email") ?? activeEntries[0];
+
+  if (match) {
+    return { allowed: true, source: "allowlist", role: match.role as Role };
+  }
+
+  return { allowed: false };
+}
+
+/**
+ * Menyelesaikan pendaftaran user baru setelah sesi terbentuk:
+ * mengklaim link undangan lalu menyimpan role
+ * Baris user_roles adalah tanda keanggotaan (dicek proxy, getCurrentAccess,
+ * dan RLS), jadi false berarti login harus dibatalkan
+ */
+export async function completeSignup(
+  userId: string,
+  access: SignupAccess,
+): Promise<boolean> {
+  if (!access.allowed) return false;
+  if (access.source === "member") return true;
+  const admin = createAdminClient();
+
+  if (access.source === "invite") {
+    // Klaim atomik: hanya satu login yang bisa memakai link sekali pakai,
+    // login lain yang lolos getSignupAccess bersamaan tidak mendapat baris
+    const now = new Date().toISOString();
+    const { data: claimed, error: claimError } = await admin
+      .from("invite_links")
+      .update({ used_at: now, used_by: userId })
+      .eq("id", access.inviteId)
+      .is("used_at", null)
+      .or(`expires_at.is.null,expires_at.gt.${now}`)
+      .select("id");
+    if (claimError || !claimed || claimed.length === 0) return false;
+  }
+
+  const { error } = await admin
+    .from("user_roles")
+    .upsert(
+      { user_id: userId, role: access.role },
+      { onConflict: "user_id", ignoreDuplicates: true },
+    );
+
+  if (error) {
+    // Kembalikan link agar undangan bisa dicoba lagi
+    if (access.source === "invite") {
+      await admin
+        .from("invite_links")
+        .update({ used_at: null, used_by: null })
+        .eq("id", access.inviteId)
+        .eq("used_by", userId);
+    }
+    return false;
+  }
+
+  return true;
+}
+
+// Akun dianggap dibuat oleh login ini jika umurnya di bawah batas ini
+const NEW_ACCOUNT_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Menghapus akun yang baru dibuat tetapi tidak lolos allowlist
+ * (mis. login Google pertama kali tanpa undangan)
+ * Akun lama tidak pernah dihapus di sini
+ */
+export async function rejectSignup(user: User): Promise<void> {
+  const age = Date.now() - new Date(user.created_at).getTime();
+  if (age > NEW_ACCOUNT_WINDOW_MS) return;
+
+  const admin = createAdminClient();
+  await admin.auth.admin.deleteUser(user.id);
+}
@@ -0,0 +1,31 @@
+/**
+ * Konstanta komentar & reaksi milestone (server & client)
+ */
+
+/**
+ * Batas panjang satu komentar
+ */
+export const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Emoji reaksi yang tersedia, urutan ini dipakai saat ditampilkan
+ * Sama dengan constraint milestone_reactions_emoji_check di database
+ */
+export const REACTION_EMOJIS = ["👍", "❤️", "🎉", "😂", "😮", "🙏"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+/**
+ * Apakah komentar sudah diedit setelah dibuat
+ * Toleransi 1 detik untuk selisih default created_at/updated_at saat insert
+ */
+export function isCommentEdited(comment: {
+  created_at: string;
+  updated_at: string;
+}): boolean {
+  return (
+    new Date(comment.updated_at).getTime() -
+      new Date(comment.created_at).getTime() >
+    1000
+  );
+}
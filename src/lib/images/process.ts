@@ -0,0 +1,80 @@
+import sharp from "sharp";
+import heicConvert from "heic-convert";
+import type { ImageVariant, ImageVariantKeys } from "@/lib/types/milestones";
+
+/**
+ * Lebar maksimum setiap varian gambar (px)
+ * Gambar tidak pernah diperbesar melebihi ukuran aslinya
+ */
+const VARIANT_WIDTHS: Record<ImageVariant, number> = {
+  thumbnail: 480,
+  card: 960,
+  full: 2048,
+};
+
+const VARIANT_QUALITY = 80;
+const VARIANT_EXT = "webp";
+export const VARIANT_CONTENT_TYPE = "image/webp";
+
+export const IMAGE_VARIANTS = Object.keys(VARIANT_WIDTHS) as ImageVariant[];
+
+export type ProcessedVariant = {
+  variant: ImageVariant;
+  key: string;
+  body: Buffer;
+};
+
+/**
+ * Membuat S3 key untuk setiap varian dari satu base key
+ * Contoh: milestones/123-abc → milestones/123-abc/thumbnail.webp
+ */
+export function getVariantKeys(baseKey: string): ImageVariantKeys {
+  return Object.fromEntries(
+    IMAGE_VARIANTS.map((variant) => [
+      variant,
+      `${baseKey}/${variant}.${VARIANT_EXT}`,
+    ]),
+  ) as ImageVariantKeys;
+}
+
+/**
+ * Mengambil semua key varian saudara dari key salah satu varian
+ * Mengembalikan null jika key bukan hasil pipeline varian (gambar lama)
+ */
+export function getSiblingVariantKeys(key: string): ImageVariantKeys | null {
+  const match = key.match(
+    new RegExp(`^(.+)/(${IMAGE_VARIANTS.join("|")})\\.${VARIANT_EXT}$`),
+  );
+  return match ? getVariantKeys(match[1]) : null;
+}
+
+/**
+ * Memproses gambar upload menjadi varian WebP (thumbnail, card, full)
+ * - HEIC/HEIF di-decode terlebih dahulu karena libvips bawaan sharp tidak mendukung HEVC
+ * - Orientasi EXIF diterapkan lalu seluruh metadata (EXIF/GPS) dibuang
+ */
+export async function processImageVariants(
+  buffer: Buffer,
+  mimeType: string,
+  baseKey: string,
+): Promise<ProcessedVariant[]> {
+  const source =
+    mimeType === "image/heic" || mimeType === "image/heif"
+      ? Buffer.from(await heicConvert({ buffer, format: "JPEG", quality: 1 }))
+      : buffer;
+
+  const keys = getVariantKeys(baseKey);
+
+  return Promise.all(
+    IMAGE_VARIANTS.map(async (variant) => ({
+      variant,
+      key: keys[variant],
+      // sharp tidak menyalin metadata ke output kecuali diminta via withMetadata()
+      body: await sharp(source)
+        .rotate()
+        .resize({ width: VARIANT_WIDTHS[variant], withoutEnlargement: true })
+        .webp({ quality: VARIANT_QUALITY })
+        .toBuffer(),
+    })),
+  );
+}
@@ -0,0 +1,229 @@
+import { subDays } from "date-fns";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { readAllRows } from "@/lib/supabase/read-all";
+import { getActiveMembers } from "@/lib/auth/members";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/lib/notification-preferences";
+import type { Milestone } from "@/lib/types/milestones";
+import type {
+  DigestReport,
+  NotificationTopic,
+} from "@/lib/types/notifications";
+import type { MilestoneProposal } from "@/lib/types/proposals";
+import {
+  milestonePublishedEmail,
+  proposalApprovedEmail,
+  proposalChangesRequestedEmail,
+  proposalRejectedEmail,
+  weeklyDigestEmail,
+  type MailContent,
+} from "./templates";
+import { getMailTransport } from "./transport";
+
+/**
+ * Pengiriman notifikasi email (server only)
+ * Dipanggil dari server action lewat after() agar tidak menahan respons;
+ * penerima & preferensi dibaca dengan service role karena menyangkut user lain.
+ * Kegagalan hanya di-log: notifikasi tidak boleh menggagalkan aksi utama.
+ */
+
+const SEND_CONCURRENCY = 5;
+const DIGEST_DAYS = 7;
+
+interface Recipient {
+  userId: string;
+  email: string;
+}
+
+function logMailError(context: string, error: unknown) {
+  console.error(
+    `${context}:`,
+    process.env.NODE_ENV === "development" ? error : "Failed",
+  );
+}
+
+/**
+ * Member aktif (punya baris user_roles, tidak diblokir) yang mengaktifkan
+ * jenis notifikasi tertentu
+ * User tanpa baris preferensi memakai DEFAULT_NOTIFICATION_PREFERENCES
+ */
+async function getRecipients(
+  topic: NotificationTopic,
+  excludeUserId?: string | null,
+): Promise<Recipient[]> {
+  const admin = createAdminClient();
+
+  const [members, preferenceRows] = await Promise.all([
+    getActiveMembers(admin),
+    readAllRows("notification_preferences", (from, to) =>
+      admin
+        .from("notification_preferences")
+        .select("*", { count: "exact" })
+        .order("user_id")
+        .range(from, to),
+    ),
+  ]);
+
+  const preferences = new Map(
+    preferenceRows.map((row) => [row.user_id as string, row[topic] as boolean]),
+  );
+
+  return members
+    .filter(
+      (user) =>
+        !!user.email &&
+        user.id !== excludeUserId &&
+        (preferences.get(user.id) ?? DEFAULT_NOTIFICATION_PREFERENCES[topic]),
+    )
+    .map((user) => ({ userId: user.id, email: user.email! }));
+}
+
+/**
+ * Kirim email yang sama ke setiap penerima (satu email per penerima,
+ * alamat penerima lain tidak ikut terlihat)
+ */
+async function sendToRecipients(
+  recipients: Recipient[],
+  content: MailContent,
+): Promise<{ sent: number; failed: number }> {
+  const transport = getMailTransport();
+  let sent = 0;
+  let failed = 0;
+
+  for (let i = 0; i < recipients.length; i += SEND_CONCURRENCY) {
+    const results = await Promise.allSettled(
+      recipients
+        .slice(i, i + SEND_CONCURRENCY)
+        .map((recipient) =>
+          transport.send({ to: recipient.email, ...content }),
+        ),
+    );
+    results.forEach((result) => {
+      if (result.status === "fulfilled") {
+        sent += 1;
+      } else {
+        failed += 1;
+        logMailError(`Mail send error (${transport.name})`, result.reason);
+      }
+    });
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Beri tahu member bahwa journey baru terbit
+ * Pembuat/penerbit journey tidak ikut menerima email
+ */
+export async function notifyMilestonePublished(
+  milestone: Pick<Milestone, "title" | "event_date" | "description">,
+  actorId: string | null,
+): Promise<void> {
+  try {
+    const recipients = await getRecipients("milestone_published", actorId);
+    await sendToRecipients(recipients, milestonePublishedEmail(milestone));
+  } catch (error) {
+    logMailError("Notify milestone published error", error);
+  }
+}
+
+/**
+ * Beri tahu pengusul hasil review usulannya
+ */
+export async function notifyProposalOutcome(
+  proposal: Pick<
+    MilestoneProposal,
+    "id" | "title" | "status" | "review_note" | "created_by"
+  >,
+): Promise<void> {
+  const content =
+    proposal.status === "approved"
+      ? proposalApprovedEmail(proposal)
+      : proposal.status === "changes_requested"
+        ? proposalChangesRequestedEmail(proposal)
+        : proposal.status === "rejected"
+          ? proposalRejectedEmail(proposal)
+          : null;
+  if (!content || !proposal.created_by) return;
+
+  try {
+    const admin = createAdminClient();
+    const [userResult, roleResult, preferenceResult] = await Promise.all([
+      admin.auth.admin.getUserById(proposal.created_by),
+      admin
+        .from("user_roles")
+        .select("user_id")
+        .eq("user_id", proposal.created_by)
+        .maybeSingle(),
+      admin
+        .from("notification_preferences")
+        .select("proposal_outcome")
+        .eq("user_id", proposal.created_by)
+        .maybeSingle(),
+    ]);
+
+    // Pengusul yang aksesnya sudah dicabut tidak lagi dikirimi email
+    if (roleResult.error || !roleResult.data) return;
+
+    const email = userResult.data.user?.email;
+    const enabled =
+      preferenceResult.data?.proposal_outcome ??
+      DEFAULT_NOTIFICATION_PREFERENCES.proposal_outcome;
+    if (!email || !enabled) return;
+
+    await sendToRecipients([{ userId: proposal.created_by, email }], content);
+  } catch (error) {
+    logMailError("Notify proposal outcome error", error);
+  }
+}
+
+/**
+ * Kirim ringkasan journey yang terbit selama 7 hari terakhir
+ * Journey terjadwal ikut dihitung begitu publish_at-nya lewat.
+ * Tidak mengirim apa pun jika tidak ada journey baru.
+ */
+export async function sendWeeklyDigest({
+  dryRun = true,
+}: { dryRun?: boolean } = {}): Promise<DigestReport> {
+  const now = new Date();
+  const since = subDays(now, DIGEST_DAYS);
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("milestones")
+    .select("title, event_date, status, publish_at")
+    .is("deleted_at", null)
+    .in("status", ["published", "scheduled"])
+    .gte("publish_at", since.toISOString())
+    .lte("publish_at", now.toISOString())
+    .order("publish_at", { ascending: true });
+
+  if (error) {
+    throw new Error("Gagal mengambil journey untuk ringkasan");
+  }
+
+  const milestones = data as Pick<
+    Milestone,
+    "title" | "event_date" | "status" | "publish_at"
+  >[];
+  const recipients =
+    milestones.length > 0 ? await getRecipients("weekly_digest") : [];
+
+  const report: DigestReport = {
+    dry_run: dryRun,
+    since: since.toISOString(),
+    milestones: milestones.length,
+    recipients: recipients.length,
+    sent: 0,
+    failed: 0,
+  };
+
+  if (dryRun || recipients.length === 0) {
+    return report;
+  }
+
+  const result = await sendToRecipients(
+    recipients,
+    weeklyDigestEmail(milestones, since),
+  );
+  return { ...report, ...result };
+}
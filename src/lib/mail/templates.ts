@@ -0,0 +1,187 @@
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { toPlainExcerpt } from "@/lib/markdown";
+import { getSiteUrl } from "@/lib/site-url";
+import type { Milestone } from "@/lib/types/milestones";
+import type { MilestoneProposal } from "@/lib/types/proposals";
+
+/**
+ * Template email notifikasi (server only)
+ * Setiap template menghasilkan versi teks dan HTML dengan isi yang sama
+ */
+
+export interface MailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface MailLayout {
+  heading: string;
+  paragraphs: string[]; // Teks biasa, di-escape saat render HTML
+  items?: { title: string; meta: string; url: string }[];
+  action: { label: string; url: string };
+}
+
+const SITE_NAME = "GKY Gerendeng Milestone";
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function formatEventDate(value: string): string {
+  return format(new Date(value), "d MMMM yyyy", { locale: id });
+}
+
+function getMilestoneUrl(milestone: Pick<Milestone, "title">): string {
+  return `${getSiteUrl()}/?q=${encodeURIComponent(milestone.title)}`;
+}
+
+/**
+ * Susun email teks & HTML dari satu layout
+ * Footer selalu berisi link ke pengaturan notifikasi di /account
+ */
+function renderMail(subject: string, layout: MailLayout): MailContent {
+  const preferencesUrl = `${getSiteUrl()}/account`;
+  const footer = `Anda menerima email ini dari ${SITE_NAME}. Atur notifikasi di ${preferencesUrl}`;
+
+  const text = [
+    layout.heading,
+    "",
+    ...layout.paragraphs.flatMap((paragraph) => [paragraph, ""]),
+    ...(layout.items ?? []).flatMap((item) => [
+      `- ${item.title} (${item.meta})`,
+      `  ${item.url}`,
+    ]),
+    ...(layout.items?.length ? [""] : []),
+    `${layout.action.label}: ${layout.action.url}`,
+    "",
+    "--",
+    footer,
+  ].join("\n");
+
+  const itemsHtml = layout.items?.length
+    ? `<ul style="padding-left:20px;margin:0 0 16px">${layout.items
+        .map(
+          (item) =>
+            `<li style="margin-bottom:8px"><a href="${escapeHtml(item.url)}" style="color:#2563eb;font-weight:600">${escapeHtml(item.title)}</a><br><span style="color:#6b7280;font-size:13px">${escapeHtml(item.meta)}</span></li>`,
+        )
+        .join("")}</ul>`
+    : "";
+
+  const html = `<!doctype html>
+<html lang="id">
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(layout.heading)}</h1>
+${layout.paragraphs
+  .map(
+    (paragraph) =>
+      `<p style="margin:0 0 16px;line-height:1.5;white-space:pre-line">${escapeHtml(paragraph)}</p>`,
+  )
+  .join("\n")}
+${itemsHtml}
+<p style="margin:24px 0"><a href="${escapeHtml(layout.action.url)}" style="display:inline-block;background:#18181b;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px">${escapeHtml(layout.action.label)}</a></p>
+<p style="margin:24px 0 0;font-size:12px;color:#6b7280">Anda menerima email ini dari ${SITE_NAME}. <a href="${escapeHtml(preferencesUrl)}" style="color:#6b7280">Atur notifikasi</a></p>
+</div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+/**
+ * Journey baru diterbitkan
+ */
+export function milestonePublishedEmail(
+  milestone: Pick<Milestone, "title" | "event_date" | "description">,
+): MailContent {
+  const excerpt = toPlainExcerpt(milestone.description);
+
+  return renderMail(`Journey baru: ${milestone.title}`, {
+    heading: milestone.title,
+    paragraphs: [
+      `Journey baru telah diterbitkan untuk kegiatan tanggal ${formatEventDate(milestone.event_date)}.`,
+      ...(excerpt ? [excerpt] : []),
+    ],
+    action: { label: "Lihat journey", url: getMilestoneUrl(milestone) },
+  });
+}
+
+/**
+ * Usulan disetujui dan sudah terbit
+ */
+export function proposalApprovedEmail(
+  proposal: Pick<MilestoneProposal, "title">,
+): MailContent {
+  return renderMail(`Usulan disetujui: ${proposal.title}`, {
+    heading: "Usulan Anda disetujui",
+    paragraphs: [
+      `Terima kasih! Usulan "${proposal.title}" sudah ditinjau editor dan kini tampil di timeline.`,
+    ],
+    action: { label: "Lihat journey", url: getMilestoneUrl(proposal) },
+  });
+}
+
+/**
+ * Reviewer meminta perbaikan usulan
+ */
+export function proposalChangesRequestedEmail(
+  proposal: Pick<MilestoneProposal, "id" | "title" | "review_note">,
+): MailContent {
+  return renderMail(`Usulan perlu perbaikan: ${proposal.title}`, {
+    heading: "Usulan Anda perlu perbaikan",
+    paragraphs: [
+      `Editor meminta perbaikan untuk usulan "${proposal.title}" sebelum bisa diterbitkan.`,
+      ...(proposal.review_note ? [`Catatan: ${proposal.review_note}`] : []),
+    ],
+    action: {
+      label: "Perbaiki usulan",
+      url: `${getSiteUrl()}/propose/${proposal.id}`,
+    },
+  });
+}
+
+/**
+ * Usulan ditolak beserta alasannya
+ */
+export function proposalRejectedEmail(
+  proposal: Pick<MilestoneProposal, "title" | "review_note">,
+): MailContent {
+  return renderMail(`Usulan ditolak: ${proposal.title}`, {
+    heading: "Usulan Anda tidak diterbitkan",
+    paragraphs: [
+      `Mohon maaf, usulan "${proposal.title}" tidak dapat diterbitkan.`,
+      ...(proposal.review_note ? [`Alasan: ${proposal.review_note}`] : []),
+    ],
+    action: { label: "Lihat usulan saya", url: `${getSiteUrl()}/propose` },
+  });
+}
+
+/**
+ * Ringkasan journey yang terbit sejak tanggal tertentu
+ */
+export function weeklyDigestEmail(
+  milestones: Pick<Milestone, "title" | "event_date">[],
+  since: Date,
+): MailContent {
+  const period = `${format(since, "d MMMM", { locale: id })} – ${format(new Date(), "d MMMM yyyy", { locale: id })}`;
+
+  return renderMail(`Ringkasan journey minggu ini (${milestones.length})`, {
+    heading: "Ringkasan Journey Mingguan",
+    paragraphs: [
+      `${milestones.length} journey baru diterbitkan selama ${period}.`,
+    ],
+    items: milestones.map((milestone) => ({
+      title: milestone.title,
+      meta: formatEventDate(milestone.event_date),
+      url: getMilestoneUrl(milestone),
+    })),
+    action: { label: "Buka timeline", url: getSiteUrl() },
+  });
+}
@@ -0,0 +1,122 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+/**
+ * Transport email (server only)
+ * Dipilih lewat MAIL_TRANSPORT:
+ * - smtp: kirim lewat SMTP_HOST (default jika SMTP_HOST di-set)
+ * - file: tulis file .eml ke MAIL_OUTBOX_DIR, untuk development
+ * - console: cetak ringkasan email ke log server (default tanpa SMTP_HOST)
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_MAIL_FROM = "GKY Gerendeng Milestone <no-reply@localhost>";
+const DEFAULT_OUTBOX_DIR = ".mail-outbox";
+
+function getMailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_MAIL_FROM;
+}
+
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST belum di-set");
+  }
+
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    // Port 465 memakai TLS langsung, port lain STARTTLS
+    secure: process.env.SMTP_SECURE
+      ? process.env.SMTP_SECURE === "true"
+      : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+    pool: true,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from: getMailFrom(), ...message });
+    },
+  };
+}
+
+function createFileTransport(): MailTransport {
+  const outboxDir = path.resolve(
+    process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR,
+  );
+  // Susun pesan MIME lengkap tanpa mengirim, agar bisa dibuka di mail client
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: getMailFrom(),
+        ...message,
+      });
+      await mkdir(outboxDir, { recursive: true });
+      const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.eml`;
+      await writeFile(path.join(outboxDir, fileName), info.message as Buffer);
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.info(
+        `[mail] to=${message.to} subject="${message.subject}"\n${message.text}`,
+      );
+    },
+  };
+}
+
+let cachedTransport: MailTransport | null = null;
+
+/**
+ * Transport aktif, dibuat sekali per proses
+ */
+export function getMailTransport(): MailTransport {
+  if (cachedTransport) return cachedTransport;
+
+  const kind =
+    process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+  switch (kind) {
+    case "smtp":
+      cachedTransport = createSmtpTransport();
+      break;
+    case "file":
+      cachedTransport = createFileTransport();
+      break;
+    case "console":
+      cachedTransport = createConsoleTransport();
+      break;
+    default:
+      throw new Error(`MAIL_TRANSPORT tidak dikenal: ${kind}`);
+  }
+
+  return cachedTransport;
+}
@@ -0,0 +1,146 @@
+import { defaultSchema, type Options as SanitizeSchema } from "rehype-sanitize";
+
+/**
+ * Pipeline render Markdown deskripsi (dipakai MarkdownContent)
+ * - Shortcode embed {{youtube ...}} / {{instagram ...}} di baris sendiri
+ * - Schema allowlist untuk rehype-sanitize
+ */
+
+export type EmbedProvider = "youtube" | "instagram";
+
+export interface MarkdownEmbed {
+  provider: EmbedProvider;
+  id: string; // YouTube: video ID, Instagram: "p/KODE" | "reel/KODE" | "tv/KODE"
+}
+
+const YOUTUBE_ID = /^[A-Za-z0-9_-]{11}$/;
+const YOUTUBE_HOSTS = ["youtube.com", "www.youtube.com", "m.youtube.com"];
+const INSTAGRAM_HOSTS = ["instagram.com", "www.instagram.com"];
+const INSTAGRAM_PATH = /^\/(p|reel|tv)\/([A-Za-z0-9_-]+)\/?$/;
+const SHORTCODE_PATTERN = /^\{\{\s*(youtube|instagram)\s+(\S+)\s*\}\}$/;
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mengambil ID video YouTube dari ID langsung atau URL
+ * (watch?v=, youtu.be/, /shorts/, /embed/, /live/)
+ */
+function parseYoutube(target: string): string | null {
+  if (YOUTUBE_ID.test(target)) return target;
+
+  const url = parseUrl(target);
+  if (!url || url.protocol !== "https:") return null;
+
+  let id: string | null = null;
+  if (url.hostname === "youtu.be") {
+    id = url.pathname.slice(1);
+  } else if (YOUTUBE_HOSTS.includes(url.hostname)) {
+    id =
+      url.pathname === "/watch"
+        ? url.searchParams.get("v")
+        : (url.pathname.match(/^\/(?:shorts|embed|live)\/([^/]+)/)?.[1] ??
+          null);
+  }
+  return id && YOUTUBE_ID.test(id) ? id : null;
+}
+
+/**
+ * Mengambil path post/reel Instagram dari URL
+ */
+function parseInstagram(target: string): string | null {
+  const url = parseUrl(target);
+  if (!url || url.protocol !== "https:") return null;
+  if (!INSTAGRAM_HOSTS.includes(url.hostname)) return null;
+
+  const match = url.pathname.match(INSTAGRAM_PATH);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+/**
+ * Parse shortcode embed, null jika format/URL tidak dikenali
+ */
+export function parseEmbedShortcode(text: string): MarkdownEmbed | null {
+  const match = text.trim().match(SHORTCODE_PATTERN);
+  if (!match) return null;
+
+  const provider = match[1] as EmbedProvider;
+  const id =
+    provider === "youtube" ? parseYoutube(match[2]) : parseInstagram(match[2]);
+  return id ? { provider, id } : null;
+}
+
+/**
+ * URL iframe untuk embed (dibangun dari ID yang sudah divalidasi)
+ */
+export function getEmbedUrl(embed: MarkdownEmbed): string {
+  return embed.provider === "youtube"
+    ? `https://www.youtube-nocookie.com/embed/${embed.id}`
+    : `https://www.instagram.com/${embed.id}/embed`;
+}
+
+// Node mdast minimal yang dibutuhkan plugin (tanpa dependensi @types/mdast)
+interface MdastNode {
+  type: string;
+  value?: string;
+  children?: MdastNode[];
+  data?: Record<string, unknown>;
+}
+
+function toPlainText(node: MdastNode): string {
+  if (typeof node.value === "string") return node.value;
+  return (node.children ?? []).map(toPlainText).join("");
+}
+
+/**
+ * Plugin remark: paragraf yang isinya hanya shortcode embed diganti menjadi
+ * <div data-embed-provider data-embed-id>, lalu dirender MarkdownContent
+ * sebagai iframe. Shortcode yang tidak valid dibiarkan sebagai teks biasa.
+ */
+export function remarkEmbeds() {
+  return (tree: MdastNode) => {
+    tree.children = (tree.children ?? []).map((node) => {
+      if (node.type !== "paragraph") return node;
+      const embed = parseEmbedShortcode(toPlainText(node));
+      if (!embed) return node;
+
+      return {
+        type: "embed",
+        children: [],
+        data: {
+          hName: "div",
+          hProperties: {
+            dataEmbedProvider: embed.provider,
+            dataEmbedId: embed.id,
+          },
+        },
+      };
+    });
+  };
+}
+
+/**
+ * Allowlist sanitizer: schema default ala GitHub, ditambah atribut embed
+ * Link hanya http(s)/mailto; gambar hanya dari S3 key (dicek di MarkdownContent)
+ */
+export const MARKDOWN_SANITIZE_SCHEMA: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    div: [
+      ...(defaultSchema.attributes?.div ?? []),
+      ["dataEmbedProvider", "youtube", "instagram"],
+      ["dataEmbedId", /^[A-Za-z0-9_-]+(?:\/[A-Za-z0-9_-]+)?$/],
+    ],
+  },
+  protocols: {
+    ...defaultSchema.protocols,
+    href: ["http", "https", "mailto"],
+    src: ["http", "https"],
+  },
+};
@@ -0,0 +1,176 @@
+/**
+ * Utilitas Markdown deskripsi milestone (server & client)
+ */
+
+/**
+ * Batas panjang deskripsi (cukup untuk tulisan acara yang panjang)
+ */
+export const MAX_DESCRIPTION_LENGTH = 20000;
+
+/**
+ * Gambar inline di deskripsi ditulis sebagai ![alt](milestones/...)
+ * dengan S3 key hasil confirmImageUpload; presigned URL di-resolve saat fetch.
+ * Usulan member memakai prefix karantina proposals/ sampai disetujui.
+ * Prefix sama dengan MILESTONE_PREFIX & PROPOSAL_PREFIX di src/lib/storage/s3.ts
+ * (tidak di-import agar modul ini aman dipakai di client).
+ */
+const INLINE_IMAGE_PATTERN =
+  /!\[[^\]]*\]\(((?:milestones|proposals)\/[^\s)]+)\)/g;
+
+/**
+ * S3 key gambar inline di deskripsi (unik, urut kemunculan)
+ */
+export function extractImageKeys(
+  markdown: string | null | undefined,
+): string[] {
+  if (!markdown) return [];
+  return [
+    ...new Set(
+      [...markdown.matchAll(INLINE_IMAGE_PATTERN)].map((match) => match[1]),
+    ),
+  ];
+}
+
+/**
+ * Cuplikan teks polos dari deskripsi Markdown
+ * Dipakai email notifikasi & metadata OpenGraph link berbagi
+ */
+export function toPlainExcerpt(
+  markdown: string | null | undefined,
+  maxLength = 200,
+): string | null {
+  if (!markdown) return null;
+
+  const text = markdown
+    .replace(/!\[[^\]]*]\([^)]*\)/g, "") // Gambar
+    .replace(/\{\{\s*\w+\s+[^}]*\}\}/g, "") // Shortcode embed
+    .replace(/\[([^\]]*)]\([^)]*\)/g, "$1") // Link -> teks
+    .replace(/[#>*_`~|-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!text) return null;
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength).trimEnd()}…`
+    : text;
+}
+
+export type MarkdownFormat =
+  "bold" | "italic" | "heading" | "bulletList" | "orderedList" | "link";
+
+/**
+ * Teks beserta posisi seleksi setelah perubahan di editor
+ */
+export interface MarkdownEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const PLACEHOLDERS: Record<"bold" | "italic" | "link", string> = {
+  bold: "teks tebal",
+  italic: "teks miring",
+  link: "teks link",
+};
+
+/**
+ * Membungkus seleksi dengan penanda (mis. **...**), seleksi baru = isi
+ */
+function wrapSelection(
+  value: string,
+  start: number,
+  end: number,
+  marker: string,
+  placeholder: string,
+): MarkdownEdit {
+  const selected = value.slice(start, end) || placeholder;
+  const next = `${value.slice(0, start)}${marker}${selected}${marker}${value.slice(end)}`;
+  return {
+    value: next,
+    selectionStart: start + marker.length,
+    selectionEnd: start + marker.length + selected.length,
+  };
+}
+
+/**
+ * Menambahkan awalan ke setiap baris yang tersentuh seleksi
+ */
+function prefixLines(
+  value: string,
+  start: number,
+  end: number,
+  getPrefix: (index: number) => string,
+): MarkdownEdit {
+  const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+  const lineEndIndex = value.indexOf("\n", end);
+  const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+
+  const lines = value
+    .slice(lineStart, lineEnd)
+    .split("\n")
+    .map((line, index) => `${getPrefix(index)}${line}`);
+  const block = lines.join("\n");
+
+  return {
+    value: `${value.slice(0, lineStart)}${block}${value.slice(lineEnd)}`,
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+}
+
+/**
+ * Menerapkan format toolbar ke teks pada seleksi tertentu
+ */
+export function applyMarkdownFormat(
+  value: string,
+  start: number,
+  end: number,
+  format: MarkdownFormat,
+): MarkdownEdit {
+  switch (format) {
+    case "bold":
+      return wrapSelection(value, start, end, "**", PLACEHOLDERS.bold);
+    case "italic":
+      return wrapSelection(value, start, end, "_", PLACEHOLDERS.italic);
+    case "heading":
+      return prefixLines(value, start, end, () => "## ");
+    case "bulletList":
+      return prefixLines(value, start, end, () => "- ");
+    case "orderedList":
+      return prefixLines(value, start, end, (index) => `${index + 1}. `);
+    case "link": {
+      const text = value.slice(start, end) || PLACEHOLDERS.link;
+      const url = "https://";
+      const link = `[${text}](${url})`;
+      const urlStart = start + text.length + 3;
+      return {
+        value: `${value.slice(0, start)}${link}${value.slice(end)}`,
+        selectionStart: urlStart,
+        selectionEnd: urlStart + url.length,
+      };
+    }
+  }
+}
+
+/**
+ * Menyisipkan gambar inline di posisi kursor (di baris sendiri)
+ */
+export function insertMarkdownImage(
+  value: string,
+  position: number,
+  alt: string,
+  key: string,
+): MarkdownEdit {
+  const before = value.slice(0, position);
+  const after = value.slice(position);
+  const image = `![${alt.replace(/[[\]]/g, "")}](${key})`;
+  const prefix = before && !before.endsWith("\n") ? "\n" : "";
+  const suffix = after.startsWith("\n") ? "" : "\n";
+  const inserted = `${prefix}${image}${suffix}`;
+
+  return {
+    value: `${before}${inserted}${after}`,
+    selectionStart: position + inserted.length,
+    selectionEnd: position + inserted.length,
+  };
+}
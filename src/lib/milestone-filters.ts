@@ -0,0 +1,125 @@
+import type { MilestoneFilters, MilestoneSort } from "@/lib/types/milestones";
+
+/**
+ * Urutan yang tersedia beserta labelnya
+ */
+export const MILESTONE_SORTS = [
+  "newest",
+  "oldest",
+  "updated",
+  "title",
+] as const satisfies readonly MilestoneSort[];
+
+export const MILESTONE_SORT_LABELS: Record<MilestoneSort, string> = {
+  newest: "Terbaru",
+  oldest: "Terlama",
+  updated: "Baru diperbarui",
+  title: "Judul (A-Z)",
+};
+
+export const DEFAULT_MILESTONE_SORT: MilestoneSort = "newest";
+
+/**
+ * Nama parameter URL untuk setiap filter
+ */
+const FILTER_PARAMS = [
+  "from",
+  "to",
+  "year",
+  "month",
+  "image",
+  "tag",
+  "sort",
+] as const;
+
+type SearchParamValue = string | string[] | undefined;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+function firstValue(value: SearchParamValue): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseInteger(
+  value: string | undefined,
+  min: number,
+  max: number,
+): number | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const number = Number(value);
+  return number >= min && number <= max ? number : undefined;
+}
+
+/**
+ * Membaca filter dari URL search params
+ * Nilai yang tidak valid diabaikan agar URL lama/rusak tetap bisa dibuka
+ */
+export function parseMilestoneFilters(
+  params: Record<string, SearchParamValue>,
+): MilestoneFilters {
+  const from = firstValue(params.from);
+  const to = firstValue(params.to);
+  const year = parseInteger(firstValue(params.year), 1900, 2200);
+  const month = year
+    ? parseInteger(firstValue(params.month), 1, 12)
+    : undefined;
+  const tag = firstValue(params.tag);
+  const sort = firstValue(params.sort) as MilestoneSort | undefined;
+
+  return {
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+    year,
+    month,
+    hasImage: firstValue(params.image) === "1" || undefined,
+    tag: tag && SLUG_PATTERN.test(tag) ? tag : undefined,
+    sort: sort && MILESTONE_SORTS.includes(sort) ? sort : undefined,
+  };
+}
+
+/**
+ * Menulis filter ke URL search params, parameter lain (mis. ?q=) dipertahankan
+ */
+export function applyMilestoneFilters(
+  params: URLSearchParams,
+  filters: MilestoneFilters,
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  FILTER_PARAMS.forEach((name) => next.delete(name));
+
+  if (filters.from) next.set("from", filters.from);
+  if (filters.to) next.set("to", filters.to);
+  if (filters.year) next.set("year", String(filters.year));
+  if (filters.year && filters.month) next.set("month", String(filters.month));
+  if (filters.hasImage) next.set("image", "1");
+  if (filters.tag) next.set("tag", filters.tag);
+  if (filters.sort && filters.sort !== DEFAULT_MILESTONE_SORT) {
+    next.set("sort", filters.sort);
+  }
+
+  return next;
+}
+
+/**
+ * Apakah ada filter aktif (selain urutan)
+ */
+export function hasActiveFilters(filters: MilestoneFilters): boolean {
+  return Boolean(
+    filters.from ||
+    filters.to ||
+    filters.year ||
+    filters.hasImage ||
+    filters.tag,
+  );
+}
+
+/**
+ * URL home page yang difilter berdasarkan tag (keluar dari mode pencarian)
+ */
+export function getTagFilterHref(search: string, slug: string): string {
+  const params = new URLSearchParams(search);
+  params.delete("q");
+  params.set("tag", slug);
+  return `/?${params.toString()}`;
+}
@@ -0,0 +1,67 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Milestone, MilestoneStatus } from "@/lib/types/milestones";
+
+/**
+ * Status yang tersedia beserta labelnya
+ */
+export const MILESTONE_STATUSES = [
+  "draft",
+  "scheduled",
+  "published",
+  "archived",
+] as const satisfies readonly MilestoneStatus[];
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  draft: "Draft",
+  scheduled: "Terjadwal",
+  published: "Dipublikasikan",
+  archived: "Arsip",
+};
+
+/**
+ * Status yang berlaku saat ini
+ * Journey terjadwal dianggap published begitu publish_at terlewati,
+ * sama dengan aturan RLS (tidak perlu cron untuk mengubah kolom status)
+ */
+export function getEffectiveStatus(
+  milestone: Pick<Milestone, "status" | "publish_at">,
+  now: number = Date.now(),
+): MilestoneStatus {
+  if (
+    milestone.status === "scheduled" &&
+    milestone.publish_at &&
+    new Date(milestone.publish_at).getTime() <= now
+  ) {
+    return "published";
+  }
+  return milestone.status;
+}
+
+/**
+ * Apakah journey terlihat oleh semua member
+ */
+export function isPubliclyVisible(
+  milestone: Pick<Milestone, "status" | "publish_at">,
+  now?: number,
+): boolean {
+  return getEffectiveStatus(milestone, now) === "published";
+}
+
+/**
+ * Format nilai input datetime-local (waktu lokal browser)
+ */
+export function toDateTimeLocal(value: string | Date): string {
+  return format(
+    typeof value === "string" ? parseISO(value) : value,
+    "yyyy-MM-dd'T'HH:mm",
+  );
+}
+
+/**
+ * Jadwal awal saat memilih "Jadwalkan": besok pukul 08.00
+ */
+export function getDefaultSchedule(): string {
+  const tomorrow = addDays(new Date(), 1);
+  tomorrow.setHours(8, 0, 0, 0);
+  return toDateTimeLocal(tomorrow);
+}
@@ -0,0 +1,14 @@
+/**
+ * Tampilan daftar journey di home page
+ */
+export type MilestoneView = "grid" | "timeline";
+
+/**
+ * Cookie penyimpan pilihan tampilan, dibaca server agar render awal sesuai
+ */
+export const MILESTONE_VIEW_COOKIE = "milestone_view";
+export const MILESTONE_VIEW_MAX_AGE = 60 * 60 * 24 * 365; // 1 tahun
+
+export function parseMilestoneView(value: string | undefined): MilestoneView {
+  return value === "timeline" ? "timeline" : "grid";
+}
@@ -0,0 +1,43 @@
+import type {
+  NotificationPreferences,
+  NotificationTopic,
+} from "@/lib/types/notifications";
+
+/**
+ * Jenis notifikasi beserta label di halaman akun
+ */
+export const NOTIFICATION_TOPICS = [
+  "milestone_published",
+  "proposal_outcome",
+  "weekly_digest",
+] as const satisfies readonly NotificationTopic[];
+
+export const NOTIFICATION_TOPIC_LABELS: Record<
+  NotificationTopic,
+  { label: string; description: string }
+> = {
+  milestone_published: {
+    label: "Journey baru",
+    description: "Email setiap kali journey baru diterbitkan",
+  },
+  proposal_outcome: {
+    label: "Hasil review usulan",
+    description:
+      "Email saat usulan Anda disetujui, perlu perbaikan, atau ditolak",
+  },
+  weekly_digest: {
+    label: "Ringkasan mingguan",
+    description:
+      "Satu email berisi journey yang terbit selama seminggu terakhir",
+  },
+};
+
+/**
+ * Preferensi untuk user yang belum pernah mengubah pengaturan
+ * (sama dengan default kolom di tabel notification_preferences)
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  milestone_published: true,
+  proposal_outcome: true,
+  weekly_digest: false,
+};
@@ -0,0 +1,144 @@
+import { subDays } from "date-fns";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { notifyMilestonePublished } from "@/lib/mail/notify";
+import { pushMilestonePublished } from "@/lib/push/send";
+import type { Milestone } from "@/lib/types/milestones";
+import type { ScheduledPublishReport } from "@/lib/types/notifications";
+
+/**
+ * Pengumuman journey terbit (server only)
+ * Email dan Web Push dikirim bersama. Setiap journey hanya diumumkan
+ * sekali: baris milestone_publish_notifications
+ * diklaim lebih dulu, baik saat journey langsung terbit (server action)
+ * maupun saat publish_at journey terjadwal tiba (job cron).
+ */
+
+// Journey terjadwal yang terbit lebih lama dari ini tidak diumumkan lagi
+const SCHEDULED_LOOKBACK_DAYS = 7;
+
+type AnnouncedMilestone = Pick<
+  Milestone,
+  "id" | "title" | "event_date" | "description"
+>;
+
+function logAnnouncementError(context: string, error: unknown) {
+  console.error(
+    `${context}:`,
+    process.env.NODE_ENV === "development" ? error : "Failed",
+  );
+}
+
+/**
+ * Klaim pengumuman journey, false jika sudah pernah diumumkan
+ * INSERT ... ON CONFLICT DO NOTHING sehingga dua pemanggil bersamaan
+ * tidak sama-sama mengirim
+ */
+async function claimAnnouncement(milestoneId: string): Promise<boolean> {
+  const { data, error } = await createAdminClient()
+    .from("milestone_publish_notifications")
+    .upsert(
+      { milestone_id: milestoneId },
+      { onConflict: "milestone_id", ignoreDuplicates: true },
+    )
+    .select("milestone_id");
+
+  if (error) {
+    throw new Error("Gagal mencatat pengumuman journey");
+  }
+
+  return data.length > 0;
+}
+
+/**
+ * Kirim email & push untuk satu journey
+ */
+async function sendAnnouncement(
+  milestone: AnnouncedMilestone,
+  actorId: string | null,
+): Promise<void> {
+  await Promise.all([
+    notifyMilestonePublished(milestone, actorId),
+    pushMilestonePublished(milestone, actorId),
+  ]);
+}
+
+/**
+ * Umumkan journey yang baru terbit (email & push), sekali per journey
+ * @param actorId - Yang menerbitkan, tidak ikut dikirimi
+ */
+export async function announceMilestonePublished(
+  milestone: AnnouncedMilestone,
+  actorId: string | null,
+): Promise<void> {
+  try {
+    if (!(await claimAnnouncement(milestone.id))) return;
+  } catch (error) {
+    logAnnouncementError("Announce milestone published error", error);
+    return;
+  }
+
+  await sendAnnouncement(milestone, actorId);
+}
+
+/**
+ * Umumkan journey terjadwal yang publish_at-nya sudah lewat
+ * Dijalankan cron beberapa menit sekali; journey yang sudah diumumkan
+ * dilewati. Pembuat journey dianggap penerbitnya.
+ */
+export async function announceDueScheduledMilestones({
+  dryRun = true,
+}: { dryRun?: boolean } = {}): Promise<ScheduledPublishReport> {
+  const now = new Date();
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("milestones")
+    .select("id, title, event_date, description, created_by")
+    .is("deleted_at", null)
+    .eq("status", "scheduled")
+    .gte("publish_at", subDays(now, SCHEDULED_LOOKBACK_DAYS).toISOString())
+    .lte("publish_at", now.toISOString())
+    .order("publish_at", { ascending: true });
+
+  if (error) {
+    throw new Error("Gagal mengambil journey terjadwal");
+  }
+
+  const due = data as (AnnouncedMilestone & Pick<Milestone, "created_by">)[];
+  const announcedIds = new Set<string>();
+
+  if (due.length > 0) {
+    const { data: announced, error: announcedError } = await admin
+      .from("milestone_publish_notifications")
+      .select("milestone_id")
+      .in(
+        "milestone_id",
+        due.map((milestone) => milestone.id),
+      );
+
+    if (announcedError) {
+      throw new Error("Gagal mengambil catatan pengumuman journey");
+    }
+
+    announced.forEach((row) => announcedIds.add(row.milestone_id as string));
+  }
+
+  const pending = due.filter((milestone) => !announcedIds.has(milestone.id));
+  const report: ScheduledPublishReport = {
+    dry_run: dryRun,
+    milestones: pending.length,
+    announced: 0,
+  };
+
+  if (dryRun) {
+    return report;
+  }
+
+  for (const milestone of pending) {
+    if (!(await claimAnnouncement(milestone.id))) continue;
+    await sendAnnouncement(milestone, milestone.created_by);
+    report.announced += 1;
+  }
+
+  return report;
+}
@@ -0,0 +1,100 @@
+import type { Milestone } from "@/lib/types/milestones";
+import type { AccessContext, Permission, Role } from "@/lib/types/roles";
+
+/**
+ * Daftar role dari akses terendah ke tertinggi
+ * Urutan ini sama dengan enum app_role di database (dipakai has_role)
+ */
+export const ROLES = [
+  "viewer",
+  "contributor",
+  "editor",
+  "owner",
+] as const satisfies readonly Role[];
+
+export const DEFAULT_ROLE: Role = "viewer";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Viewer",
+  contributor: "Kontributor",
+  editor: "Editor",
+  owner: "Owner",
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: "Membaca & mengusulkan journey",
+  contributor: "Membuat draft journey",
+  editor:
+    "Publish, edit, hapus, bagikan & tinjau usulan journey, kelola tag, moderasi komentar",
+  owner: "Semua akses + manajemen user & audit log",
+};
+
+const VIEWER_PERMISSIONS: Permission[] = ["proposal.submit"];
+
+const CONTRIBUTOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  "milestone.create",
+  "milestone.edit_own",
+  "media.upload",
+];
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...CONTRIBUTOR_PERMISSIONS,
+  "milestone.edit_any",
+  "milestone.publish",
+  "milestone.delete",
+  "milestone.share",
+  "media.delete",
+  "tag.manage",
+  "comment.moderate",
+  "proposal.review",
+];
+
+/**
+ * Izin yang dimiliki setiap role
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: VIEWER_PERMISSIONS,
+  contributor: CONTRIBUTOR_PERMISSIONS,
+  editor: EDITOR_PERMISSIONS,
+  owner: [
+    ...EDITOR_PERMISSIONS,
+    "storage.manage",
+    "notification.manage",
+    "user.manage",
+    "audit.view",
+  ],
+};
+
+/**
+ * Akses untuk user yang belum login
+ */
+export const ANONYMOUS_ACCESS: AccessContext = {
+  userId: null,
+  role: null,
+  permissions: [],
+};
+
+/**
+ * Apakah akses memiliki izin tertentu
+ */
+export function can(access: AccessContext, permission: Permission): boolean {
+  return access.permissions.includes(permission);
+}
+
+/**
+ * Apakah akses boleh mengedit milestone
+ * Kontributor hanya boleh mengedit draft miliknya sendiri
+ */
+export function canEditMilestone(
+  access: AccessContext,
+  milestone: Pick<Milestone, "created_by" | "status">,
+): boolean {
+  if (can(access, "milestone.edit_any")) return true;
+  return (
+    can(access, "milestone.edit_own") &&
+    !!access.userId &&
+    milestone.created_by === access.userId &&
+    milestone.status === "draft"
+  );
+}
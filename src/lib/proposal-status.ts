@@ -0,0 +1,27 @@
+import type { MilestoneProposal, ProposalStatus } from "@/lib/types/proposals";
+
+/**
+ * Label status usulan
+ */
+export const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+  pending: "Menunggu review",
+  changes_requested: "Perlu perbaikan",
+  approved: "Disetujui",
+  rejected: "Ditolak",
+};
+
+/**
+ * Status yang masih boleh diedit pengusul (sama dengan aturan RLS)
+ */
+export const EDITABLE_PROPOSAL_STATUSES = [
+  "pending",
+  "changes_requested",
+] as const satisfies readonly ProposalStatus[];
+
+export function isProposalEditable(
+  proposal: Pick<MilestoneProposal, "status">,
+): boolean {
+  return (EDITABLE_PROPOSAL_STATUSES as readonly ProposalStatus[]).includes(
+    proposal.status,
+  );
+}
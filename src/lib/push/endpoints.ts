@@ -0,0 +1,35 @@
+/**
+ * Allowlist host push service
+ * Endpoint langganan dikirim oleh browser dan disimpan apa adanya, lalu
+ * server mengirim request ke sana; tanpa allowlist member bisa membuat
+ * server menembak URL apa pun (SSRF).
+ */
+
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com", // Chrome, Edge (Chromium), Opera
+  "push.services.mozilla.com", // Firefox
+  "push.apple.com", // Safari
+  "notify.windows.com", // Edge lama (WNS)
+];
+
+/**
+ * Cek endpoint memakai HTTPS dan mengarah ke push service yang dikenal
+ * (host persis atau subdomain dari allowlist)
+ */
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:" || url.port !== "" || url.username) {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some(
+    (host) => hostname === host || hostname.endsWith(`.${host}`),
+  );
+}
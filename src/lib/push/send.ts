@@ -0,0 +1,140 @@
+import webpush, { WebPushError, type PushSubscription } from "web-push";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { readAllRows } from "@/lib/supabase/read-all";
+import { getActiveMembers } from "@/lib/auth/members";
+import { isAllowedPushEndpoint } from "@/lib/push/endpoints";
+import type { Milestone } from "@/lib/types/milestones";
+import type { PushPayload } from "@/lib/types/push";
+
+/**
+ * Pengiriman Web Push (server only)
+ * Dipanggil lewat after() seperti notifikasi email. Tanpa VAPID key,
+ * pengiriman dilewati diam-diam agar fitur lain tetap berjalan.
+ * Langganan yang sudah tidak berlaku (404/410) dihapus otomatis.
+ */
+
+const SEND_CONCURRENCY = 10;
+const PUSH_TTL_SECONDS = 60 * 60 * 24; // Notifikasi basi setelah 1 hari
+
+interface StoredSubscription {
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+function logPushError(context: string, error: unknown) {
+  console.error(
+    `${context}:`,
+    process.env.NODE_ENV === "development" ? error : "Failed",
+  );
+}
+
+/**
+ * Konfigurasi VAPID dari environment, null jika belum lengkap
+ */
+function getVapidDetails() {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  return {
+    subject: process.env.VAPID_SUBJECT || "mailto:admin@example.com",
+    publicKey,
+    privateKey,
+  };
+}
+
+/**
+ * Kirim payload ke setiap langganan, hapus yang sudah kedaluwarsa
+ */
+async function sendToSubscriptions(
+  subscriptions: StoredSubscription[],
+  payload: PushPayload,
+): Promise<void> {
+  const vapidDetails = getVapidDetails();
+  if (!vapidDetails) return;
+
+  const body = JSON.stringify(payload);
+  const expired: string[] = [];
+
+  for (let i = 0; i < subscriptions.length; i += SEND_CONCURRENCY) {
+    const results = await Promise.allSettled(
+      subscriptions.slice(i, i + SEND_CONCURRENCY).map((subscription) => {
+        const target: PushSubscription = {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        };
+        return webpush.sendNotification(target, body, {
+          vapidDetails,
+          TTL: PUSH_TTL_SECONDS,
+        });
+      }),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") return;
+
+      const reason = result.reason;
+      if (
+        reason instanceof WebPushError &&
+        (reason.statusCode === 404 || reason.statusCode === 410)
+      ) {
+        expired.push(subscriptions[i + index].endpoint);
+      } else {
+        logPushError("Push send error", reason);
+      }
+    });
+  }
+
+  if (expired.length > 0) {
+    const { error } = await createAdminClient()
+      .from("push_subscriptions")
+      .delete()
+      .in("endpoint", expired);
+    if (error) logPushError("Delete expired push subscriptions error", error);
+  }
+}
+
+/**
+ * Kirim push ke semua perangkat yang berlangganan bahwa journey baru terbit
+ * Hanya perangkat milik member aktif (sama seperti penerima email di
+ * lib/mail/notify.ts); perangkat pembuat/penerbit journey dan endpoint di
+ * luar allowlist push service tidak ikut dikirimi
+ */
+export async function pushMilestonePublished(
+  milestone: Pick<Milestone, "id" | "title" | "event_date">,
+  actorId: string | null,
+): Promise<void> {
+  if (!getVapidDetails()) return;
+
+  try {
+    const admin = createAdminClient();
+    const [rows, members] = await Promise.all([
+      readAllRows("langganan push", (from, to) => {
+        let query = admin
+          .from("push_subscriptions")
+          .select("user_id, endpoint, p256dh, auth", { count: "exact" });
+        if (actorId) query = query.neq("user_id", actorId);
+        return query.order("endpoint").range(from, to);
+      }),
+      getActiveMembers(admin),
+    ]);
+
+    const memberIds = new Set(members.map((member) => member.id));
+    const subscriptions = (rows as unknown as StoredSubscription[]).filter(
+      (subscription) =>
+        memberIds.has(subscription.user_id) &&
+        isAllowedPushEndpoint(subscription.endpoint),
+    );
+
+    await sendToSubscriptions(subscriptions, {
+      title: "Journey baru",
+      body: milestone.title,
+      url: `/?q=${encodeURIComponent(milestone.title)}`,
+      tag: `milestone-${milestone.id}`,
+    });
+  } catch (error) {
+    logPushError("Push milestone published error", error);
+  }
+}
@@ -0,0 +1,92 @@
+import type { Milestone } from "@/lib/types/milestones";
+import type { Tag } from "@/lib/types/tags";
+
+/**
+ * Journey yang terakhir dibuka, disimpan untuk dibaca offline (browser only)
+ * Disimpan di Cache API agar bisa dibaca halaman /offline saat jaringan putus.
+ * Nama cache harus sama dengan RECENT_MILESTONES_CACHE di public/sw.js.
+ */
+
+export const RECENT_MILESTONES_CACHE = "recent-milestones-v1";
+
+const MAX_RECENT_MILESTONES = 20;
+const CACHE_KEY_PREFIX = "/offline/milestones/";
+
+export interface OfflineMilestone extends Pick<
+  Milestone,
+  "id" | "title" | "event_date" | "description"
+> {
+  tags: Pick<Tag, "name" | "color">[];
+  viewed_at: string;
+}
+
+function isCacheAvailable(): boolean {
+  return typeof window !== "undefined" && "caches" in window;
+}
+
+/**
+ * Semua journey yang tersimpan, terakhir dibuka dulu
+ */
+export async function getRecentMilestones(): Promise<OfflineMilestone[]> {
+  if (!isCacheAvailable()) return [];
+
+  const cache = await caches.open(RECENT_MILESTONES_CACHE);
+  const requests = await cache.keys();
+  const entries = await Promise.all(
+    requests.map(async (request) => {
+      const response = await cache.match(request);
+      return response ? ((await response.json()) as OfflineMilestone) : null;
+    }),
+  );
+
+  return entries
+    .filter((entry): entry is OfflineMilestone => !!entry)
+    .sort((a, b) => b.viewed_at.localeCompare(a.viewed_at));
+}
+
+/**
+ * Simpan journey yang sedang dibuka; hanya 20 terakhir yang dipertahankan
+ * Gambar tidak ikut disimpan karena presigned URL-nya kedaluwarsa
+ */
+export async function rememberMilestone(milestone: Milestone): Promise<void> {
+  if (!isCacheAvailable()) return;
+
+  try {
+    const entry: OfflineMilestone = {
+      id: milestone.id,
+      title: milestone.title,
+      event_date: milestone.event_date,
+      description: milestone.description,
+      tags: (milestone.tags ?? []).map(({ name, color }) => ({ name, color })),
+      viewed_at: new Date().toISOString(),
+    };
+
+    const cache = await caches.open(RECENT_MILESTONES_CACHE);
+    await cache.put(
+      `${CACHE_KEY_PREFIX}${milestone.id}`,
+      new Response(JSON.stringify(entry), {
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+
+    const recent = await getRecentMilestones();
+    await Promise.all(
+      recent
+        .slice(MAX_RECENT_MILESTONES)
+        .map((item) => cache.delete(`${CACHE_KEY_PREFIX}${item.id}`)),
+    );
+  } catch (error) {
+    // Penyimpanan offline hanya pelengkap, jangan ganggu tampilan detail
+    console.error("Remember milestone error:", error);
+  }
+}
+
+/**
+ * Hapus semua cache PWA (halaman & journey tersimpan), dipanggil saat logout
+ */
+export async function clearOfflineData(): Promise<void> {
+  if (!isCacheAvailable()) return;
+
+  const names = await caches.keys();
+  await Promise.all(names.map((name) => caches.delete(name)));
+}
@@ -0,0 +1,128 @@
+import {
+  deletePushSubscription,
+  savePushSubscription,
+} from "@/lib/actions/push";
+
+/**
+ * Helper langganan Web Push di browser
+ * Langganan berlaku per perangkat/browser dan memerlukan service worker aktif
+ * (didaftarkan ServiceWorkerRegister, hanya di production)
+ */
+
+export type PushResult = {
+  success: boolean;
+  error?: string;
+};
+
+/**
+ * Browser mendukung push dan VAPID public key sudah di-set
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window &&
+    !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  );
+}
+
+/**
+ * VAPID public key (base64url) -> format applicationServerKey
+ */
+function urlBase64ToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const padding = "=".repeat((4 - (value.length % 4)) % 4);
+  const base64 = (value + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  const output = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    output[i] = raw.charCodeAt(i);
+  }
+  return output;
+}
+
+/**
+ * Langganan push perangkat ini, null jika belum berlangganan
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Minta izin notifikasi lalu simpan langganan perangkat ini ke server
+ */
+export async function subscribeToPush(): Promise<PushResult> {
+  if (!isPushSupported()) {
+    return {
+      success: false,
+      error: "Browser ini tidak mendukung notifikasi push",
+    };
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    return {
+      success: false,
+      error: "Service worker belum aktif. Muat ulang halaman lalu coba lagi.",
+    };
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    return {
+      success: false,
+      error: "Izin notifikasi ditolak. Aktifkan lewat pengaturan browser.",
+    };
+  }
+
+  try {
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(
+        process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+      ),
+    });
+    const json = subscription.toJSON();
+
+    const result = await savePushSubscription({
+      endpoint: subscription.endpoint,
+      keys: {
+        p256dh: json.keys?.p256dh ?? "",
+        auth: json.keys?.auth ?? "",
+      },
+    });
+    if (!result.success) {
+      await subscription.unsubscribe();
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Push subscribe error:", error);
+    return {
+      success: false,
+      error: "Gagal mengaktifkan notifikasi push",
+    };
+  }
+}
+
+/**
+ * Berhenti berlangganan push di perangkat ini
+ */
+export async function unsubscribeFromPush(): Promise<PushResult> {
+  const subscription = await getPushSubscription();
+  if (!subscription) {
+    return { success: true };
+  }
+
+  const result = await deletePushSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+
+  return result;
+}
@@ -0,0 +1,46 @@
+/**
+ * Penanda highlight dari ts_headline (fungsi SQL search_milestones)
+ * Dipakai sebagai ganti tag HTML agar hasil pencarian aman dirender tanpa innerHTML
+ */
+export const HIGHLIGHT_START = "⟦";
+export const HIGHLIGHT_END = "⟧";
+
+export type HighlightSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+/**
+ * Memecah teks hasil ts_headline menjadi segmen biasa dan segmen highlight
+ */
+export function splitHighlights(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+    const end = rest.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+    if (end === -1) {
+      segments.push({
+        text: rest.replace(HIGHLIGHT_START, ""),
+        highlighted: false,
+      });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({
+      text: rest.slice(start + HIGHLIGHT_START.length, end),
+      highlighted: true,
+    });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return segments;
+}
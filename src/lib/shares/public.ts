@@ -0,0 +1,140 @@
+import { cache } from "react";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { extractImageKeys } from "@/lib/markdown";
+import { isPubliclyVisible } from "@/lib/milestone-status";
+import { s3Client, BUCKET_NAME } from "@/lib/storage/s3";
+import type {
+  ImageVariant,
+  Milestone,
+  MilestoneImage,
+} from "@/lib/types/milestones";
+import type { SharedMilestone } from "@/lib/types/shares";
+
+/**
+ * Resolve token link berbagi menjadi journey read-only (server only)
+ * Pengunjung tidak punya sesi, jadi data dibaca dengan service role;
+ * token menjadi satu-satunya otorisasi dan hanya membuka satu journey.
+ */
+
+const SHARE_IMAGE_URL_EXPIRES = 15 * 60; // 15 menit, lebih pendek dari presigned URL member
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * Presigned URL berumur pendek, tidak di-cache agar tidak bocor lebih lama
+ */
+async function signShareImageUrl(key: string): Promise<string | undefined> {
+  if (key.startsWith("http://") || key.startsWith("https://")) return key;
+
+  try {
+    return await getSignedUrl(
+      s3Client,
+      new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key }),
+      { expiresIn: SHARE_IMAGE_URL_EXPIRES },
+    );
+  } catch (error) {
+    console.error(
+      "Share presigned URL error:",
+      process.env.NODE_ENV === "development" ? error : "Failed",
+    );
+    return undefined;
+  }
+}
+
+async function resolveImage(image: MilestoneImage): Promise<MilestoneImage> {
+  const variantUrls: Partial<Record<ImageVariant, string>> = {};
+  if (image.variants) {
+    await Promise.all(
+      (Object.keys(image.variants) as ImageVariant[]).map(async (variant) => {
+        const url = await signShareImageUrl(image.variants![variant]);
+        if (url) variantUrls[variant] = url;
+      }),
+    );
+  }
+
+  return {
+    ...image,
+    image_url: await signShareImageUrl(image.image_key),
+    variant_urls: variantUrls,
+  };
+}
+
+/**
+ * Journey untuk token link berbagi, null jika token tidak valid,
+ * sudah dicabut/kedaluwarsa, atau journey tidak lagi terbit
+ * Di-cache per request agar generateMetadata & page tidak query berulang
+ */
+export const getSharedMilestone = cache(
+  async (token: string): Promise<SharedMilestone | null> => {
+    if (!TOKEN_PATTERN.test(token)) return null;
+
+    const admin = createAdminClient();
+
+    const { data: link } = await admin
+      .from("milestone_share_links")
+      .select("milestone_id, expires_at")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (!link || (link.expires_at && new Date(link.expires_at) <= new Date())) {
+      return null;
+    }
+
+    const { data } = await admin
+      .from("milestones")
+      .select("*, images:milestone_images(*), tags(*)")
+      .eq("id", link.milestone_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    const milestone = data as Milestone | null;
+    if (!milestone || !isPubliclyVisible(milestone)) return null;
+
+    // Milestone lama (sebelum gallery) hanya punya image_url
+    const images: MilestoneImage[] =
+      milestone.images && milestone.images.length > 0
+        ? [...milestone.images].sort((a, b) => a.position - b.position)
+        : milestone.image_url
+          ? [
+              {
+                id: `legacy-${milestone.id}`,
+                milestone_id: milestone.id,
+                image_key: milestone.image_url,
+                variants: null,
+                caption: null,
+                position: 0,
+                is_cover: true,
+                created_at: milestone.created_at,
+              },
+            ]
+          : [];
+
+    const [resolvedImages, descriptionImageUrls] = await Promise.all([
+      Promise.all(images.map(resolveImage)),
+      Promise.all(
+        extractImageKeys(milestone.description).map(
+          async (key) => [key, await signShareImageUrl(key)] as const,
+        ),
+      ),
+    ]);
+
+    const cover =
+      resolvedImages.find((image) => image.is_cover) ?? resolvedImages[0];
+
+    return {
+      id: milestone.id,
+      title: milestone.title,
+      description: milestone.description,
+      event_date: milestone.event_date,
+      images: resolvedImages,
+      tags: milestone.tags ?? [],
+      description_image_urls: Object.fromEntries(
+        descriptionImageUrls.filter(
+          (entry): entry is readonly [string, string] => !!entry[1],
+        ),
+      ),
+      cover_url: cover?.variant_urls?.full ?? cover?.image_url ?? null,
+    };
+  },
+);
@@ -0,0 +1,224 @@
+import { DeleteObjectsCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { readAllRows } from "@/lib/supabase/read-all";
+import { getSiblingVariantKeys } from "@/lib/images/process";
+import { extractImageKeys } from "@/lib/markdown";
+import type { MilestoneImageInput } from "@/lib/types/milestones";
+import {
+  s3Client,
+  BUCKET_NAME,
+  MILESTONE_PREFIX,
+  PROPOSAL_PREFIX,
+  UPLOAD_STAGING_PREFIX,
+} from "./s3";
+
+const DEFAULT_GRACE_HOURS = 24;
+const DELETE_BATCH_SIZE = 1000; // Batas DeleteObjects S3 per request
+
+export type OrphanedObject = {
+  key: string;
+  size: number;
+  lastModified: string | null;
+};
+
+export type StorageGcReport = {
+  dryRun: boolean;
+  graceHours: number;
+  scanned: number;
+  referenced: number;
+  orphaned: OrphanedObject[];
+  deleted: number;
+  errors: string[];
+};
+
+type ListedObject = {
+  key: string;
+  size: number;
+  lastModified: Date | null;
+};
+
+/**
+ * Mengambil semua objek di bawah prefix (mengikuti pagination S3)
+ */
+async function listObjects(prefix: string): Promise<ListedObject[]> {
+  const objects: ListedObject[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: BUCKET_NAME,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }),
+    );
+
+    for (const object of page.Contents ?? []) {
+      if (!object.Key) continue;
+      objects.push({
+        key: object.Key,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified ?? null,
+      });
+    }
+
+    continuationToken = page.IsTruncated
+      ? page.NextContinuationToken
+      : undefined;
+  } while (continuationToken);
+
+  return objects;
+}
+
+/**
+ * Mengumpulkan semua S3 key yang masih direferensikan database
+ * Termasuk cover milestone, gallery, gambar inline deskripsi, riwayat versi,
+ * usulan yang masih ditinjau, dan semua varian ukuran
+ */
+async function getReferencedKeys(): Promise<Set<string>> {
+  const supabase = createAdminClient();
+  const referenced = new Set<string>();
+
+  const addKey = (key: string | null | undefined) => {
+    if (
+      !key ||
+      !(key.startsWith(MILESTONE_PREFIX) || key.startsWith(PROPOSAL_PREFIX))
+    ) {
+      return;
+    }
+    referenced.add(key);
+    // Varian saudara ikut dianggap terpakai
+    const siblings = getSiblingVariantKeys(key);
+    if (siblings) Object.values(siblings).forEach((k) => referenced.add(k));
+  };
+
+  const milestones = await readAllRows("milestones", (from, to) =>
+    supabase
+      .from("milestones")
+      .select("image_url, description", { count: "exact" })
+      .order("id")
+      .range(from, to),
+  );
+  milestones.forEach((row) => {
+    addKey(row.image_url as string | null);
+    extractImageKeys(row.description as string | null).forEach(addKey);
+  });
+
+  const images = await readAllRows("milestone_images", (from, to) =>
+    supabase
+      .from("milestone_images")
+      .select("image_key, variants", { count: "exact" })
+      .order("id")
+      .range(from, to),
+  );
+  images.forEach((row) => {
+    addKey(row.image_key as string);
+    Object.values((row.variants ?? {}) as Record<string, string>).forEach(
+      addKey,
+    );
+  });
+
+  // Gambar versi lama tetap disimpan agar bisa dipulihkan
+  const revisions = await readAllRows("milestone_revisions", (from, to) =>
+    supabase
+      .from("milestone_revisions")
+      .select("image_url, images, description", { count: "exact" })
+      .order("id")
+      .range(from, to),
+  );
+  revisions.forEach((row) => {
+    addKey(row.image_url as string | null);
+    extractImageKeys(row.description as string | null).forEach(addKey);
+    (row.images as MilestoneImageInput[]).forEach((image) => {
+      addKey(image.image_key);
+      Object.values(image.variants ?? {}).forEach(addKey);
+    });
+  });
+
+  // Usulan ditolak tidak dihitung: gambar karantinanya ikut dibersihkan
+  const proposals = await readAllRows("milestone_proposals", (from, to) =>
+    supabase
+      .from("milestone_proposals")
+      .select("images, description", { count: "exact" })
+      .in("status", ["pending", "changes_requested"])
+      .order("id")
+      .range(from, to),
+  );
+  proposals.forEach((row) => {
+    extractImageKeys(row.description as string | null).forEach(addKey);
+    (row.images as MilestoneImageInput[]).forEach((image) => {
+      addKey(image.image_key);
+      Object.values(image.variants ?? {}).forEach(addKey);
+    });
+  });
+
+  return referenced;
+}
+
+/**
+ * Rekonsiliasi bucket dengan database
+ * Objek di milestones/ & proposals/ yang tidak direferensikan dan objek
+ * staging uploads/ yang lebih tua dari grace period dianggap orphan.
+ *
+ * @param options.dryRun - true = hanya laporan, tidak menghapus
+ * @param options.graceHours - Umur minimum objek sebelum boleh dihapus
+ */
+export async function collectOrphanedObjects(options: {
+  dryRun: boolean;
+  graceHours?: number;
+}): Promise<StorageGcReport> {
+  const graceHours = options.graceHours ?? DEFAULT_GRACE_HOURS;
+  const cutoff = Date.now() - graceHours * 60 * 60 * 1000;
+
+  // Baca referensi dulu agar upload baru selama scan terlindungi grace period
+  const referenced = await getReferencedKeys();
+  const objects = [
+    ...(await listObjects(MILESTONE_PREFIX)),
+    ...(await listObjects(PROPOSAL_PREFIX)),
+    ...(await listObjects(UPLOAD_STAGING_PREFIX)),
+  ];
+
+  const orphaned = objects.filter(
+    (object) =>
+      !referenced.has(object.key) &&
+      object.lastModified !== null &&
+      object.lastModified.getTime() < cutoff,
+  );
+
+  const report: StorageGcReport = {
+    dryRun: options.dryRun,
+    graceHours,
+    scanned: objects.length,
+    referenced: referenced.size,
+    orphaned: orphaned.map((object) => ({
+      key: object.key,
+      size: object.size,
+      lastModified: object.lastModified?.toISOString() ?? null,
+    })),
+    deleted: 0,
+    errors: [],
+  };
+
+  if (options.dryRun) return report;
+
+  for (let i = 0; i < orphaned.length; i += DELETE_BATCH_SIZE) {
+    const batch = orphaned.slice(i, i + DELETE_BATCH_SIZE);
+    const result = await s3Client.send(
+      new DeleteObjectsCommand({
+        Bucket: BUCKET_NAME,
+        Delete: {
+          Objects: batch.map((object) => ({ Key: object.key })),
+          Quiet: true,
+        },
+      }),
+    );
+
+    const failed = result.Errors ?? [];
+    report.deleted += batch.length - failed.length;
+    failed.forEach((error) =>
+      report.errors.push(`${error.Key}: ${error.Message ?? "gagal dihapus"}`),
+    );
+  }
+
+  return report;
+}
@@ -0,0 +1,108 @@
+import { CopyObjectCommand, DeleteObjectsCommand } from "@aws-sdk/client-s3";
+import { getSiblingVariantKeys } from "@/lib/images/process";
+import { extractImageKeys } from "@/lib/markdown";
+import type { MilestoneImageInput } from "@/lib/types/milestones";
+import type { MilestoneProposal } from "@/lib/types/proposals";
+import { s3Client, BUCKET_NAME, MILESTONE_PREFIX, PROPOSAL_PREFIX } from "./s3";
+
+/**
+ * Pemindahan gambar usulan dari karantina proposals/ ke milestones/ (server only)
+ * Dipanggil approveProposal; key baru = key lama dengan prefix diganti,
+ * sehingga struktur varian (.../thumbnail.webp dst.) tetap sama.
+ */
+
+const DELETE_BATCH_SIZE = 1000; // Batas DeleteObjects S3 per request
+
+/**
+ * Key tujuan di milestones/ untuk key karantina
+ */
+export function toPromotedKey(key: string): string {
+  return key.startsWith(PROPOSAL_PREFIX)
+    ? `${MILESTONE_PREFIX}${key.slice(PROPOSAL_PREFIX.length)}`
+    : key;
+}
+
+/**
+ * Semua key karantina yang direferensikan usulan (gallery, varian, inline)
+ */
+export function getProposalObjectKeys(
+  proposal: Pick<MilestoneProposal, "images" | "description">,
+): string[] {
+  const keys = new Set<string>();
+  const addKey = (key: string | null | undefined) => {
+    if (!key || !key.startsWith(PROPOSAL_PREFIX)) return;
+    keys.add(key);
+    const siblings = getSiblingVariantKeys(key);
+    if (siblings) Object.values(siblings).forEach((k) => keys.add(k));
+  };
+
+  proposal.images.forEach((image) => {
+    addKey(image.image_key);
+    Object.values(image.variants ?? {}).forEach(addKey);
+  });
+  extractImageKeys(proposal.description).forEach(addKey);
+
+  return [...keys];
+}
+
+/**
+ * Menyalin objek karantina ke milestones/ lalu mengembalikan isi usulan
+ * dengan key yang sudah dipindahkan
+ * Objek asli tidak dihapus di sini; panggil deleteProposalObjects setelah
+ * milestone berhasil dibuat
+ */
+export async function promoteProposalImages(
+  proposal: Pick<MilestoneProposal, "images" | "description">,
+): Promise<{ images: MilestoneImageInput[]; description: string | null }> {
+  await Promise.all(
+    getProposalObjectKeys(proposal).map((key) =>
+      s3Client.send(
+        new CopyObjectCommand({
+          Bucket: BUCKET_NAME,
+          CopySource: encodeURI(`${BUCKET_NAME}/${key}`),
+          Key: toPromotedKey(key),
+        }),
+      ),
+    ),
+  );
+
+  return {
+    images: proposal.images.map((image) => ({
+      ...image,
+      image_key: toPromotedKey(image.image_key),
+      variants: image.variants && {
+        thumbnail: toPromotedKey(image.variants.thumbnail),
+        card: toPromotedKey(image.variants.card),
+        full: toPromotedKey(image.variants.full),
+      },
+    })),
+    description:
+      proposal.description?.replaceAll(
+        `](${PROPOSAL_PREFIX}`,
+        `](${MILESTONE_PREFIX}`,
+      ) ?? null,
+  };
+}
+
+/**
+ * Menghapus objek karantina usulan
+ * Kegagalan hanya di-log: sisa objek dibersihkan job GC
+ */
+export async function deleteProposalObjects(keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+    const batch = keys.slice(i, i + DELETE_BATCH_SIZE);
+    try {
+      await s3Client.send(
+        new DeleteObjectsCommand({
+          Bucket: BUCKET_NAME,
+          Delete: { Objects: batch.map((key) => ({ Key: key })), Quiet: true },
+        }),
+      );
+    } catch (error) {
+      console.error(
+        "Delete proposal objects error:",
+        process.env.NODE_ENV === "development" ? error : "Failed",
+      );
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { S3Client } from "@aws-sdk/client-s3";
+
+/**
+ * Konfigurasi S3 Client untuk iDrive E2
+ * Dipakai bersama oleh server actions storage dan job pembersihan bucket
+ */
+export const s3Client = new S3Client({
+  region: process.env.S3_REGION || "auto",
+  endpoint: process.env.S3_ENDPOINT,
+  credentials: {
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+  },
+  forcePathStyle: true, // Required untuk S3-compatible storage
+});
+
+export const BUCKET_NAME = process.env.S3_BUCKET_NAME || "milestones";
+
+// Prefix objek di bucket
+export const MILESTONE_PREFIX = "milestones/"; // Gambar final (direferensikan milestone)
+export const UPLOAD_STAGING_PREFIX = "uploads/"; // Upload langsung dari browser sebelum dikonfirmasi
+export const PROPOSAL_PREFIX = "proposals/"; // Karantina gambar usulan member sampai disetujui
+
+/**
+ * Prefix staging milik satu user: key upload hanya bisa dikonfirmasi oleh
+ * user yang memintanya
+ */
+export function getUploadStagingPrefix(userId: string): string {
+  return `${UPLOAD_STAGING_PREFIX}${userId}/`;
+}
+
+/**
+ * Prefix karantina usulan milik satu user: usulan hanya boleh memakai
+ * gambar dari prefix pengusulnya sendiri
+ */
+export function getProposalPrefix(userId: string): string {
+  return `${PROPOSAL_PREFIX}${userId}/`;
+}
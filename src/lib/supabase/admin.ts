@@ -0,0 +1,26 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Membuat klien Supabase dengan service role key (bypass RLS).
+ * HANYA untuk kode server (route handler, job, server action admin).
+ * Jangan pernah di-import dari komponen client atau barrel export.
+ *
+ * @returns Instance klien Supabase service role
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY belum di-set");
+  }
+
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    },
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Membaca semua baris query per halaman (server only)
+ * PostgREST membatasi hasil (default 1000 baris), jadi job & notifikasi yang
+ * butuh seluruh tabel harus memakai .range() sampai habis.
+ */
+
+const READ_PAGE_SIZE = 1000;
+
+type RowPage = {
+  data: Record<string, unknown>[] | null;
+  error: unknown;
+  count: number | null;
+};
+
+/**
+ * Membaca semua baris per halaman (.range), bukan hanya 1000 pertama
+ * Gagal jika ada halaman yang error atau jumlah baris kurang dari count,
+ * agar pemanggil tidak bekerja dengan data yang diam-diam terpotong
+ * @param label - Nama tabel untuk pesan error
+ * @param fetchPage - Query satu halaman, harus berurutan stabil dan memakai count: "exact"
+ */
+export async function readAllRows(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<RowPage>,
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  let total: number | null = null;
+
+  // Maju sebanyak baris yang diterima, jika server membatasi lebih kecil
+  for (let from = 0; ; from = rows.length) {
+    const { data, error, count } = await fetchPage(
+      from,
+      from + READ_PAGE_SIZE - 1,
+    );
+    if (error || !data || count === null) {
+      throw new Error(`Gagal membaca ${label}`);
+    }
+
+    total ??= count;
+    rows.push(...data);
+    if (data.length === 0 || rows.length >= total) break;
+  }
+
+  if (rows.length < total) {
+    throw new Error(`Data ${label} tidak lengkap`);
+  }
+
+  return rows;
+}
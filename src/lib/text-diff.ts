@@ -0,0 +1,80 @@
+/**
+ * Diff teks per kata untuk tampilan riwayat versi
+ */
+
+export type DiffPart = {
+  type: "equal" | "removed" | "added";
+  value: string;
+};
+
+// Batas ukuran tabel LCS, di atas ini teks dianggap berganti seluruhnya
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Memecah teks menjadi token kata dan spasi (spasi ikut dipertahankan)
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Menggabungkan token berurutan dengan tipe yang sama
+ */
+function pushPart(parts: DiffPart[], type: DiffPart["type"], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+}
+
+/**
+ * Diff dua teks per kata (longest common subsequence)
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ type: "equal", value: before }] : [];
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: "removed" as const, value: before }] : []),
+      ...(after ? [{ type: "added" as const, value: after }] : []),
+    ];
+  }
+
+  // lcs[i][j] = panjang LCS a[i..] dan b[j..]
+  const lcs = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, "removed", a[i++]);
+    } else {
+      pushPart(parts, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, "removed", a[i++]);
+  while (j < b.length) pushPart(parts, "added", b[j++]);
+
+  return parts;
+}
@@ -0,0 +1,66 @@
+/**
+ * Definisi tipe audit log
+ * Setiap perubahan milestone & gambar dicatat append-only di tabel audit_log
+ */
+
+/**
+ * Aksi yang dicatat di audit log
+ */
+export type AuditAction =
+  | "milestone.create"
+  | "milestone.update"
+  | "milestone.delete"
+  | "milestone.restore"
+  | "milestone.purge"
+  | "image.upload"
+  | "image.delete";
+
+/**
+ * Potongan data (JSON) sebelum/sesudah perubahan
+ * Untuk update hanya berisi field yang berubah
+ */
+export type AuditSnapshot = Record<string, unknown>;
+
+/**
+ * Satu entri audit log
+ * actor_email & milestone_title disalin saat dicatat agar tetap terbaca
+ * walau user/milestone sudah dihapus
+ */
+export interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  milestone_id: string | null;
+  milestone_title: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+/**
+ * Filter audit log (disimpan di URL search params /admin/audit)
+ */
+export interface AuditLogFilters {
+  milestoneId?: string;
+  actorId?: string;
+  action?: AuditAction;
+}
+
+/**
+ * Opsi pagination untuk getAuditLog
+ */
+export interface GetAuditLogOptions extends AuditLogFilters {
+  cursor?: string | null;
+  limit?: number;
+}
+
+/**
+ * Satu halaman hasil getAuditLog, urut dari yang terbaru
+ */
+export interface AuditLogPage {
+  items: AuditEntry[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,52 @@
+/**
+ * Definisi tipe komentar & reaksi milestone
+ * Semua member yang login boleh berkomentar dan memberi reaksi pada journey
+ * yang bisa mereka lihat
+ */
+
+/**
+ * Satu komentar (Markdown ringan) pada milestone
+ * created_by_email disalin saat dibuat agar tetap terbaca walau user dihapus
+ */
+export interface MilestoneComment {
+  id: string;
+  milestone_id: string;
+  body: string;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  updated_at: string; // Lebih baru dari created_at berarti sudah diedit
+}
+
+/**
+ * Tipe input untuk membuat komentar
+ */
+export interface CreateCommentInput {
+  milestone_id: string;
+  body: string;
+}
+
+/**
+ * Tipe input untuk mengedit komentar sendiri
+ */
+export interface UpdateCommentInput {
+  id: string;
+  body: string;
+}
+
+/**
+ * Ringkasan satu jenis reaksi pada milestone
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean; // User saat ini ikut memberi reaksi ini
+}
+
+/**
+ * Tipe input untuk memberi/menghapus reaksi
+ */
+export interface ToggleReactionInput {
+  milestone_id: string;
+  emoji: string;
+}
@@ -0,0 +1,55 @@
+import type { Role } from "./roles";
+
+/**
+ * Jenis entri allowlist: satu alamat email atau seluruh domain
+ */
+export type AllowlistKind = "email" | "domain";
+
+/**
+ * Entri allowlist pendaftaran
+ * User baru dengan email/domain yang cocok boleh mendaftar dengan role tersebut
+ */
+export interface AllowlistEntry {
+  id: string;
+  kind: AllowlistKind;
+  value: string; // Email atau domain, huruf kecil
+  role: Role;
+  expires_at: string | null; // null = tidak kedaluwarsa
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Input entri allowlist baru
+ */
+export interface CreateAllowlistEntryInput {
+  kind: AllowlistKind;
+  value: string;
+  role: Role;
+  expires_in_days?: number; // Kosong = permanen
+}
+
+/**
+ * Link undangan sekali pakai yang kedaluwarsa
+ */
+export interface InviteLink {
+  id: string;
+  token: string;
+  email: string | null; // Jika diisi, hanya email ini yang bisa memakai link
+  role: Role;
+  expires_at: string;
+  used_at: string | null;
+  used_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  url?: string; // URL lengkap /invite/[token]
+}
+
+/**
+ * Input link undangan baru
+ */
+export interface CreateInviteLinkInput {
+  role: Role;
+  email?: string;
+  expires_in_days: number;
+}
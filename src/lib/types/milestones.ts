@@ -1,3 +1,5 @@
+import type { Tag } from "./tags";
+
 /**
  * Definisi tipe Milestone
  * Merepresentasikan catatan internal untuk event, aktivitas, dll.
@@ -8,10 +10,62 @@ export interface Milestone {
   title: string;
   description: string | null;
   event_date: string; // String tanggal ISO
-  image_url: string | null;
+  image_url: string | null; // Cover gallery (S3 key di database, presigned URL saat fetch)
   created_at: string;
   updated_at: string;
   created_by: string | null;
+  status: MilestoneStatus;
+  publish_at: string | null; // Waktu (rencana) publikasi, wajib untuk status scheduled
+  deleted_at: string | null; // Terisi jika milestone ada di tempat sampah
+  images?: MilestoneImage[];
+  thumbnail_url?: string; // Presigned URL varian thumbnail cover (untuk grid)
+  description_image_urls?: Record<string, string>; // S3 key gambar inline di deskripsi -> presigned URL
+  tags?: Tag[];
+}
+
+/**
+ * Status publikasi milestone
+ * Hanya published (dan scheduled yang publish_at-nya sudah lewat) yang
+ * terlihat oleh semua member; selebihnya hanya pembuatnya dan editor/owner
+ */
+export type MilestoneStatus = "draft" | "scheduled" | "published" | "archived";
+
+/**
+ * Varian ukuran gambar hasil pipeline pemrosesan server
+ */
+export type ImageVariant = "thumbnail" | "card" | "full";
+
+/**
+ * S3 key untuk setiap varian gambar
+ */
+export type ImageVariantKeys = Record<ImageVariant, string>;
+
+/**
+ * Satu gambar di gallery milestone
+ * image_key menyimpan S3 key, image_url berisi presigned URL saat fetch
+ */
+export interface MilestoneImage {
+  id: string;
+  milestone_id: string;
+  image_key: string; // Key varian full (atau gambar asli untuk data lama)
+  image_url?: string;
+  variants: ImageVariantKeys | null;
+  variant_urls?: Partial<Record<ImageVariant, string>>;
+  caption: string | null;
+  position: number;
+  is_cover: boolean;
+  created_at: string;
+}
+
+/**
+ * Tipe input untuk satu gambar gallery
+ * Urutan gallery mengikuti urutan array
+ */
+export interface MilestoneImageInput {
+  image_key: string;
+  variants?: ImageVariantKeys;
+  caption?: string;
+  is_cover?: boolean;
 }
 
 /**
@@ -22,10 +76,15 @@ export interface CreateMilestoneInput {
   description?: string;
   event_date: string;
   image_url?: string;
+  images?: MilestoneImageInput[];
+  tag_ids?: string[];
+  status?: MilestoneStatus; // Default: published jika punya izin publish, selain itu draft
+  publish_at?: string; // ISO datetime, wajib untuk status scheduled
 }
 
 /**
  * Tipe input untuk memperbarui milestone yang ada
+ * images dan tag_ids (jika diisi) menggantikan seluruh gallery/tag
  */
 export interface UpdateMilestoneInput {
   id: string;
@@ -33,4 +92,84 @@ export interface UpdateMilestoneInput {
   description?: string;
   event_date?: string;
   image_url?: string;
+  images?: MilestoneImageInput[];
+  tag_ids?: string[];
+  status?: MilestoneStatus;
+  publish_at?: string; // ISO datetime, wajib untuk status scheduled
+  expected_updated_at?: string; // updated_at saat form dibuka; jika beda, update ditolak (konflik)
+}
+
+/**
+ * Versi sebelumnya dari milestone, disimpan setiap kali updateMilestone
+ * mengubah isi journey (status tidak ikut dipulihkan)
+ */
+export interface MilestoneRevision {
+  id: string;
+  milestone_id: string;
+  title: string;
+  description: string | null;
+  event_date: string;
+  image_url: string | null; // S3 key cover saat versi ini aktif
+  images: MilestoneImageInput[];
+  tag_ids: string[];
+  created_by: string | null; // User yang mengganti versi ini
+  created_by_email: string | null;
+  created_at: string;
+  cover_url?: string; // Presigned URL thumbnail cover (untuk diff gambar)
+}
+
+/**
+ * Urutan daftar milestone
+ */
+export type MilestoneSort = "newest" | "oldest" | "updated" | "title";
+
+/**
+ * Filter daftar milestone (disimpan di URL search params home page)
+ */
+export interface MilestoneFilters {
+  from?: string; // YYYY-MM-DD, inklusif
+  to?: string; // YYYY-MM-DD, inklusif
+  year?: number;
+  month?: number; // 1-12, hanya berlaku bersama year
+  hasImage?: boolean;
+  tag?: string; // Slug tag
+  sort?: MilestoneSort;
+}
+
+/**
+ * Opsi pagination untuk getMilestones
+ * Cursor berbasis (kolom urutan, id) sehingga stabil walau ada data baru
+ */
+export interface GetMilestonesOptions extends MilestoneFilters {
+  cursor?: string | null;
+  startYear?: number; // Lompat ke tahun tertentu (hanya urutan newest/oldest)
+  limit?: number;
+}
+
+/**
+ * Satu halaman hasil getMilestones
+ * total hanya diisi di halaman pertama (tanpa cursor)
+ */
+export interface MilestonePage {
+  items: Milestone[];
+  nextCursor: string | null;
+  total?: number;
+}
+
+/**
+ * Jumlah milestone per tahun untuk kontrol "lompat ke tahun"
+ */
+export interface MilestoneYear {
+  year: number;
+  count: number;
+}
+
+/**
+ * Hasil pencarian full-text milestone
+ * title_highlight dan snippet berisi penanda highlight (lihat src/lib/search.ts)
+ */
+export interface MilestoneSearchResult extends Milestone {
+  rank: number;
+  title_highlight: string;
+  snippet: string;
 }
@@ -0,0 +1,44 @@
+/**
+ * Definisi tipe notifikasi email
+ */
+
+/**
+ * Jenis email yang bisa diatur per user
+ * - milestone_published: journey baru terbit
+ * - proposal_outcome: usulan milik user disetujui, diminta perbaikan, atau ditolak
+ * - weekly_digest: ringkasan journey yang terbit selama seminggu
+ */
+export type NotificationTopic =
+  "milestone_published" | "proposal_outcome" | "weekly_digest";
+
+/**
+ * Preferensi notifikasi user (satu baris per user di notification_preferences)
+ */
+export type NotificationPreferences = Record<NotificationTopic, boolean>;
+
+/**
+ * Tipe input untuk mengubah preferensi notifikasi
+ */
+export type UpdateNotificationPreferencesInput =
+  Partial<NotificationPreferences>;
+
+/**
+ * Hasil job ringkasan mingguan
+ */
+export interface DigestReport {
+  dry_run: boolean;
+  since: string;
+  milestones: number;
+  recipients: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Hasil job pengumuman journey terjadwal
+ */
+export interface ScheduledPublishReport {
+  dry_run: boolean;
+  milestones: number; // Journey terjadwal yang sudah terbit tapi belum diumumkan
+  announced: number;
+}
@@ -0,0 +1,57 @@
+import type { MilestoneImageInput } from "./milestones";
+
+/**
+ * Definisi tipe usulan journey dari member
+ * Usulan masuk antrean review; saat disetujui, isinya dipindahkan ke milestones
+ */
+
+/**
+ * Status usulan
+ * - pending: menunggu review (juga setelah pengusul mengirim ulang)
+ * - changes_requested: reviewer meminta perbaikan, pengusul bisa mengedit
+ * - approved: sudah menjadi milestone (milestone_id terisi)
+ * - rejected: ditolak dengan alasan
+ */
+export type ProposalStatus =
+  "pending" | "changes_requested" | "approved" | "rejected";
+
+/**
+ * Satu usulan journey
+ * Gambar disimpan di prefix karantina proposals/ sampai disetujui
+ */
+export interface MilestoneProposal {
+  id: string;
+  title: string;
+  description: string | null;
+  event_date: string; // YYYY-MM-DD
+  images: MilestoneImageInput[];
+  tag_ids: string[];
+  status: ProposalStatus;
+  review_note: string | null; // Alasan penolakan / catatan perbaikan
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  milestone_id: string | null; // Milestone hasil persetujuan
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  updated_at: string;
+  image_urls?: Record<string, string>; // S3 key gambar (gallery thumbnail & inline) -> presigned URL
+}
+
+/**
+ * Tipe input untuk mengirim usulan baru
+ */
+export interface SubmitProposalInput {
+  title: string;
+  description?: string;
+  event_date: string;
+  images?: MilestoneImageInput[];
+  tag_ids?: string[];
+}
+
+/**
+ * Tipe input untuk memperbaiki usulan (dikirim ulang sebagai pending)
+ */
+export interface UpdateProposalInput extends SubmitProposalInput {
+  id: string;
+}
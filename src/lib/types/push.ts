@@ -0,0 +1,24 @@
+/**
+ * Definisi tipe Web Push
+ */
+
+/**
+ * Langganan push dari browser (PushSubscription.toJSON())
+ */
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * Isi notifikasi yang dikirim ke service worker (public/sw.js)
+ */
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string; // Dibuka saat notifikasi diklik
+  tag?: string; // Notifikasi dengan tag sama saling menggantikan
+}
@@ -0,0 +1,41 @@
+/**
+ * Role user, urut dari akses terendah ke tertinggi
+ * - viewer: membaca journey yang sudah dipublikasikan & mengusulkan journey baru
+ * - contributor: membuat & mengedit draft miliknya, tidak bisa publish/hapus
+ * - editor: mengelola semua journey, publish, hapus, tag, moderasi komentar,
+ *   meninjau usulan journey, dan membuat link berbagi publik
+ * - owner: semua akses editor + pemeliharaan storage, notifikasi email,
+ *   manajemen user & audit log
+ */
+export type Role = "viewer" | "contributor" | "editor" | "owner";
+
+/**
+ * Izin per aksi yang dicek di server action dan dipakai untuk gating UI
+ */
+export type Permission =
+  | "milestone.create"
+  | "milestone.edit_own"
+  | "milestone.edit_any"
+  | "milestone.publish"
+  | "milestone.delete"
+  | "milestone.share"
+  | "media.upload"
+  | "media.delete"
+  | "tag.manage"
+  | "comment.moderate"
+  | "proposal.submit"
+  | "proposal.review"
+  | "storage.manage"
+  | "notification.manage"
+  | "user.manage"
+  | "audit.view";
+
+/**
+ * Hasil resolve akses user saat ini
+ * role null berarti belum login
+ */
+export interface AccessContext {
+  userId: string | null;
+  role: Role | null;
+  permissions: Permission[];
+}
@@ -0,0 +1,41 @@
+import type { Milestone } from "./milestones";
+
+/**
+ * Link berbagi publik untuk satu milestone
+ * Siapa pun yang memegang token bisa melihat journey tanpa login
+ * selama link belum dicabut/kedaluwarsa dan journey masih terbit
+ */
+export interface ShareLink {
+  id: string;
+  milestone_id: string;
+  token: string;
+  expires_at: string | null; // null = tidak kedaluwarsa
+  created_by: string | null;
+  created_at: string;
+  url?: string; // URL lengkap /s/[token]
+}
+
+/**
+ * Input link berbagi baru
+ */
+export interface CreateShareLinkInput {
+  milestone_id: string;
+  expires_in_days?: number; // Kosong = permanen
+}
+
+/**
+ * Journey yang dibuka lewat link berbagi (read-only)
+ * Gambar memakai presigned URL berumur pendek
+ */
+export type SharedMilestone = Pick<
+  Milestone,
+  | "id"
+  | "title"
+  | "description"
+  | "event_date"
+  | "images"
+  | "tags"
+  | "description_image_urls"
+> & {
+  cover_url: string | null; // Varian full cover, untuk og:image
+};
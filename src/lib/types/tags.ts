@@ -0,0 +1,27 @@
+/**
+ * Tipe data tag/kategori milestone
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  slug: string; // Dipakai di URL filter (?tag=)
+  color: string; // Hex, contoh: #2563eb
+  created_at: string;
+}
+
+/**
+ * Tipe input untuk membuat tag
+ */
+export interface CreateTagInput {
+  name: string;
+  color: string;
+}
+
+/**
+ * Tipe input untuk memperbarui tag
+ */
+export interface UpdateTagInput {
+  id: string;
+  name?: string;
+  color?: string;
+}
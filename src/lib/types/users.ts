@@ -0,0 +1,25 @@
+import type { Role } from "./roles";
+
+/**
+ * User terautentikasi untuk halaman /admin/users
+ * Dibaca dari auth.users (service role) dan digabung dengan user_roles
+ */
+export interface ManagedUser {
+  id: string;
+  email: string | null;
+  name: string | null;
+  provider: string; // Provider login terakhir, mis. "google" atau "email"
+  role: Role | null; // null = tanpa akses (tidak punya baris user_roles)
+  created_at: string;
+  last_sign_in_at: string | null;
+  invited_at: string | null; // Terisi jika user diundang dan belum pernah login
+  is_active: boolean; // false jika user dinonaktifkan (banned)
+}
+
+/**
+ * Input undangan user baru
+ */
+export interface InviteUserInput {
+  email: string;
+  role: Role;
+}
@@ -0,0 +1,90 @@
+import {
+  confirmImageUpload,
+  getImageUploadUrl,
+  type ImageDestination,
+  type StorageResult,
+} from "@/lib/actions/storage";
+
+/**
+ * Menentukan MIME type file di browser
+ * Beberapa browser mengirim HEIC tanpa MIME type, jadi fallback ke extension
+ */
+function resolveContentType(file: File): string {
+  if (file.type) return file.type;
+  const ext = file.name.split(".").pop()?.toLowerCase();
+  if (ext === "heic" || ext === "heif") return `image/${ext}`;
+  return "";
+}
+
+/**
+ * PUT file ke presigned URL dengan laporan progress
+ * fetch() belum mendukung progress upload, jadi memakai XMLHttpRequest
+ */
+function putWithProgress(
+  url: string,
+  file: File,
+  contentType: string,
+  onProgress?: (percent: number) => void,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", contentType);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => resolve(xhr.status >= 200 && xhr.status < 300);
+    xhr.onerror = () => resolve(false);
+    xhr.onabort = () => resolve(false);
+
+    xhr.send(file);
+  });
+}
+
+/**
+ * Upload gambar langsung ke bucket lalu minta server mengonfirmasinya
+ * 1. Minta presigned PUT URL (tipe & ukuran ikut ditandatangani)
+ * 2. PUT file dari browser dengan progress
+ * 3. Server memvalidasi magic bytes dan membuat varian WebP
+ *
+ * @param destination - milestone (default) atau karantina proposal
+ * @returns Hasil konfirmasi berisi key varian full dan semua varian
+ */
+export async function uploadImageDirect(
+  file: File,
+  onProgress?: (percent: number) => void,
+  destination: ImageDestination = "milestone",
+): Promise<StorageResult> {
+  const contentType = resolveContentType(file);
+
+  const urlResult = await getImageUploadUrl({
+    contentType,
+    size: file.size,
+    destination,
+  });
+  if (!urlResult.success || !urlResult.uploadUrl || !urlResult.key) {
+    return {
+      success: false,
+      error: urlResult.error || "Gagal menyiapkan upload",
+    };
+  }
+
+  onProgress?.(0);
+  const uploaded = await putWithProgress(
+    urlResult.uploadUrl,
+    file,
+    contentType,
+    onProgress,
+  );
+  if (!uploaded) {
+    return {
+      success: false,
+      error: "Gagal mengupload gambar. Periksa koneksi lalu coba lagi.",
+    };
+  }
+
+  return confirmImageUpload(urlResult.key, destination);
+}
@@ -45,15 +45,39 @@ export async function proxy(request: NextRequest) {
 
   // PENTING: Menyegarkan token auth
   const {
-    data: { user },
+    data: { user: sessionUser },
   } = await supabase.auth.getUser();
 
+  // Sesi saja tidak cukup: akun yang dibuat langsung lewat Supabase Auth
+  // (melewati allowlist) tidak punya baris user_roles dan dikeluarkan
+  let user = sessionUser;
+  let notMember = false;
+  if (sessionUser) {
+    const { data: membership } = await supabase
+      .from("user_roles")
+      .select("user_id")
+      .eq("user_id", sessionUser.id)
+      .maybeSingle();
+
+    if (!membership) {
+      await supabase.auth.signOut();
+      user = null;
+      notMember = true;
+    }
+  }
+
   // Konfigurasi route yang dilindungi
   // Route ini memerlukan autentikasi - user akan diarahkan ke login
+  // Sengaja tidak dilindungi: /s/[token] (link berbagi publik, otorisasi
+  // lewat token), /invite/[token], dan /offline
   const protectedRoutes = [
     "/",
     "/account",
     "/form",
+    "/admin",
+    "/trash",
+    "/propose",
+    "/review",
     "/dashboard",
     "/profile",
     "/settings",
@@ -72,7 +96,14 @@ export async function proxy(request: NextRequest) {
     const url = request.nextUrl.clone();
     url.pathname = "/login";
     url.searchParams.set("redirect", request.nextUrl.pathname);
-    return NextResponse.redirect(url);
+    if (notMember) url.searchParams.set("error", "not_invited");
+
+    // Bawa cookie sesi yang dihapus signOut ke respons redirect
+    const redirectResponse = NextResponse.redirect(url);
+    supabaseResponse.cookies
+      .getAll()
+      .forEach((cookie) => redirectResponse.cookies.set(cookie));
+    return redirectResponse;
   }
 
   // Arahkan user terautentikasi menjauhi halaman auth
@@ -103,8 +134,9 @@ export const config = {
      * - _next/static (file statis)
      * - _next/image (file optimasi gambar)
      * - favicon.ico (file favicon)
+     * - sw.js & manifest.webmanifest (PWA, harus bisa diambil tanpa sesi)
      * - File publik (svg, png, jpg, dll.)
      */
-    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+    "/((?!_next/static|_next/image|favicon.ico|sw.js|manifest.webmanifest|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
   ],
 };